@@ -1,11 +1,38 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Pencil, Search, Loader2, Volume2, StopCircle, History, Trash2, ChevronRight, Video, Download, RefreshCw, VolumeX, Sparkles } from 'lucide-react';
-import { generateSketchSteps, generateSpeech, regenerateSingleStep } from './services/geminiService';
-import { getHistory, saveHistoryItem, deleteHistoryItem } from './services/storageService';
-import { base64ToBytes, pcmToAudioBuffer } from './utils/audio';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Pencil, Search, Loader2, Volume2, StopCircle, History, Trash2, ChevronRight, Video, Download, RefreshCw, VolumeX, Sparkles, Settings, Dices, Upload, PenLine, Move, Palette } from 'lucide-react';
+import { createProvider } from './services/modelProvider';
+import { exportVideo, VideoExportOptions } from './services/videoExportService';
+import { createProject, getProjectFilename, readProjectFile, serializeProject, PROJECT_FILE_EXTENSION, ProjectNarration } from './services/projectService';
+import { exportStepSvg, exportStoryboardSvgZip, getStepSvgFilename, SvgExportMode } from './services/svgExportService';
+import { getHistory, saveHistoryItem, deleteHistoryItem, getProviderSettings, saveProviderSettings, getAutoRepairLayout, saveAutoRepairLayout, getAspectPreset, saveAspectPreset, getDefaultTheme, saveDefaultTheme, getNarration, saveNarration, clearNarration, getStorageUsage, saveStorageLimit } from './services/storageService';
+import { base64ToBytes, bytesToBase64, getNarrationKey, pcmToAudioBuffer } from './utils/audio';
+import { createSeed } from './utils/seed';
+import { patchStep, StepPatchError } from './utils/stepPatcher';
+import { getDrawingSource, PatchPreview, previewStoryboardPatch, StoryboardPatchError } from './utils/storyboardPatch';
+import { describeLayoutIssues, LayoutIssue } from './utils/layoutLint';
+import { ASPECT_PRESETS, getPresetCanvas, getStoryboardCanvas, LEGACY_CANVAS } from './utils/canvasSize';
+import { DEFAULT_THEME, getStoryboardTheme } from './utils/themes';
+import { findStepProblem, repairStep, StepRepair } from './utils/stepValidation';
+import { createBlankStep, deleteStep, duplicateStep, insertStep, moveStep, replaceSteps, StoryboardEdit } from './utils/storyboard';
 import SketchCanvas, { SketchCanvasHandle } from './components/SketchCanvas';
 import StepControls from './components/StepControls';
-import { SketchStep, AppState, HistoryItem } from './types';
+import TimelineScrubber from './components/TimelineScrubber';
+import SettingsPanel from './components/SettingsPanel';
+import ExportDialog from './components/ExportDialog';
+import StepEditor from './components/StepEditor';
+import Filmstrip from './components/Filmstrip';
+import RefinePanel, { RefineTurn } from './components/RefinePanel';
+import PatchReview from './components/PatchReview';
+import RegeneratePanel from './components/RegeneratePanel';
+import ThemePanel from './components/ThemePanel';
+import LayoutCheck from './components/LayoutCheck';
+import RepairBadge from './components/RepairBadge';
+import { DrawCommand, SketchStep, AppState, HistoryItem, StepFormat, ProviderSettings, StorageUsage, RegenerateContext, AspectPresetId, CanvasSize, Theme } from './types';
+
+// How many redraws the regenerate panel offers side by side
+const REGENERATE_CANDIDATES = 3;
+// Automatic layout repairs give up on a step after this many redraws
+const MAX_AUTO_LAYOUT_REPAIRS = 2;
 
 const App: React.FC = () => {
   const [query, setQuery] = useState('');
@@ -13,6 +40,14 @@ const App: React.FC = () => {
   const [steps, setSteps] = useState<SketchStep[]>([]);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [errorMsg, setErrorMsg] = useState('');
+  const [stepFormat, setStepFormat] = useState<StepFormat>('code');
+  // New storyboards are generated for the chosen preset; the canvas is whatever the open storyboard was drawn at
+  const [aspectPreset, setAspectPreset] = useState<AspectPresetId>(getAspectPreset);
+  const [canvasSize, setCanvasSize] = useState<CanvasSize>(LEGACY_CANVAS);
+  // The open storyboard's theme, and the one being tried out in the theme panel
+  const [theme, setTheme] = useState<Theme>(DEFAULT_THEME);
+  const [isTheming, setIsTheming] = useState(false);
+  const [themeDraft, setThemeDraft] = useState<Theme | null>(null);
   
   // Audio State
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -22,13 +57,50 @@ const App: React.FC = () => {
   // Export State
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState('');
+  const [showExportDialog, setShowExportDialog] = useState(false);
+
+  // Project File Import State
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const projectInputRef = useRef<HTMLInputElement>(null);
   
-  // Regeneration State
+  // Generated steps that failed their dry run, keyed by the step object shown for them
+  const [stepRepairs, setStepRepairs] = useState<Map<SketchStep, StepRepair>>(new Map());
+
+  // Regeneration State: options for one step, compared before one replaces it
   const [isRegenerating, setIsRegenerating] = useState(false);
+  const [regeneration, setRegeneration] = useState<{ index: number; base: SketchStep; candidates: SketchStep[]; error: string } | null>(null);
+
+  // Step Editor State: the canvas shows the draft while editing
+  const [isEditing, setIsEditing] = useState(false);
+  const [editorPreview, setEditorPreview] = useState<SketchStep | null>(null);
+  const [isArranging, setIsArranging] = useState(false);
+  const [showOutline, setShowOutline] = useState(false);
+  const [structureBusyStep, setStructureBusyStep] = useState<number | null>(null);
+  const [refineTurns, setRefineTurns] = useState<RefineTurn[]>([]);
+  // A proposed patch under review, with the storyboard it was computed against
+  const [pendingPatch, setPendingPatch] = useState<{ turn: number; summary: string; base: SketchStep[]; preview: PatchPreview } | null>(null);
+  // Layout lint findings for the step the canvas last drew
+  const [layoutReport, setLayoutReport] = useState<{ step: SketchStep; issues: LayoutIssue[] } | null>(null);
+  const [showLayoutIssues, setShowLayoutIssues] = useState(true);
+  const [autoRepairLayout, setAutoRepairLayout] = useState(getAutoRepairLayout);
+  // Redraws so far of each step, counted through repairs so automatic repair can't loop
+  const layoutRepairsRef = useRef(new WeakMap<SketchStep, number>());
+  // A proposed step (from a patch or a regeneration) shown on the canvas instead of the current one
+  const [canvasPreview, setCanvasPreview] = useState<SketchStep | null>(null);
+  const [editorRunError, setEditorRunError] = useState<unknown>(null);
   
   // History Dropdown State
   const [showDropdown, setShowDropdown] = useState(false);
   const [history, setHistory] = useState<HistoryItem[]>([]);
+
+  // Storage State (the banner reports failed saves and imports)
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [bannerError, setBannerError] = useState('');
+
+  // Model Provider State
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(getProviderSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const provider = useMemo(() => createProvider(providerSettings, canvasSize), [providerSettings, canvasSize]);
   
   const canvasRef = useRef<SketchCanvasHandle>(null);
 
@@ -38,15 +110,14 @@ const App: React.FC = () => {
   
   // Track current step in a ref to prevent race conditions in async audio playback
   const currentStepRef = useRef(currentStepIndex);
+
+  // Incremented whenever a search starts or is abandoned, so late stream callbacks from an old search are ignored
+  const searchIdRef = useRef(0);
   
   // Cache keyed by text content (string)
   const audioCacheRef = useRef<Map<string, AudioBuffer>>(new Map()); 
   const audioLoadingPromisesRef = useRef<Map<string, Promise<AudioBuffer>>>(new Map()); 
 
-  // Export References
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
-
   // Initialize AudioContext lazily
   const getAudioContext = useCallback(() => {
     if (!audioContextRef.current) {
@@ -55,11 +126,16 @@ const App: React.FC = () => {
     return audioContextRef.current;
   }, []);
 
-  // Load history on mount
-  useEffect(() => {
-    setHistory(getHistory());
+  const refreshStorageUsage = useCallback(() => {
+    getStorageUsage().then(setStorageUsage).catch(e => console.error("Failed to measure storage", e));
   }, []);
 
+  // Load history on mount (the first open also migrates the old localStorage list)
+  useEffect(() => {
+    getHistory().then(setHistory);
+    refreshStorageUsage();
+  }, [refreshStorageUsage]);
+
   // Sync ref with state
   useEffect(() => {
     currentStepRef.current = currentStepIndex;
@@ -75,9 +151,7 @@ const App: React.FC = () => {
     setIsSpeaking(false);
   }, []);
 
-  const getAudioKey = useCallback((step: SketchStep) => {
-    return `${step.title.trim()}|${step.description.trim()}`;
-  }, []);
+  const getAudioKey = useCallback((step: SketchStep) => getNarrationKey(step, providerSettings), [providerSettings]);
 
   // Core function to load audio (checks cache -> checks in-flight -> generates)
   const ensureAudioLoaded = useCallback(async (index: number): Promise<AudioBuffer> => {
@@ -99,14 +173,19 @@ const App: React.FC = () => {
       return audioLoadingPromisesRef.current.get(key)!;
     }
 
-    // 3. Generate New
+    // 3. Load from storage, or generate new
     const promise = (async () => {
       try {
-        const text = `${step.title}. ${step.description}`;
-        const b64 = await generateSpeech(text);
+        let bytes = await getNarration(key);
+        if (!bytes) {
+          const text = `${step.title}. ${step.description}`;
+          bytes = base64ToBytes(await provider.generateSpeech(text));
+          saveNarration(key, bytes)
+            .then(refreshStorageUsage)
+            .catch(e => console.error("Failed to store narration", e));
+        }
         
         const ctx = getAudioContext(); 
-        const bytes = base64ToBytes(b64);
         const buffer = pcmToAudioBuffer(bytes, ctx);
         
         audioCacheRef.current.set(key, buffer);
@@ -127,7 +206,7 @@ const App: React.FC = () => {
 
     audioLoadingPromisesRef.current.set(key, promise);
     return promise;
-  }, [steps, getAudioContext, getAudioKey, quotaExceeded]);
+  }, [steps, getAudioContext, getAudioKey, quotaExceeded, provider, refreshStorageUsage]);
 
   const playAudioForStep = useCallback(async (index: number) => {
     const step = steps[index];
@@ -201,9 +280,12 @@ const App: React.FC = () => {
     };
   }, [stopSpeaking]);
 
+  // Steps are viewable both once generation finishes and while later steps are still streaming in
+  const isViewingSteps = appState === AppState.SUCCESS || appState === AppState.STREAMING;
+
   // --- Throttled Pre-fetch Logic ---
   useEffect(() => {
-    if (appState === AppState.SUCCESS && steps.length > 0 && !quotaExceeded) {
+    if (isViewingSteps && steps.length > 0 && !quotaExceeded) {
       // Debounce the pre-fetch by 1.5 seconds.
       // This ensures we only pre-fetch if the user stays on a step for a bit.
       const timer = setTimeout(() => {
@@ -216,40 +298,54 @@ const App: React.FC = () => {
 
       return () => clearTimeout(timer);
     }
-  }, [currentStepIndex, appState, steps, ensureAudioLoaded, quotaExceeded]);
+  }, [currentStepIndex, isViewingSteps, steps, ensureAudioLoaded, quotaExceeded]);
 
 
   // --- Auto Play Logic ---
+  // Called through a ref: while streaming, every arriving step recreates playAudioForStep,
+  // and narration of the current step must not restart because a later step showed up.
+  const playAudioForStepRef = useRef(playAudioForStep);
+  playAudioForStepRef.current = playAudioForStep;
+  const currentStepData = steps[currentStepIndex];
+  // Their persistent elements are already on the canvas when the current step starts
+  const previousSteps = useMemo(() => steps.slice(0, currentStepIndex), [steps, currentStepIndex]);
+
   useEffect(() => {
-    // Only auto-play if we are successful, have steps, not exporting, and have quota
-    if (appState === AppState.SUCCESS && steps.length > 0 && !isExporting && !quotaExceeded) {
+    // Only auto-play if we are viewing steps, not exporting, and have quota
+    if (isViewingSteps && currentStepData && !isExporting && !quotaExceeded) {
       const timer = setTimeout(() => {
-        playAudioForStep(currentStepIndex);
+        playAudioForStepRef.current(currentStepIndex);
       }, 500);
       return () => clearTimeout(timer);
     }
-  }, [currentStepIndex, appState, steps, isExporting, playAudioForStep, quotaExceeded]);
+  }, [currentStepIndex, isViewingSteps, currentStepData, isExporting, quotaExceeded]);
 
 
-  // --- Export Video Logic (Optimized) ---
+  // --- Export Logic ---
 
-  const handleExportVideo = async () => {
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportVideo = async (options: VideoExportOptions) => {
     if (steps.length === 0 || isExporting) return;
     
+    setShowExportDialog(false);
     stopSpeaking();
+    canvasRef.current?.pause();
     setIsExporting(true);
     setExportProgress('Preparing Audio...');
 
     try {
-      const ctx = getAudioContext();
-      if (ctx.state === 'suspended') await ctx.resume();
-      
-      const dest = ctx.createMediaStreamDestination();
-
       // 1. Ensure ALL audio buffers are cached
+      const buffers: Array<AudioBuffer | undefined> = [];
       for (let i = 0; i < steps.length; i++) {
-        const step = steps[i];
-        const key = getAudioKey(step);
+        const key = getAudioKey(steps[i]);
         if (!audioCacheRef.current.has(key)) {
           setExportProgress(`Generating Audio (${i + 1}/${steps.length})...`);
           try {
@@ -258,88 +354,127 @@ const App: React.FC = () => {
              console.warn(`Could not load audio for step ${i}, continuing without audio.`);
           }
         }
+        buffers.push(audioCacheRef.current.get(key));
       }
 
-      // 2. Setup MediaRecorder
-      setExportProgress('Starting Recording...');
-      const canvasElement = canvasRef.current?.getCanvas();
-      if (!canvasElement) throw new Error("Canvas not found");
-      
-      const canvasStream = canvasElement.captureStream(30); 
-      const combinedStream = new MediaStream([
-        ...canvasStream.getVideoTracks(),
-        ...dest.stream.getAudioTracks()
-      ]);
-
-      const recorder = new MediaRecorder(combinedStream, { 
-        mimeType: 'video/webm; codecs=vp9',
-        videoBitsPerSecond: 2500000 
-      });
-      chunksRef.current = [];
-      
-      recorder.ondataavailable = (e) => {
-        if (e.data.size > 0) chunksRef.current.push(e.data);
-      };
+      // 2. Render and encode every frame offline
+      const blob = await exportVideo(steps, buffers, options, canvasSize, theme, setExportProgress);
 
-      recorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'video/webm' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `sketchy-full-guide.webm`;
-        a.click();
-        URL.revokeObjectURL(url);
-        
-        setIsExporting(false);
-        setExportProgress('');
-      };
+      downloadBlob(blob, `sketchy-full-guide.${options.format}`);
 
-      mediaRecorderRef.current = recorder;
-      recorder.start();
-
-      // 3. Playback Sequence
-      const playExportStep = (index: number) => {
-        if (index >= steps.length) {
-          setTimeout(() => mediaRecorderRef.current?.stop(), 1000);
-          return;
-        }
+    } catch (err) {
+      console.error("Export failed", err);
+      alert(err instanceof Error ? `Failed to export video: ${err.message}` : "Failed to export video. Please try again.");
+    } finally {
+      setIsExporting(false);
+      setExportProgress('');
+    }
+  };
 
-        setExportProgress(`Recording Step ${index + 1}/${steps.length}...`);
-        setCurrentStepIndex(index);
-        
-        setTimeout(() => {
-           canvasRef.current?.replay();
-           
-           const step = steps[index];
-           const key = getAudioKey(step);
-           const buffer = audioCacheRef.current.get(key);
-           
-           if (buffer) {
-             const source = ctx.createBufferSource();
-             source.buffer = buffer;
-             source.connect(dest);
-             source.connect(ctx.destination);
-             source.onended = () => {
-               setTimeout(() => playExportStep(index + 1), 1000);
-             };
-             source.start();
-           } else {
-             // If no audio (due to error/quota), just wait a fixed time (e.g., 5s)
-             setTimeout(() => playExportStep(index + 1), 5000);
-           }
-        }, 100); 
-      };
+  // --- Persistence ---
+
+  // Resolves to whether the storyboard was saved; failures are shown in the banner rather than rejected
+  const persistHistory = (itemQuery: string, itemSteps: SketchStep[], itemCanvas: CanvasSize = canvasSize, itemTheme: Theme = theme) =>
+    saveHistoryItem(itemQuery, itemSteps, itemCanvas, itemTheme)
+      .then(newHistory => {
+        setHistory(newHistory);
+        setBannerError('');
+        return true;
+      })
+      .catch((e: Error) => {
+        setBannerError(`This storyboard couldn't be saved: ${e.message}`);
+        return false;
+      })
+      .finally(refreshStorageUsage);
+
+  const handleExportSvg = async (mode: SvgExportMode) => {
+    if (steps.length === 0 || isExporting) return;
 
-      playExportStep(0);
+    setShowExportDialog(false);
+    setIsExporting(true);
+    setExportProgress('Drawing SVG...');
 
+    try {
+      if (mode === 'zip') {
+        downloadBlob(await exportStoryboardSvgZip(steps, canvasSize, theme, setExportProgress), 'sketchy-full-guide-svg.zip');
+      } else {
+        const animated = mode === 'animated';
+        const step = steps[currentStepIndex];
+        downloadBlob(await exportStepSvg(step, steps.slice(0, currentStepIndex), canvasSize, theme, animated), getStepSvgFilename(step, currentStepIndex, animated));
+      }
     } catch (err) {
-      console.error("Export failed", err);
+      console.error("SVG export failed", err);
+      alert(err instanceof Error ? `Failed to export SVG: ${err.message}` : "Failed to export SVG. Please try again.");
+    } finally {
       setIsExporting(false);
       setExportProgress('');
-      alert("Failed to export video. Please try again.");
     }
   };
 
+  // Narration is only included for steps whose clip is already stored; nothing is generated for the export
+  const handleExportProject = async (includeNarration: boolean) => {
+    if (steps.length === 0 || isExporting) return;
+
+    setShowExportDialog(false);
+    let narration: ProjectNarration | undefined;
+    if (includeNarration) {
+      const clips = await Promise.all(steps.map(async step => {
+        const pcm = await getNarration(getAudioKey(step));
+        return pcm ? bytesToBase64(pcm) : null;
+      }));
+      const { provider: providerId, speechModel, voice } = providerSettings;
+      narration = { voice: { provider: providerId, speechModel, voice }, clips };
+    }
+
+    const project = createProject(query, steps, Date.now(), canvasSize, theme, narration);
+    downloadBlob(serializeProject(project), getProjectFilename(query));
+  };
+
+  // --- Project Import Logic ---
+
+  const importProjectFiles = async (files: File[]) => {
+    if (files.length === 0 || isExporting) return;
+    setBannerError('');
+
+    try {
+      let lastItem: HistoryItem | null = null;
+      for (const file of files) {
+        for (const project of await readProjectFile(file)) {
+          if (project.narration) {
+            const { voice, clips } = project.narration;
+            await Promise.all(project.steps.map((step, i) => clips[i]
+              ? saveNarration(getNarrationKey(step, voice), base64ToBytes(clips[i]!))
+              : Promise.resolve()));
+          }
+          const newHistory = await saveHistoryItem(project.query, project.steps, project.canvas, project.theme);
+          setHistory(newHistory);
+          lastItem = newHistory[0];
+        }
+      }
+      if (lastItem) loadHistoryItem(lastItem);
+    } catch (e) {
+      console.error("Import failed", e);
+      setBannerError(`Couldn't open the project: ${(e as Error).message}`);
+    } finally {
+      refreshStorageUsage();
+    }
+  };
+
+  const hasDraggedFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    setIsDraggingFile(false);
+    importProjectFiles(Array.from(e.dataTransfer.files));
+  };
+
   // --- Search Logic ---
 
   const handleSearch = async (e: React.FormEvent) => {
@@ -347,6 +482,11 @@ const App: React.FC = () => {
     if (!query.trim()) return;
 
     stopSpeaking();
+    closeEditor();
+    closeRegenerate();
+    closeThemePanel();
+    setIsArranging(false);
+    discardRefinement();
     setQuotaExceeded(false); 
     setShowDropdown(false);
     
@@ -355,28 +495,101 @@ const App: React.FC = () => {
     setErrorMsg('');
     setCurrentStepIndex(0);
 
+    // The provider in state still targets the previous storyboard's canvas until the next render
+    const canvas = getPresetCanvas(aspectPreset);
+    const searchProvider = createProvider(providerSettings, canvas);
+    setCanvasSize(canvas);
+    // New storyboards start in the last theme that was applied
+    const searchTheme = getDefaultTheme();
+    setTheme(searchTheme);
+
+    const searchId = ++searchIdRef.current;
+    const received: SketchStep[] = [];
+    const checks: Promise<void>[] = [];
+    setStepRepairs(new Map());
+
+    // Dry-runs a step as it arrives and swaps in a repaired version if it fails
+    const checkReceivedStep = async (step: SketchStep, index: number) => {
+      const problem = await findStepProblem(step, canvas);
+      if (!problem || searchId !== searchIdRef.current) return;
+
+      setStepRepairs(repairs => new Map(repairs).set(step, { status: 'repairing', problem, attempts: 0 }));
+      const result = await repairStep(searchProvider, step, problem, canvas, { previous: received[index - 1], next: received[index + 1] });
+      if (searchId !== searchIdRef.current) return;
+
+      received[index] = result.step;
+      setSteps([...received]);
+      setStepRepairs(repairs => new Map(repairs).set(result.step, result.repair));
+    };
+
     try {
-      const data = await generateSketchSteps(query);
+      // Step 1 becomes viewable (and narratable) as soon as it has streamed in
+      const data = await searchProvider.streamStoryboard(query, stepFormat, (step, index) => {
+        if (searchId !== searchIdRef.current) return;
+        received.push(step);
+        setSteps([...received]);
+        setAppState(AppState.STREAMING);
+        checks.push(checkReceivedStep(step, index));
+      });
+      await Promise.all(checks);
+      if (searchId !== searchIdRef.current) return;
+
+      // `received` holds the same steps as the response, with repairs swapped in
       if (data.steps && data.steps.length > 0) {
-        setSteps(data.steps);
+        setSteps([...received]);
         setAppState(AppState.SUCCESS);
-        saveHistoryItem(query, data.steps);
-        setHistory(getHistory());
+        persistHistory(query, received, canvas, searchTheme);
       } else {
         throw new Error("No steps generated.");
       }
     } catch (err) {
+      await Promise.all(checks);
+      if (searchId !== searchIdRef.current) return;
+
+      // If the stream broke midway, keep the steps the user is already looking at, but say the ending is missing
+      if (received.length > 0) {
+        console.warn("Stream ended early, keeping received steps", err);
+        setSteps([...received]);
+        setAppState(AppState.SUCCESS);
+        const notice = `The response was cut off after ${received.length} step${received.length === 1 ? '' : 's'}, so this storyboard may be missing its ending.`;
+        // Set after saving, which clears the banner when it succeeds
+        persistHistory(query, received, canvas, searchTheme).then(saved => {
+          if (saved && searchId === searchIdRef.current) setBannerError(notice);
+        });
+        return;
+      }
+
       setAppState(AppState.ERROR);
       setErrorMsg("Failed to generate sketches. Please try a different query.");
     }
   };
 
+  const goHome = () => {
+    searchIdRef.current++;
+    stopSpeaking();
+    closeEditor();
+    closeRegenerate();
+    closeThemePanel();
+    setIsArranging(false);
+    discardRefinement();
+    setAppState(AppState.IDLE);
+    setQuery('');
+  };
+
   // --- History Logic ---
 
   const loadHistoryItem = (item: HistoryItem) => {
+    searchIdRef.current++;
     stopSpeaking();
+    closeEditor();
+    closeRegenerate();
+    closeThemePanel();
+    setIsArranging(false);
+    discardRefinement();
     setQuotaExceeded(false);
     setQuery(item.query);
+    setCanvasSize(getStoryboardCanvas(item));
+    setTheme(getStoryboardTheme(item));
     setSteps(item.steps);
     setCurrentStepIndex(0);
     setAppState(AppState.SUCCESS);
@@ -384,50 +597,381 @@ const App: React.FC = () => {
 
   const deleteHistory = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
-    deleteHistoryItem(id);
-    setHistory(getHistory());
+    deleteHistoryItem(id).then(setHistory).finally(refreshStorageUsage);
+  };
+
+  // --- Theme Logic ---
+
+  const openThemePanel = () => {
+    if (isExporting || isStreaming) return;
+    closeEditor();
+    closeRegenerate();
+    setIsArranging(false);
+    setIsTheming(true);
+  };
+
+  const closeThemePanel = () => {
+    setIsTheming(false);
+    setThemeDraft(null);
+  };
+
+  // Re-renders the storyboard without touching its steps; the theme also becomes the default for new ones
+  const applyTheme = (applied: Theme) => {
+    setTheme(applied);
+    saveDefaultTheme(applied);
+    persistHistory(query, steps, canvasSize, applied);
+    closeThemePanel();
   };
 
   // --- Regenerate Logic ---
 
-  const reGenerateSketch = async () => {
+  const openRegenerate = () => {
     const currentStepData = steps[currentStepIndex];
-    if (!currentStepData || isRegenerating || isExporting) return;
-    
+    if (!currentStepData || isRegenerating || isExporting || isStreaming) return;
     stopSpeaking();
+    closeEditor();
+    setIsArranging(false);
+    setRegeneration({ index: currentStepIndex, base: currentStepData, candidates: [], error: '' });
+  };
+
+  const closeRegenerate = () => {
+    setRegeneration(null);
+    setCanvasPreview(null);
+  };
+
+  // Several independent redraws of the same prompt; the ones that fail are left out
+  const generateCandidates = async (feedback: string) => {
+    if (!regeneration || isRegenerating) return;
+    const { index, base } = regeneration;
+    const context: RegenerateContext = { previous: steps[index - 1], next: steps[index + 1], feedback: feedback || undefined };
+
     setIsRegenerating(true);
     try {
-      const newCode = await regenerateSingleStep(currentStepData.title, currentStepData.description);
-      
+      const results = await Promise.allSettled(
+        Array.from({ length: REGENERATE_CANDIDATES }, () => provider.regenerateStep(base, context))
+      );
+      const candidates: SketchStep[] = [];
+      results.forEach(result => {
+        if (result.status === 'rejected') console.error("Regeneration failed", result.reason);
+        else if (!candidates.some(c => getDrawingSource(c) === getDrawingSource(result.value))) candidates.push(result.value);
+      });
+
+      // Ignore the answer if the panel was closed or reopened on another step meanwhile
+      setRegeneration(current => current?.base === base
+        ? { ...current, candidates, error: candidates.length > 0 ? '' : "Couldn't redraw this step. Please try again." }
+        : current);
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  const chooseCandidate = (candidate: SketchStep) => {
+    if (!regeneration) return;
+    const newSteps = [...steps];
+    newSteps[regeneration.index] = candidate;
+    setSteps(newSteps);
+    persistHistory(query, newSteps);
+    closeRegenerate();
+  };
+
+  // Keeps the drawing but picks a new hand-drawn look (a new rough.js seed), no model call needed
+  const rerollSketch = () => {
+    const currentStepData = steps[currentStepIndex];
+    if (!currentStepData || isExporting) return;
+
+    const newSteps = [...steps];
+    newSteps[currentStepIndex] = { ...currentStepData, seed: createSeed() };
+    setSteps(newSteps);
+
+    persistHistory(query, newSteps);
+  };
+
+  // --- Layout Check ---
+
+  const handleLayoutIssues = useCallback((step: SketchStep, issues: LayoutIssue[]) => {
+    setLayoutReport({ step, issues });
+  }, []);
+
+  // Only findings for the step that is really on the canvas count (not an editor draft or a preview)
+  const currentLayoutIssues = layoutReport && layoutReport.step === steps[currentStepIndex] ? layoutReport.issues : null;
+
+  // Redraws the current step with the layout findings as feedback
+  const repairLayout = async () => {
+    const index = currentStepIndex;
+    const step = steps[index];
+    if (!step || !currentLayoutIssues || currentLayoutIssues.length === 0 || isRegenerating || isExporting) return;
+
+    stopSpeaking();
+    setIsRegenerating(true);
+    try {
+      const feedback = describeLayoutIssues(currentLayoutIssues, canvasSize.width, canvasSize.height);
+      const repaired = await provider.regenerateStep(step, { previous: steps[index - 1], next: steps[index + 1], feedback });
+      layoutRepairsRef.current.set(repaired, (layoutRepairsRef.current.get(step) ?? 0) + 1);
+
       const newSteps = [...steps];
-      newSteps[currentStepIndex] = { ...currentStepData, code: newCode };
+      newSteps[index] = repaired;
       setSteps(newSteps);
-      
-      saveHistoryItem(query, newSteps);
-      setHistory(getHistory());
-      
+      persistHistory(query, newSteps);
     } catch (e) {
-      console.error("Regeneration failed", e);
+      console.error("Layout repair failed", e);
+      setBannerError("Couldn't fix the layout of this step. Please try again.");
     } finally {
       setIsRegenerating(false);
     }
   };
 
+  const toggleAutoRepairLayout = () => {
+    setAutoRepairLayout(saveAutoRepairLayout(!autoRepairLayout));
+  };
+
+  // Automatic repair waits until nothing else is changing the storyboard
+  useEffect(() => {
+    if (!autoRepairLayout || !currentLayoutIssues || currentLayoutIssues.length === 0) return;
+    if (appState === AppState.STREAMING || isExporting || isEditing || isArranging || regeneration || pendingPatch) return;
+    if ((layoutRepairsRef.current.get(steps[currentStepIndex]) ?? 0) >= MAX_AUTO_LAYOUT_REPAIRS) return;
+    repairLayout();
+  }, [layoutReport, autoRepairLayout, appState, isExporting, isEditing, isArranging, regeneration, pendingPatch]);
+
+  // --- Step Editor Logic ---
+
+  const openEditor = () => {
+    if (!steps[currentStepIndex] || isExporting || isStreaming) return;
+    stopSpeaking();
+    setEditorPreview(null);
+    setEditorRunError(null);
+    setIsArranging(false);
+    setIsEditing(true);
+  };
+
+  const closeEditor = () => {
+    setIsEditing(false);
+    setEditorPreview(null);
+    setEditorRunError(null);
+  };
+
+  const saveEditedStep = (edited: SketchStep) => {
+    const newSteps = [...steps];
+    newSteps[currentStepIndex] = edited;
+    setSteps(newSteps);
+    persistHistory(query, newSteps);
+    closeEditor();
+  };
+
+  // --- Storyboard Structure Logic ---
+
+  const applyStoryboardEdit = ({ steps: newSteps, index }: StoryboardEdit) => {
+    stopSpeaking();
+    closeEditor();
+    closeRegenerate();
+    setSteps(newSteps);
+    setCurrentStepIndex(index);
+    persistHistory(query, newSteps);
+  };
+
+  const handleMoveStep = (from: number, to: number) => {
+    applyStoryboardEdit(moveStep(steps, from, to, currentStepIndex));
+  };
+
+  const handleDeleteStep = (index: number) => {
+    if (steps.length <= 1) return;
+    applyStoryboardEdit(deleteStep(steps, index, currentStepIndex));
+  };
+
+  const handleDuplicateStep = (index: number) => {
+    applyStoryboardEdit(duplicateStep(steps, index));
+  };
+
+  // Blank steps match the format of their neighbour, so the storyboard stays in one format where it can
+  const handleInsertStep = (index: number) => {
+    const neighbour = steps[Math.max(0, index)];
+    applyStoryboardEdit(insertStep(steps, index, createBlankStep(neighbour?.kind ?? stepFormat)));
+  };
+
+  const handleSplitStep = async (index: number) => {
+    const step = steps[index];
+    if (!step || structureBusyStep !== null) return;
+
+    setStructureBusyStep(index);
+    try {
+      const parts = await provider.splitStep(step);
+      applyStoryboardEdit(replaceSteps(steps, index, 1, parts));
+    } catch (e) {
+      console.error("Split failed", e);
+      setBannerError("Couldn't split this step. Please try again.");
+    } finally {
+      setStructureBusyStep(null);
+    }
+  };
+
+  const handleMergeNextStep = async (index: number) => {
+    const first = steps[index];
+    const second = steps[index + 1];
+    if (!first || !second || structureBusyStep !== null) return;
+
+    setStructureBusyStep(index);
+    try {
+      const merged = await provider.mergeSteps(first, second);
+      applyStoryboardEdit(replaceSteps(steps, index, 2, [merged]));
+    } catch (e) {
+      console.error("Merge failed", e);
+      setBannerError("Couldn't merge these steps. Please try again.");
+    } finally {
+      setStructureBusyStep(null);
+    }
+  };
+
+  // --- Refinement Logic ---
+
+  const discardRefinement = () => {
+    setRefineTurns([]);
+    setPendingPatch(null);
+    setCanvasPreview(null);
+  };
+
+  const updateRefineTurn = (turn: number, update: Partial<RefineTurn>) => {
+    setRefineTurns(turns => turns.map((t, i) => i === turn ? { ...t, ...update } : t));
+  };
+
+  const handleRefine = async (instruction: string) => {
+    if (steps.length === 0 || isStreaming || isExporting || pendingPatch) return;
+
+    const turn = refineTurns.length;
+    const earlier = refineTurns.filter(t => t.status === 'accepted').map(t => t.instruction);
+    const base = steps;
+    setRefineTurns(turns => [...turns, { instruction, status: 'thinking' }]);
+
+    try {
+      const patch = await provider.refineStoryboard(query, base, instruction, earlier);
+      const preview = previewStoryboardPatch(base, patch);
+      closeEditor();
+      closeRegenerate();
+      setIsArranging(false);
+      setPendingPatch({ turn, summary: patch.summary, base, preview });
+      updateRefineTurn(turn, { status: 'review', summary: patch.summary });
+    } catch (e) {
+      console.error("Refinement failed", e);
+      const reason = e instanceof StoryboardPatchError ? e.message : "The AI couldn't produce a usable change.";
+      updateRefineTurn(turn, { status: 'failed', summary: reason });
+    }
+  };
+
+  const acceptPatch = () => {
+    if (!pendingPatch) return;
+    setPendingPatch(null);
+    setCanvasPreview(null);
+
+    // The patch's step numbers refer to the storyboard it was made for
+    if (pendingPatch.base !== steps) {
+      updateRefineTurn(pendingPatch.turn, { status: 'failed', summary: "The storyboard changed while this was under review. Please ask again." });
+      return;
+    }
+
+    const { preview } = pendingPatch;
+    const firstChange = preview.rows.find(row => row.kind !== 'unchanged' && row.afterIndex !== undefined)?.afterIndex;
+    applyStoryboardEdit({ steps: preview.steps, index: firstChange ?? Math.min(currentStepIndex, preview.steps.length - 1) });
+    updateRefineTurn(pendingPatch.turn, { status: 'accepted' });
+  };
+
+  const rejectPatch = () => {
+    if (!pendingPatch) return;
+    updateRefineTurn(pendingPatch.turn, { status: 'rejected' });
+    setPendingPatch(null);
+    setCanvasPreview(null);
+  };
+
+  // --- Direct Manipulation ---
+
+  const toggleArranging = () => {
+    if (!steps[currentStepIndex] || isExporting || isStreaming) return;
+    stopSpeaking();
+    setIsArranging(a => !a);
+  };
+
+  // Writes an element edited on the canvas back into the step's code or scene
+  const saveManipulatedElement = (commands: DrawCommand[], index: number, command: DrawCommand): string | null => {
+    const step = steps[currentStepIndex];
+    if (!step) return null;
+    try {
+      const newSteps = [...steps];
+      newSteps[currentStepIndex] = patchStep(step, commands, index, command);
+      setSteps(newSteps);
+      persistHistory(query, newSteps);
+      return null;
+    } catch (e) {
+      if (e instanceof StepPatchError) return e.message;
+      throw e;
+    }
+  };
+
+  // --- Settings Logic ---
+
+  const handleSaveSettings = (settings: ProviderSettings) => {
+    stopSpeaking();
+    // Decoded narration for the old voice is no longer needed, and a new backend deserves a fresh quota check
+    audioCacheRef.current.clear();
+    setQuotaExceeded(false);
+    setProviderSettings(saveProviderSettings(settings));
+    setShowSettings(false);
+  };
+
+  const handleChangeStorageLimit = async (limit: number) => {
+    try {
+      setStorageUsage(await saveStorageLimit(limit));
+      // A lower limit may have evicted old storyboards
+      setHistory(await getHistory());
+    } catch (e) {
+      console.error("Failed to apply storage limit", e);
+    }
+  };
+
+  const handleClearNarration = async () => {
+    try {
+      await clearNarration();
+    } catch (e) {
+      console.error("Failed to clear narration", e);
+    }
+    refreshStorageUsage();
+  };
+
   const isIdle = appState === AppState.IDLE;
   const isSuccess = appState === AppState.SUCCESS;
   const isLoading = appState === AppState.LOADING;
-
-  const currentStepData = steps[currentStepIndex];
+  const isStreaming = appState === AppState.STREAMING;
 
   return (
-    <div className="h-screen flex flex-col overflow-hidden bg-[#f8f9fa] text-slate-800 font-sans">
+    <div
+      className="h-screen flex flex-col overflow-hidden bg-[#f8f9fa] text-slate-800 font-sans"
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFile(false); }}
+      onDrop={handleDrop}
+    >
+      {isDraggingFile && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-blue-600/10 backdrop-blur-sm border-4 border-dashed border-blue-400 pointer-events-none">
+          <div className="flex items-center gap-3 px-6 py-4 bg-white rounded-2xl shadow-2xl text-slate-700 font-bold">
+            <Upload size={20} className="text-blue-600" />
+            Drop a {PROJECT_FILE_EXTENSION} file to open it
+          </div>
+        </div>
+      )}
+
+      <input
+        ref={projectInputRef}
+        type="file"
+        accept=".json,application/json"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          importProjectFiles(Array.from(e.target.files || []));
+          e.target.value = '';
+        }}
+      />
       
       {/* Header */}
       <header className="shrink-0 w-full bg-white/90 backdrop-blur-md border-b border-slate-200 z-20">
         <div className="max-w-screen-2xl mx-auto px-6 py-3 flex items-center justify-between gap-4">
           <div 
             className="flex items-center gap-3 cursor-pointer group shrink-0" 
-            onClick={() => { if(!isExporting) { stopSpeaking(); setAppState(AppState.IDLE); setQuery(''); } }}
+            onClick={() => { if(!isExporting) goHome(); }}
           >
             {/* Logo updated to Blue */}
             <div className="bg-blue-600 text-white p-2 rounded-xl shadow-sm group-hover:scale-105 transition-transform">
@@ -489,6 +1033,13 @@ const App: React.FC = () => {
                           {history.length === 0 ? "No search history yet" : "No matches found"}
                         </div>
                       )}
+                      <div
+                        onMouseDown={() => projectInputRef.current?.click()}
+                        className="px-4 py-3 bg-slate-50 hover:bg-blue-50 cursor-pointer flex items-center gap-3 text-sm font-bold text-slate-500 hover:text-blue-600 transition-colors"
+                      >
+                        <Upload size={14} className="shrink-0" />
+                        <span>Open project file…</span>
+                      </div>
                    </div>
                  )}
                </div>
@@ -496,7 +1047,7 @@ const App: React.FC = () => {
                {/* GLOBAL EXPORT BUTTON */}
                {isSuccess && (
                  <button
-                    onClick={handleExportVideo}
+                    onClick={() => setShowExportDialog(true)}
                     disabled={isExporting}
                     className={`shrink-0 h-10 flex items-center gap-2 px-4 rounded-full text-sm font-bold transition-all border shadow-sm ${
                       isExporting
@@ -505,16 +1056,52 @@ const App: React.FC = () => {
                     }`}
                   >
                     {isExporting ? <Loader2 size={16} className="animate-spin" /> : <Video size={16} />}
-                    <span className="hidden sm:inline">{isExporting ? exportProgress || 'Exporting...' : 'Export Video'}</span>
+                    <span className="hidden sm:inline">{isExporting ? exportProgress || 'Exporting...' : 'Export'}</span>
                   </button>
                )}
             </div>
           )}
+
+          <button
+            onClick={() => { refreshStorageUsage(); setShowSettings(true); }}
+            disabled={isExporting}
+            className="shrink-0 p-2.5 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-xl transition-colors"
+            title="Model settings"
+          >
+            <Settings size={20} />
+          </button>
         </div>
       </header>
 
+      {showSettings && (
+        <SettingsPanel
+          settings={providerSettings}
+          onSave={handleSaveSettings}
+          onClose={() => setShowSettings(false)}
+          storageUsage={storageUsage}
+          onChangeStorageLimit={handleChangeStorageLimit}
+          onClearNarration={handleClearNarration}
+        />
+      )}
+
+      {showExportDialog && (
+        <ExportDialog
+          canvas={canvasSize}
+          onExportVideo={handleExportVideo}
+          onExportSvg={handleExportSvg}
+          onExportProject={handleExportProject}
+          onClose={() => setShowExportDialog(false)}
+        />
+      )}
+
       {/* Main Content */}
       <main className="flex-1 relative w-full h-full overflow-hidden">
+        {bannerError && (
+          <div className="absolute top-3 left-1/2 -translate-x-1/2 z-30 flex items-center gap-3 px-4 py-2 rounded-full bg-red-50 border border-red-100 text-sm text-red-600 shadow-sm">
+            <span>{bannerError}</span>
+            <button onClick={() => setBannerError('')} className="font-bold hover:text-red-800" title="Dismiss">×</button>
+          </div>
+        )}
         
         {/* IDLE STATE */}
         {isIdle && (
@@ -557,6 +1144,42 @@ const App: React.FC = () => {
                 </form>
               </div>
 
+              <div className="mt-4 flex flex-wrap items-center justify-center gap-2">
+                {/* Output format: raw rough.js code, or a declarative scene that can be inspected without running */}
+                <div className="inline-flex items-center gap-1 p-1 bg-white rounded-full border border-slate-200 shadow-sm text-xs font-bold">
+                  {(['code', 'scene'] as StepFormat[]).map(format => (
+                    <button
+                      key={format}
+                      type="button"
+                      onClick={() => setStepFormat(format)}
+                      className={`px-3 py-1.5 rounded-full transition-colors ${
+                        stepFormat === format ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-800'
+                      }`}
+                      title={format === 'code' ? 'Draw steps with generated JavaScript' : 'Draw steps from a JSON scene description'}
+                    >
+                      {format === 'code' ? 'Code' : 'Scene'}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Canvas preset the next storyboard is generated for */}
+                <div className="inline-flex items-center gap-1 p-1 bg-white rounded-full border border-slate-200 shadow-sm text-xs font-bold">
+                  {ASPECT_PRESETS.map(preset => (
+                    <button
+                      key={preset.id}
+                      type="button"
+                      onClick={() => setAspectPreset(saveAspectPreset(preset.id))}
+                      className={`px-3 py-1.5 rounded-full transition-colors ${
+                        aspectPreset === preset.id ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-800'
+                      }`}
+                      title={preset.description}
+                    >
+                      {preset.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               {history.length > 0 && (
                 <div className="w-full max-w-4xl mt-16 animate-in fade-in slide-in-from-bottom-8 duration-700 delay-100">
                   <div className="flex items-center gap-2 mb-6 text-slate-400 font-bold tracking-wider text-sm uppercase">
@@ -630,100 +1253,262 @@ const App: React.FC = () => {
         )}
 
         {/* SUCCESS STATE */}
-        {isSuccess && currentStepData && (
+        {isViewingSteps && currentStepData && (
           <div className="w-full h-full flex flex-col lg:flex-row animate-in fade-in slide-in-from-bottom-4 duration-700">
             
             {/* LEFT PANEL: Canvas */}
             <div className="flex-1 bg-slate-50 p-4 lg:p-8 flex items-center justify-center relative overflow-hidden">
-              <div className="w-full h-full max-w-[1200px] flex items-center justify-center">
+              <div className="w-full h-full max-w-[1200px] flex flex-col items-center justify-center gap-4">
                  <SketchCanvas 
                     ref={canvasRef}
-                    code={currentStepData.code} 
-                    width={800} 
-                    height={600} 
-                    className="max-h-full w-auto aspect-[4/3] shadow-2xl border-4 border-white ring-1 ring-slate-200"
+                    step={isEditing && editorPreview ? editorPreview : canvasPreview ?? currentStepData} 
+                    previousSteps={previousSteps}
+                    preview={isEditing || isArranging || isTheming || canvasPreview !== null}
+                    onRunComplete={isEditing ? setEditorRunError : undefined}
+                    manipulate={isArranging}
+                    onManipulate={saveManipulatedElement}
+                    showLayoutIssues={showLayoutIssues}
+                    onLayoutIssues={handleLayoutIssues}
+                    width={canvasSize.width}
+                    height={canvasSize.height}
+                    theme={themeDraft ?? theme}
+                    className={`${showOutline ? 'max-h-[calc(100%-14rem)]' : 'max-h-[calc(100%-4rem)]'} w-auto shadow-2xl border-4 border-white ring-1 ring-slate-200`}
+                    style={{ aspectRatio: `${canvasSize.width} / ${canvasSize.height}` }}
                   />
+                 {isArranging ? (
+                   <div className="w-full max-w-[800px] flex items-center justify-between gap-3 bg-white px-4 py-2 rounded-2xl border border-blue-200 shadow-sm text-sm text-slate-500">
+                     <span>Click an element to select it. Drag to move, drag a corner to resize, arrow keys to nudge.</span>
+                     <button onClick={toggleArranging} className="shrink-0 px-3 py-1 rounded-lg font-bold text-blue-600 hover:bg-blue-50 transition-colors">
+                       Done
+                     </button>
+                   </div>
+                 ) : (
+                   <TimelineScrubber canvasRef={canvasRef} disabled={isExporting} />
+                 )}
+                 {showOutline && (
+                   <Filmstrip
+                     steps={steps}
+                     canvas={canvasSize}
+                     theme={theme}
+                     currentStep={currentStepIndex}
+                     disabled={isStreaming || isExporting || isRegenerating}
+                     busyStep={structureBusyStep}
+                     repairs={stepRepairs}
+                     onSelect={(index) => {
+                       if (isExporting) return;
+                       stopSpeaking();
+                       closeEditor();
+                       closeRegenerate();
+                       setCurrentStepIndex(index);
+                     }}
+                     onMove={handleMoveStep}
+                     onDelete={handleDeleteStep}
+                     onDuplicate={handleDuplicateStep}
+                     onInsert={handleInsertStep}
+                     onSplit={handleSplitStep}
+                     onMergeNext={handleMergeNextStep}
+                   />
+                 )}
               </div>
             </div>
 
             {/* RIGHT PANEL: Sidebar */}
-            <div className="shrink-0 w-full lg:w-[400px] xl:w-[450px] bg-white border-l border-slate-200 flex flex-col z-10 shadow-xl shadow-slate-200/50">
+            <div className={`shrink-0 w-full ${isEditing ? 'lg:w-[520px] xl:w-[600px]' : 'lg:w-[400px] xl:w-[450px]'} bg-white border-l border-slate-200 flex flex-col z-10 shadow-xl shadow-slate-200/50`}>
               
               {/* Content Area */}
-              <div className="flex-1 overflow-y-auto p-6 lg:p-8">
-                
-                <div className="inline-block px-3 py-1 bg-blue-50 rounded-full text-xs font-bold text-blue-600 tracking-wider mb-6 border border-blue-100">
-                  STEP {currentStepIndex + 1} OF {steps.length}
+              {pendingPatch ? (
+                <div className="flex-1 overflow-y-auto p-6 lg:p-8">
+                  <PatchReview
+                    instruction={refineTurns[pendingPatch.turn]?.instruction ?? ''}
+                    summary={pendingPatch.summary}
+                    preview={pendingPatch.preview}
+                    canvas={canvasSize}
+                    theme={theme}
+                    onPreviewStep={setCanvasPreview}
+                    onAccept={acceptPatch}
+                    onReject={rejectPatch}
+                  />
                 </div>
-
-                <div className="flex items-start gap-4 mb-6">
-                  <h2 className="hand-font text-3xl lg:text-4xl font-bold text-slate-800 leading-[1.1]">
-                    {currentStepData.title}
-                  </h2>
+              ) : regeneration ? (
+                <div className="flex-1 overflow-y-auto p-6 lg:p-8">
+                  <RegeneratePanel
+                    step={regeneration.base}
+                    previousSteps={previousSteps}
+                    canvas={canvasSize}
+                    theme={theme}
+                    candidates={regeneration.candidates}
+                    pending={isRegenerating ? REGENERATE_CANDIDATES : 0}
+                    error={regeneration.error}
+                    onGenerate={generateCandidates}
+                    onPreviewStep={setCanvasPreview}
+                    onChoose={chooseCandidate}
+                    onCancel={closeRegenerate}
+                  />
                 </div>
-
-                <div className="prose prose-slate prose-lg leading-relaxed text-slate-600">
-                  <p>{currentStepData.description}</p>
+              ) : isEditing ? (
+                <div className="flex-1 overflow-y-auto p-6 lg:p-8">
+                  <StepEditor
+                    step={currentStepData}
+                    runError={editorRunError}
+                    onPreview={setEditorPreview}
+                    onSave={saveEditedStep}
+                    onCancel={closeEditor}
+                  />
                 </div>
+              ) : isTheming ? (
+                <div className="flex-1 overflow-y-auto p-6 lg:p-8">
+                  <ThemePanel
+                    theme={theme}
+                    onPreview={setThemeDraft}
+                    onApply={applyTheme}
+                    onCancel={closeThemePanel}
+                  />
+                </div>
+              ) : (
+                <div className="flex-1 overflow-y-auto p-6 lg:p-8">
+                
+                  <div className="flex flex-wrap items-center gap-2 mb-6">
+                    <div className="inline-block px-3 py-1 bg-blue-50 rounded-full text-xs font-bold text-blue-600 tracking-wider border border-blue-100">
+                      STEP {currentStepIndex + 1} OF {steps.length}{isStreaming ? '+' : ''}
+                    </div>
+                    {stepRepairs.has(currentStepData) && <RepairBadge repair={stepRepairs.get(currentStepData)!} />}
+                  </div>
 
-                <div className="flex flex-wrap gap-3 mt-8">
-                  {/* Audio Button */}
-                  <button
-                    onClick={toggleSpeech}
-                    disabled={isExporting || quotaExceeded}
-                    className={`flex items-center gap-2 px-4 py-2.5 rounded-full text-sm font-bold transition-all ${
-                      isSpeaking 
-                      ? 'bg-red-50 text-red-600 ring-1 ring-red-200' 
-                      : quotaExceeded
-                        ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
-                        : 'bg-slate-100 text-slate-600 hover:bg-slate-200 hover:text-slate-800'
-                    }`}
-                    title={quotaExceeded ? "Audio disabled due to API limits" : "Read description"}
-                  >
-                    {isSpeaking ? <StopCircle size={18} /> : quotaExceeded ? <VolumeX size={18} /> : isLoadingAudio ? <Loader2 size={18} className="animate-spin" /> : <Volume2 size={18} />}
-                    {isSpeaking ? 'Reading...' : quotaExceeded ? 'Audio Limit' : isLoadingAudio ? 'Loading Audio...' : 'Replay Audio'}
-                  </button>
+                  <div className="flex items-start gap-4 mb-6">
+                    <h2 className="hand-font text-3xl lg:text-4xl font-bold text-slate-800 leading-[1.1]">
+                      {currentStepData.title}
+                    </h2>
+                  </div>
 
-                  {/* Regenerate Button */}
-                  <button
-                    onClick={reGenerateSketch}
-                    disabled={isRegenerating || isExporting}
-                    className={`flex items-center gap-2 px-4 py-2.5 rounded-full text-sm font-bold transition-all bg-slate-50 text-slate-500 hover:bg-blue-50 hover:text-blue-600 border border-slate-200 hover:border-blue-200 ${
-                        isRegenerating ? 'opacity-80 cursor-wait' : ''
-                    }`}
-                    title="Regenerate this specific sketch if it looks wrong"
-                  >
-                    <RefreshCw size={18} className={isRegenerating ? "animate-spin" : ""} />
-                    {isRegenerating ? 'Redrawing...' : 'Regenerate Sketch'}
-                  </button>
+                  <div className="prose prose-slate prose-lg leading-relaxed text-slate-600">
+                    <p>{currentStepData.description}</p>
+                  </div>
+
+                  <div className="flex flex-wrap gap-3 mt-8">
+                    {/* Audio Button */}
+                    <button
+                      onClick={toggleSpeech}
+                      disabled={isExporting || quotaExceeded}
+                      className={`flex items-center gap-2 px-4 py-2.5 rounded-full text-sm font-bold transition-all ${
+                        isSpeaking 
+                        ? 'bg-red-50 text-red-600 ring-1 ring-red-200' 
+                        : quotaExceeded
+                          ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
+                          : 'bg-slate-100 text-slate-600 hover:bg-slate-200 hover:text-slate-800'
+                      }`}
+                      title={quotaExceeded ? "Audio disabled due to API limits" : "Read description"}
+                    >
+                      {isSpeaking ? <StopCircle size={18} /> : quotaExceeded ? <VolumeX size={18} /> : isLoadingAudio ? <Loader2 size={18} className="animate-spin" /> : <Volume2 size={18} />}
+                      {isSpeaking ? 'Reading...' : quotaExceeded ? 'Audio Limit' : isLoadingAudio ? 'Loading Audio...' : 'Replay Audio'}
+                    </button>
+
+                    {/* Regenerate Button */}
+                    <button
+                      onClick={openRegenerate}
+                      disabled={isRegenerating || isExporting || isStreaming}
+                      className="flex items-center gap-2 px-4 py-2.5 rounded-full text-sm font-bold transition-all bg-slate-50 text-slate-500 hover:bg-blue-50 hover:text-blue-600 border border-slate-200 hover:border-blue-200"
+                      title="Redraw this sketch if it looks wrong, and pick from several options"
+                    >
+                      <RefreshCw size={18} />
+                      Regenerate Sketch
+                    </button>
+
+                    {/* Reroll Button */}
+                    <button
+                      onClick={rerollSketch}
+                      disabled={isRegenerating || isExporting || isStreaming}
+                      className="flex items-center gap-2 px-4 py-2.5 rounded-full text-sm font-bold transition-all bg-slate-50 text-slate-500 hover:bg-blue-50 hover:text-blue-600 border border-slate-200 hover:border-blue-200"
+                      title="Keep the drawing, but give it a different hand-drawn look"
+                    >
+                      <Dices size={18} />
+                      Reroll Look
+                    </button>
+
+                    {/* Edit Button */}
+                    <button
+                      onClick={openEditor}
+                      disabled={isRegenerating || isExporting || isStreaming}
+                      className="flex items-center gap-2 px-4 py-2.5 rounded-full text-sm font-bold transition-all bg-slate-50 text-slate-500 hover:bg-blue-50 hover:text-blue-600 border border-slate-200 hover:border-blue-200"
+                      title="Edit the title, narration and drawing code by hand"
+                    >
+                      <PenLine size={18} />
+                      Edit Step
+                    </button>
+
+                    {/* Arrange Button */}
+                    <button
+                      onClick={toggleArranging}
+                      disabled={isRegenerating || isExporting || isStreaming}
+                      className={`flex items-center gap-2 px-4 py-2.5 rounded-full text-sm font-bold transition-all border ${
+                        isArranging
+                        ? 'bg-blue-50 text-blue-600 border-blue-200'
+                        : 'bg-slate-50 text-slate-500 hover:bg-blue-50 hover:text-blue-600 border-slate-200 hover:border-blue-200'
+                      }`}
+                      title="Move, resize, recolour or retype elements directly on the canvas"
+                    >
+                      <Move size={18} />
+                      {isArranging ? 'Done Arranging' : 'Arrange'}
+                    </button>
+
+                    {/* Theme Button */}
+                    <button
+                      onClick={openThemePanel}
+                      disabled={isExporting || isStreaming}
+                      className="flex items-center gap-2 px-4 py-2.5 rounded-full text-sm font-bold transition-all bg-slate-50 text-slate-500 hover:bg-blue-50 hover:text-blue-600 border border-slate-200 hover:border-blue-200"
+                      title="Change the colors, font and roughness of the whole storyboard"
+                    >
+                      <Palette size={18} />
+                      Theme
+                    </button>
+                  </div>
+
+                  <LayoutCheck
+                    issues={currentLayoutIssues}
+                    showOnCanvas={showLayoutIssues}
+                    onToggleShowOnCanvas={() => setShowLayoutIssues(s => !s)}
+                    autoRepair={autoRepairLayout}
+                    onToggleAutoRepair={toggleAutoRepairLayout}
+                    isRepairing={isRegenerating}
+                    disabled={isExporting || isStreaming}
+                    onRepair={repairLayout}
+                  />
+
+                  <RefinePanel
+                    turns={refineTurns}
+                    disabled={isStreaming || isExporting}
+                    onSend={handleRefine}
+                  />
                 </div>
-              </div>
+              )}
 
-              {/* Footer Controls */}
-              <div className="p-6 border-t border-slate-100 bg-slate-50/50">
-                <StepControls 
-                  currentStep={currentStepIndex}
-                  totalSteps={steps.length}
-                  onNext={() => {
-                    if (!isExporting) {
-                      stopSpeaking();
-                      setCurrentStepIndex(p => Math.min(steps.length - 1, p + 1));
-                    }
-                  }}
-                  onPrev={() => {
-                    if (!isExporting) {
-                      stopSpeaking();
-                      setCurrentStepIndex(p => Math.max(0, p - 1));
-                    }
-                  }}
-                  onReset={() => {
-                    if (isExporting) return;
-                    stopSpeaking();
-                    setAppState(AppState.IDLE);
-                    setQuery('');
-                  }}
-                />
-              </div>
+              {/* Footer Controls (the editor, the patch review and the regenerate panel have their own buttons) */}
+              {!isEditing && !pendingPatch && !regeneration && (
+                <div className="p-6 border-t border-slate-100 bg-slate-50/50">
+                  <StepControls 
+                    currentStep={currentStepIndex}
+                    totalSteps={steps.length}
+                    isStreaming={isStreaming}
+                    onNext={() => {
+                      if (!isExporting) {
+                        stopSpeaking();
+                        setCurrentStepIndex(p => Math.min(steps.length - 1, p + 1));
+                      }
+                    }}
+                    onPrev={() => {
+                      if (!isExporting) {
+                        stopSpeaking();
+                        setCurrentStepIndex(p => Math.max(0, p - 1));
+                      }
+                    }}
+                    onReset={() => {
+                      if (isExporting) return;
+                      goHome();
+                    }}
+                    isOutlineOpen={showOutline}
+                    onToggleOutline={() => setShowOutline(o => !o)}
+                  />
+                </div>
+              )}
             </div>
 
           </div>
@@ -0,0 +1,187 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { CompletionContext, getCompletions, TokenKind, tokenizeLines } from '../utils/codeEditing';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // 1-based line to mark as failing
+  errorLine?: number;
+  // Offer rc / helper completions (off for scene JSON)
+  completions?: boolean;
+  className?: string;
+}
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  comment: 'text-slate-400 italic',
+  string: 'text-emerald-600',
+  number: 'text-amber-600',
+  keyword: 'text-purple-600',
+  api: 'text-blue-600 font-semibold',
+  plain: 'text-slate-800'
+};
+
+const LINE_HEIGHT_PX = 20;
+const PADDING_PX = 12;
+const INDENT = '  ';
+
+// A transparent textarea over a highlighted <pre>. Both use the same font, padding and no wrapping,
+// so every character in the textarea sits exactly on top of its coloured twin.
+const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, errorLine, completions = false, className = '' }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const charWidthRef = useRef(7.8);
+
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [suggestions, setSuggestions] = useState<CompletionContext | null>(null);
+  const [selected, setSelected] = useState(0);
+  // Cursor to restore after React re-renders the textarea with an accepted completion
+  const pendingCursorRef = useRef<number | null>(null);
+
+  const lines = useMemo(() => tokenizeLines(value), [value]);
+
+  useLayoutEffect(() => {
+    const probe = document.createElement('span');
+    probe.textContent = 'M'.repeat(100);
+    probe.className = 'font-mono text-[13px]';
+    probe.style.position = 'absolute';
+    probe.style.visibility = 'hidden';
+    document.body.appendChild(probe);
+    charWidthRef.current = probe.getBoundingClientRect().width / 100 || charWidthRef.current;
+    probe.remove();
+  }, []);
+
+  useLayoutEffect(() => {
+    if (pendingCursorRef.current !== null && textareaRef.current) {
+      textareaRef.current.selectionStart = textareaRef.current.selectionEnd = pendingCursorRef.current;
+      pendingCursorRef.current = null;
+    }
+  }, [value]);
+
+  const syncScroll = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = textarea.scrollTop;
+      highlightRef.current.scrollLeft = textarea.scrollLeft;
+    }
+    if (gutterRef.current) gutterRef.current.scrollTop = textarea.scrollTop;
+    setScroll({ top: textarea.scrollTop, left: textarea.scrollLeft });
+  };
+
+  const updateSuggestions = (code: string, cursor: number) => {
+    if (!completions) return;
+    setSuggestions(getCompletions(code, cursor));
+    setSelected(0);
+  };
+
+  const replaceRange = (from: number, to: number, text: string) => {
+    pendingCursorRef.current = from + text.length;
+    onChange(value.slice(0, from) + text + value.slice(to));
+  };
+
+  const accept = (index: number) => {
+    const textarea = textareaRef.current;
+    if (!suggestions || !textarea) return;
+    const { label } = suggestions.items[index];
+    const isFunction = label !== 'rc' && label !== 'width' && label !== 'height';
+    replaceRange(suggestions.from, textarea.selectionStart, isFunction ? `${label}(` : label);
+    setSuggestions(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget;
+
+    if (suggestions) {
+      const count = suggestions.items.length;
+      if (e.key === 'ArrowDown') { e.preventDefault(); setSelected(i => (i + 1) % count); return; }
+      if (e.key === 'ArrowUp') { e.preventDefault(); setSelected(i => (i - 1 + count) % count); return; }
+      if (e.key === 'Enter' || e.key === 'Tab') { e.preventDefault(); accept(selected); return; }
+      if (e.key === 'Escape') { e.preventDefault(); setSuggestions(null); return; }
+    }
+
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      replaceRange(textarea.selectionStart, textarea.selectionEnd, INDENT);
+    }
+  };
+
+  // Popup anchored under the word being completed
+  const cursorLine = suggestions ? value.slice(0, suggestions.from).split('\n') : [];
+  const popupTop = PADDING_PX + cursorLine.length * LINE_HEIGHT_PX - scroll.top;
+  const popupLeft = PADDING_PX + (cursorLine[cursorLine.length - 1]?.length ?? 0) * charWidthRef.current - scroll.left;
+
+  const textClasses = 'font-mono text-[13px] leading-5 whitespace-pre';
+
+  return (
+    <div className={`relative flex rounded-xl border border-slate-200 bg-slate-50 overflow-hidden focus-within:border-blue-300 focus-within:bg-white transition-colors ${className}`}>
+      <div ref={gutterRef} className="shrink-0 overflow-hidden select-none bg-slate-100/70 border-r border-slate-200 text-right" style={{ paddingTop: PADDING_PX, paddingBottom: PADDING_PX }}>
+        {lines.map((_, i) => (
+          <div
+            key={i}
+            className={`${textClasses} px-2 text-[11px] ${i + 1 === errorLine ? 'bg-red-100 text-red-600 font-bold' : 'text-slate-400'}`}
+          >
+            {i + 1}
+          </div>
+        ))}
+      </div>
+
+      <div className="relative flex-1 min-w-0">
+        <pre
+          ref={highlightRef}
+          aria-hidden
+          className={`${textClasses} absolute inset-0 m-0 overflow-hidden pointer-events-none`}
+          style={{ padding: PADDING_PX }}
+        >
+          {lines.map((tokens, i) => (
+            <div key={i} className={i + 1 === errorLine ? 'bg-red-50 -mx-3 px-3' : undefined}>
+              {tokens.map((token, j) => (
+                <span key={j} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+              ))}
+              {tokens.length === 0 && ' '}
+            </div>
+          ))}
+        </pre>
+
+        <textarea
+          ref={textareaRef}
+          value={value}
+          spellCheck={false}
+          autoCapitalize="off"
+          autoComplete="off"
+          autoCorrect="off"
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateSuggestions(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onScroll={syncScroll}
+          onBlur={() => setSuggestions(null)}
+          onClick={() => setSuggestions(null)}
+          className={`${textClasses} relative block w-full h-full m-0 bg-transparent text-transparent caret-slate-800 resize-none outline-none overflow-auto`}
+          style={{ padding: PADDING_PX }}
+        />
+
+        {suggestions && (
+          <ul
+            className="absolute z-20 min-w-[220px] max-w-[360px] bg-white rounded-lg border border-slate-200 shadow-xl py-1 text-[13px] font-mono"
+            style={{ top: popupTop, left: Math.max(0, popupLeft) }}
+          >
+            {suggestions.items.map((item, i) => (
+              <li
+                key={item.label}
+                onMouseDown={(e) => { e.preventDefault(); accept(i); }}
+                className={`px-3 py-1 cursor-pointer flex items-baseline gap-2 ${i === selected ? 'bg-blue-50 text-blue-700' : 'text-slate-700'}`}
+              >
+                <span className="font-semibold">{item.label}</span>
+                <span className="truncate text-[11px] text-slate-400">{item.detail}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CodeEditor;
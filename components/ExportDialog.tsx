@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { CanvasSize } from '../types';
+import { DEFAULT_VIDEO_EXPORT_OPTIONS, getDefaultVideoResolution, isLetterboxed, VIDEO_FRAME_RATES, VIDEO_RESOLUTIONS, VideoExportOptions, VideoFormat } from '../services/videoExportService';
+import { SvgExportMode } from '../services/svgExportService';
+import { PROJECT_FILE_EXTENSION } from '../services/projectService';
+import { Field, inputClass } from './FormField';
+
+interface ExportDialogProps {
+  // The storyboard's canvas; the video resolution starts out matching its shape
+  canvas: CanvasSize;
+  onExportVideo: (options: VideoExportOptions) => void;
+  onExportSvg: (mode: SvgExportMode) => void;
+  onExportProject: (includeNarration: boolean) => void;
+  onClose: () => void;
+}
+
+type ExportKind = 'video' | 'svg' | 'project';
+
+const KIND_LABELS: Record<ExportKind, string> = {
+  video: 'Video',
+  svg: 'SVG',
+  project: 'Project'
+};
+
+const FORMAT_LABELS: Record<VideoFormat, string> = {
+  webm: 'WebM (VP9 + Opus)',
+  mp4: 'MP4 (H.264 + AAC)'
+};
+
+const SVG_MODE_LABELS: Record<SvgExportMode, string> = {
+  step: 'Current step',
+  animated: 'Current step, animated',
+  zip: 'All steps (.zip)'
+};
+
+const SVG_MODE_HINTS: Record<SvgExportMode, string> = {
+  step: 'A crisp vector of the step on screen, ready for docs and slides.',
+  animated: 'Draws itself on in the same order as the canvas when opened in a browser.',
+  zip: 'One SVG per step, numbered in storyboard order.'
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ canvas, onExportVideo, onExportSvg, onExportProject, onClose }) => {
+  const [kind, setKind] = useState<ExportKind>('video');
+  const [options, setOptions] = useState<VideoExportOptions>(() => {
+    const { width, height } = getDefaultVideoResolution(canvas);
+    return { ...DEFAULT_VIDEO_EXPORT_OPTIONS, width, height };
+  });
+  const [svgMode, setSvgMode] = useState<SvgExportMode>('step');
+  const [includeNarration, setIncludeNarration] = useState(true);
+
+  const update = (patch: Partial<VideoExportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+  const resolutionIndex = VIDEO_RESOLUTIONS.findIndex(r => r.width === options.width && r.height === options.height);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/30 backdrop-blur-sm p-4" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-md bg-white rounded-3xl shadow-2xl p-6 animate-in fade-in zoom-in duration-200"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="hand-font text-3xl font-bold text-slate-800">Export</h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-xl transition-colors" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="mb-6 inline-flex items-center gap-1 p-1 bg-slate-50 rounded-full border border-slate-200 text-xs font-bold">
+          {(Object.keys(KIND_LABELS) as ExportKind[]).map(k => (
+            <button
+              key={k}
+              type="button"
+              onClick={() => setKind(k)}
+              className={`px-3 py-1.5 rounded-full transition-colors ${
+                kind === k ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-800'
+              }`}
+            >
+              {KIND_LABELS[k]}
+            </button>
+          ))}
+        </div>
+
+        {kind === 'video' ? (
+          <div className="space-y-4">
+            <Field label="Format">
+              <select value={options.format} onChange={(e) => update({ format: e.target.value as VideoFormat })} className={inputClass}>
+                {(Object.keys(FORMAT_LABELS) as VideoFormat[]).map(id => (
+                  <option key={id} value={id}>{FORMAT_LABELS[id]}</option>
+                ))}
+              </select>
+            </Field>
+
+            <div className="grid grid-cols-2 gap-3">
+              <Field label="Resolution">
+                <select
+                  value={resolutionIndex}
+                  onChange={(e) => {
+                    const { width, height } = VIDEO_RESOLUTIONS[Number(e.target.value)];
+                    update({ width, height });
+                  }}
+                  className={inputClass}
+                >
+                  {VIDEO_RESOLUTIONS.map((r, i) => (
+                    <option key={r.label} value={i}>{r.label}</option>
+                  ))}
+                </select>
+              </Field>
+              <Field label="Frame Rate">
+                <select value={options.fps} onChange={(e) => update({ fps: Number(e.target.value) })} className={inputClass}>
+                  {VIDEO_FRAME_RATES.map(fps => (
+                    <option key={fps} value={fps}>{fps} fps</option>
+                  ))}
+                </select>
+              </Field>
+            </div>
+
+            {isLetterboxed(canvas, options) && (
+              <p className="text-sm text-amber-600">
+                This storyboard was drawn at {canvas.width} × {canvas.height}, so the video shows it centered with white bars.
+              </p>
+            )}
+
+            <p className="text-sm text-slate-500">
+              Frames are rendered offline, so the export runs faster than real time and every stroke lands exactly on its frame.
+            </p>
+          </div>
+        ) : kind === 'svg' ? (
+          <div className="space-y-4">
+            <Field label="Export" hint={SVG_MODE_HINTS[svgMode]}>
+              <select value={svgMode} onChange={(e) => setSvgMode(e.target.value as SvgExportMode)} className={inputClass}>
+                {(Object.keys(SVG_MODE_LABELS) as SvgExportMode[]).map(mode => (
+                  <option key={mode} value={mode}>{SVG_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            </Field>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-500">
+              Saves the storyboard as a {PROJECT_FILE_EXTENSION} file with its steps and seeds, so it looks the same wherever it is opened.
+              Open it from the history list or drop it onto the app.
+            </p>
+            <label className="flex items-center gap-3 text-sm font-medium text-slate-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeNarration}
+                onChange={(e) => setIncludeNarration(e.target.checked)}
+                className="w-4 h-4 accent-blue-600"
+              />
+              Include narration audio already generated
+            </label>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 mt-8">
+          <button onClick={onClose} className="px-5 py-2.5 rounded-full text-sm font-bold text-slate-500 hover:bg-slate-100 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => {
+              if (kind === 'video') onExportVideo(options);
+              else if (kind === 'svg') onExportSvg(svgMode);
+              else onExportProject(includeNarration);
+            }}
+            className="px-5 py-2.5 rounded-full text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 active:scale-95 transition-all"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { Copy, Loader2, Merge, Plus, Scissors, Trash2 } from 'lucide-react';
+import { CanvasSize, SketchStep, Theme } from '../types';
+import { StepRepair } from '../utils/stepValidation';
+import StepThumbnail from './StepThumbnail';
+import RepairBadge from './RepairBadge';
+
+interface FilmstripProps {
+  steps: SketchStep[];
+  canvas: CanvasSize;
+  theme: Theme;
+  currentStep: number;
+  // Structure edits are locked while generating or exporting
+  disabled?: boolean;
+  // Step an AI split/merge is working on
+  busyStep?: number | null;
+  // Generated steps that failed their dry run
+  repairs?: Map<SketchStep, StepRepair>;
+  onSelect: (index: number) => void;
+  onMove: (from: number, to: number) => void;
+  onDelete: (index: number) => void;
+  onDuplicate: (index: number) => void;
+  // Inserts a blank step after `index` (-1 for the very start)
+  onInsert: (index: number) => void;
+  onSplit: (index: number) => void;
+  onMergeNext: (index: number) => void;
+}
+
+const InsertButton: React.FC<{ onClick: () => void; disabled: boolean }> = ({ onClick, disabled }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    className="shrink-0 self-center w-6 h-6 flex items-center justify-center rounded-full text-slate-300 hover:text-blue-600 hover:bg-blue-50 transition-colors disabled:opacity-0"
+    title="Insert a blank step here"
+  >
+    <Plus size={14} />
+  </button>
+);
+
+const actionClass = 'p-1 rounded-md text-slate-400 hover:text-blue-600 hover:bg-blue-50 transition-colors disabled:opacity-30 disabled:pointer-events-none';
+
+// Outline of the whole storyboard: drag a card to reorder, or use its actions to restructure the steps
+const Filmstrip: React.FC<FilmstripProps> = ({
+  steps,
+  canvas,
+  theme,
+  currentStep,
+  disabled = false,
+  busyStep = null,
+  repairs,
+  onSelect,
+  onMove,
+  onDelete,
+  onDuplicate,
+  onInsert,
+  onSplit,
+  onMergeNext
+}) => {
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+
+  const locked = disabled || busyStep !== null;
+  // Each card gets the steps before it; the thumbnails compare what those draw, not the arrays
+  const previousSteps = useMemo(() => steps.map((_, i) => steps.slice(0, i)), [steps]);
+
+  const endDrag = () => {
+    setDragFrom(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div className="w-full max-w-[800px] flex items-stretch gap-1 overflow-x-auto bg-white p-2 rounded-2xl border border-slate-200 shadow-sm">
+      <InsertButton onClick={() => onInsert(-1)} disabled={locked} />
+
+      {steps.map((step, i) => (
+        <React.Fragment key={i}>
+          <div
+            draggable={!locked}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDragFrom(i);
+            }}
+            onDragOver={(e) => {
+              if (dragFrom === null) return;
+              e.preventDefault();
+              setDropTarget(i);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              if (dragFrom !== null && dragFrom !== i) onMove(dragFrom, i);
+              endDrag();
+            }}
+            onDragEnd={endDrag}
+            className={`group shrink-0 w-36 flex flex-col rounded-xl border-2 transition-colors ${
+              i === currentStep ? 'border-blue-500' : dropTarget === i && dragFrom !== i ? 'border-blue-300 border-dashed' : 'border-transparent hover:border-slate-200'
+            } ${dragFrom === i ? 'opacity-40' : ''}`}
+          >
+            <button
+              onClick={() => onSelect(i)}
+              className="relative aspect-[4/3] rounded-lg overflow-hidden bg-slate-50 ring-1 ring-slate-100"
+              title={step.title}
+            >
+              <StepThumbnail step={step} canvas={canvas} theme={theme} previousSteps={previousSteps[i]} />
+              <span className="absolute top-1 left-1 px-1.5 rounded bg-white/90 font-mono text-[10px] font-bold text-slate-500">{i + 1}</span>
+              {repairs?.has(step) && (
+                <span className="absolute top-1 right-1">
+                  <RepairBadge repair={repairs.get(step)!} compact />
+                </span>
+              )}
+              {busyStep === i && (
+                <span className="absolute inset-0 flex items-center justify-center bg-white/70">
+                  <Loader2 size={18} className="animate-spin text-blue-600" />
+                </span>
+              )}
+            </button>
+            <div className="px-1 pt-1 text-xs font-bold text-slate-600 truncate" title={step.title}>{step.title}</div>
+            <div className="flex items-center justify-between px-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              <button onClick={() => onDuplicate(i)} disabled={locked} className={actionClass} title="Duplicate">
+                <Copy size={13} />
+              </button>
+              <button onClick={() => onSplit(i)} disabled={locked} className={actionClass} title="Split this step in two (AI)">
+                <Scissors size={13} />
+              </button>
+              <button onClick={() => onMergeNext(i)} disabled={locked || i === steps.length - 1} className={actionClass} title="Merge with the next step (AI)">
+                <Merge size={13} />
+              </button>
+              <button onClick={() => onDelete(i)} disabled={locked || steps.length === 1} className={actionClass} title="Delete">
+                <Trash2 size={13} />
+              </button>
+            </div>
+          </div>
+          <InsertButton onClick={() => onInsert(i)} disabled={locked} />
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default Filmstrip;
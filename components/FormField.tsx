@@ -0,0 +1,11 @@
+import React from 'react';
+
+export const inputClass = "w-full h-10 px-3 rounded-xl border border-slate-200 bg-slate-50 focus:bg-white focus:border-blue-300 outline-none text-sm text-slate-700 transition-colors";
+
+export const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <label className="block">
+    <span className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">{label}</span>
+    {children}
+    {hint && <span className="block text-xs text-slate-400 mt-1">{hint}</span>}
+  </label>
+);
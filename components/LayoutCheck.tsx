@@ -0,0 +1,79 @@
+import React from 'react';
+import { CircleCheck, Eye, EyeOff, Loader2, TriangleAlert, WandSparkles } from 'lucide-react';
+import { LayoutIssue } from '../utils/layoutLint';
+
+interface LayoutCheckProps {
+  // Findings for the step on the canvas; null until it has been drawn
+  issues: LayoutIssue[] | null;
+  showOnCanvas: boolean;
+  onToggleShowOnCanvas: () => void;
+  autoRepair: boolean;
+  onToggleAutoRepair: () => void;
+  isRepairing: boolean;
+  disabled?: boolean;
+  onRepair: () => void;
+}
+
+// Layout lint results for the current step, with a way to send them back to the model
+const LayoutCheck: React.FC<LayoutCheckProps> = ({
+  issues,
+  showOnCanvas,
+  onToggleShowOnCanvas,
+  autoRepair,
+  onToggleAutoRepair,
+  isRepairing,
+  disabled = false,
+  onRepair
+}) => {
+  const count = issues?.length ?? 0;
+
+  return (
+    <div className="mt-8 pt-6 border-t border-slate-100">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className={`flex items-center gap-2 text-xs font-bold uppercase tracking-wider ${count > 0 ? 'text-red-600' : 'text-slate-500'}`}>
+          {count > 0 ? <TriangleAlert size={14} /> : <CircleCheck size={14} />}
+          {issues === null ? 'Layout Check' : count > 0 ? `${count} Layout Issue${count === 1 ? '' : 's'}` : 'Layout Looks Clean'}
+        </div>
+        {count > 0 && (
+          <button
+            onClick={onToggleShowOnCanvas}
+            className="flex items-center gap-1 text-xs font-bold text-slate-500 hover:text-blue-600"
+            title={showOnCanvas ? "Hide the markers on the canvas" : "Mark the issues on the canvas"}
+          >
+            {showOnCanvas ? <EyeOff size={14} /> : <Eye size={14} />}
+            {showOnCanvas ? 'Hide' : 'Show'}
+          </button>
+        )}
+      </div>
+
+      {count > 0 && (
+        <>
+          <ol className="flex flex-col gap-1 mb-3 max-h-40 overflow-y-auto text-sm text-slate-600">
+            {issues!.map((issue, i) => (
+              <li key={i} className="flex gap-2">
+                <span className="shrink-0 w-5 h-5 flex items-center justify-center rounded-full bg-red-100 text-red-600 text-[10px] font-bold">{i + 1}</span>
+                <span>{issue.message}</span>
+              </li>
+            ))}
+          </ol>
+          <button
+            onClick={onRepair}
+            disabled={disabled || isRepairing}
+            className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold bg-slate-100 text-slate-600 hover:bg-blue-50 hover:text-blue-600 transition-colors disabled:opacity-60"
+            title="Send these findings to the model and redraw the step"
+          >
+            {isRepairing ? <Loader2 size={16} className="animate-spin" /> : <WandSparkles size={16} />}
+            {isRepairing ? 'Fixing...' : 'Fix Layout'}
+          </button>
+        </>
+      )}
+
+      <label className="mt-3 flex items-center gap-2 text-xs text-slate-500 cursor-pointer select-none">
+        <input type="checkbox" checked={autoRepair} onChange={onToggleAutoRepair} className="accent-blue-600" />
+        Fix layout issues automatically
+      </label>
+    </div>
+  );
+};
+
+export default LayoutCheck;
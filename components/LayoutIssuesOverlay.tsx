@@ -0,0 +1,43 @@
+import React from 'react';
+import { LayoutIssue } from '../utils/layoutLint';
+
+interface LayoutIssuesOverlayProps {
+  issues: LayoutIssue[];
+  width: number;
+  height: number;
+}
+
+const PADDING = 4;
+
+// Marks each layout issue on the canvas with a numbered box matching the list in the sidebar
+const LayoutIssuesOverlay: React.FC<LayoutIssuesOverlayProps> = ({ issues, width, height }) => (
+  <svg viewBox={`0 0 ${width} ${height}`} className="absolute inset-0 w-full h-full pointer-events-none">
+    {issues.map((issue, i) => {
+      const { x, y, width: w, height: h } = issue.bounds;
+      // Keep the badge on the canvas even when the issue is that the label left it
+      const bx = Math.min(Math.max(x - PADDING, 10), width - 10);
+      const by = Math.min(Math.max(y - PADDING, 10), height - 10);
+      return (
+        <g key={i}>
+          <rect
+            x={x - PADDING}
+            y={y - PADDING}
+            width={w + PADDING * 2}
+            height={h + PADDING * 2}
+            rx={6}
+            fill="rgba(239, 68, 68, 0.08)"
+            stroke="#ef4444"
+            strokeWidth={2}
+            strokeDasharray="6 4"
+          />
+          <circle cx={bx} cy={by} r={10} fill="#ef4444" />
+          <text x={bx} y={by} textAnchor="middle" dominantBaseline="central" fontSize={12} fontWeight="bold" fill="white">
+            {i + 1}
+          </text>
+        </g>
+      );
+    })}
+  </svg>
+);
+
+export default LayoutIssuesOverlay;
@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { Check, ChevronDown, ChevronRight, X } from 'lucide-react';
+import { CanvasSize, SketchStep, Theme } from '../types';
+import { diffLines, getDrawingSource, PatchPreview, PatchRow } from '../utils/storyboardPatch';
+import StepThumbnail from './StepThumbnail';
+
+interface PatchReviewProps {
+  instruction: string;
+  summary: string;
+  preview: PatchPreview;
+  canvas: CanvasSize;
+  theme: Theme;
+  // Shows a proposed step on the canvas (null goes back to the current step)
+  onPreviewStep: (step: SketchStep | null) => void;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const KIND_BADGES: Record<PatchRow['kind'], { label: string; className: string }> = {
+  modified: { label: 'Changed', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  added: { label: 'New', className: 'bg-green-50 text-green-700 border-green-200' },
+  removed: { label: 'Removed', className: 'bg-red-50 text-red-700 border-red-200' },
+  unchanged: { label: 'Unchanged', className: 'bg-slate-50 text-slate-500 border-slate-200' }
+};
+
+const LINE_CLASSES = {
+  same: 'text-slate-500',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through decoration-red-300'
+};
+
+const LINE_MARKERS = { same: ' ', added: '+', removed: '-' };
+
+const DrawingDiff: React.FC<{ before: SketchStep; after: SketchStep }> = ({ before, after }) => {
+  const lines = useMemo(() => diffLines(getDrawingSource(before), getDrawingSource(after)), [before, after]);
+  return (
+    <pre className="max-h-60 overflow-auto rounded-lg border border-slate-200 bg-white py-1 font-mono text-[11px] leading-4">
+      {lines.map((line, i) => (
+        <div key={i} className={`px-2 whitespace-pre ${LINE_CLASSES[line.type]}`}>
+          {LINE_MARKERS[line.type]} {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+};
+
+const RowCard: React.FC<{ row: PatchRow; canvas: CanvasSize; theme: Theme; onPreviewStep: (step: SketchStep | null) => void }> = ({ row, canvas, theme, onPreviewStep }) => {
+  const [showDiff, setShowDiff] = useState(false);
+  const badge = KIND_BADGES[row.kind];
+  const step = row.after ?? row.before!;
+  const position = row.kind === 'removed' ? `Step ${row.beforeIndex! + 1}` : `Step ${row.afterIndex! + 1}`;
+
+  return (
+    <div className="rounded-2xl border border-slate-200 p-3 flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <span className={`px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-wider ${badge.className}`}>{badge.label}</span>
+        <span className="text-xs font-bold text-slate-400">{position}</span>
+      </div>
+
+      <div className="flex gap-3">
+        <div className="flex gap-1.5 shrink-0">
+          {row.kind === 'modified' && row.fields.includes('drawing') && (
+            <div className="w-24 aspect-[4/3] rounded-lg overflow-hidden bg-slate-50 ring-1 ring-slate-100 opacity-60" title="Before">
+              <StepThumbnail step={row.before!} canvas={canvas} theme={theme} />
+            </div>
+          )}
+          <button
+            onClick={() => onPreviewStep(row.after ?? null)}
+            className={`w-24 aspect-[4/3] rounded-lg overflow-hidden bg-slate-50 ring-1 ring-slate-200 ${row.kind === 'removed' ? 'opacity-40 grayscale' : 'hover:ring-blue-400'}`}
+            title={row.after ? "Preview on the canvas" : undefined}
+          >
+            <StepThumbnail step={step} canvas={canvas} theme={theme} />
+          </button>
+        </div>
+
+        <div className="min-w-0 flex-1 text-sm">
+          {row.fields.includes('title') && row.before && (
+            <div className="text-slate-400 line-through truncate">{row.before.title}</div>
+          )}
+          <div className={`font-bold truncate ${row.kind === 'removed' ? 'text-slate-400 line-through' : 'text-slate-800'}`}>{step.title}</div>
+          {(row.kind === 'added' || row.fields.includes('description')) && (
+            <p className="mt-1 text-xs text-slate-500 line-clamp-3">{step.description}</p>
+          )}
+        </div>
+      </div>
+
+      {row.kind === 'modified' && row.fields.includes('drawing') && (
+        <>
+          <button
+            onClick={() => setShowDiff(s => !s)}
+            className="self-start flex items-center gap-1 text-xs font-bold text-slate-500 hover:text-blue-600"
+          >
+            {showDiff ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+            {showDiff ? 'Hide drawing changes' : 'Show drawing changes'}
+          </button>
+          {showDiff && <DrawingDiff before={row.before!} after={row.after!} />}
+        </>
+      )}
+    </div>
+  );
+};
+
+// The proposed patch as a per-step diff. Nothing changes until it is accepted.
+const PatchReview: React.FC<PatchReviewProps> = ({ instruction, summary, preview, canvas, theme, onPreviewStep, onAccept, onReject }) => {
+  const changed = preview.rows.filter(row => row.kind !== 'unchanged');
+  const unchanged = preview.rows.length - changed.length;
+
+  return (
+    <div className="flex flex-col h-full gap-4">
+      <div>
+        <h2 className="hand-font text-3xl font-bold text-slate-800">Review Changes</h2>
+        <p className="mt-1 text-sm text-slate-500">“{instruction}”</p>
+        {summary && <p className="mt-2 text-sm text-slate-700">{summary}</p>}
+      </div>
+
+      <div className="flex-1 flex flex-col gap-3">
+        {changed.map((row, i) => <RowCard key={i} row={row} canvas={canvas} theme={theme} onPreviewStep={onPreviewStep} />)}
+        {unchanged > 0 && (
+          <p className="text-xs font-bold text-slate-400 text-center">
+            {unchanged} other step{unchanged === 1 ? '' : 's'} unchanged
+          </p>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button onClick={onReject} className="flex items-center gap-2 px-5 py-2.5 rounded-full text-sm font-bold text-slate-500 hover:bg-slate-100 transition-colors">
+          <X size={16} />
+          Reject
+        </button>
+        <button
+          onClick={onAccept}
+          className="flex items-center gap-2 px-5 py-2.5 rounded-full text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 active:scale-95 transition-all"
+        >
+          <Check size={16} />
+          Accept
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PatchReview;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { ArrowUp, Loader2, MessageSquare } from 'lucide-react';
+
+export interface RefineTurn {
+  instruction: string;
+  status: 'thinking' | 'review' | 'accepted' | 'rejected' | 'failed';
+  // The model's one-line summary of its patch, or why it failed
+  summary?: string;
+}
+
+interface RefinePanelProps {
+  turns: RefineTurn[];
+  disabled?: boolean;
+  onSend: (instruction: string) => void;
+}
+
+const STATUS_LABELS: Record<RefineTurn['status'], string> = {
+  thinking: 'Thinking…',
+  review: 'Waiting for review',
+  accepted: 'Applied',
+  rejected: 'Discarded',
+  failed: 'Failed'
+};
+
+const STATUS_CLASSES: Record<RefineTurn['status'], string> = {
+  thinking: 'text-slate-400',
+  review: 'text-blue-600',
+  accepted: 'text-green-600',
+  rejected: 'text-slate-400',
+  failed: 'text-red-600'
+};
+
+// Follow-up chat on the whole storyboard. Each instruction comes back as a patch to review, not an instant change.
+const RefinePanel: React.FC<RefinePanelProps> = ({ turns, disabled = false, onSend }) => {
+  const [draft, setDraft] = useState('');
+
+  const busy = turns.some(turn => turn.status === 'thinking' || turn.status === 'review');
+  const canSend = !disabled && !busy && draft.trim().length > 0;
+
+  const send = () => {
+    if (!canSend) return;
+    onSend(draft.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-slate-100">
+      <div className="flex items-center gap-2 mb-3 text-xs font-bold text-slate-500 uppercase tracking-wider">
+        <MessageSquare size={14} />
+        Refine Storyboard
+      </div>
+
+      {turns.length > 0 && (
+        <div className="flex flex-col gap-3 mb-3 max-h-64 overflow-y-auto">
+          {turns.map((turn, i) => (
+            <div key={i} className="flex flex-col gap-1">
+              <div className="self-end max-w-[85%] px-3 py-2 rounded-2xl rounded-br-md bg-blue-600 text-white text-sm">
+                {turn.instruction}
+              </div>
+              <div className="self-start max-w-[85%] px-3 py-2 rounded-2xl rounded-bl-md bg-slate-100 text-sm text-slate-600">
+                {turn.status === 'thinking' ? (
+                  <span className="flex items-center gap-2 text-slate-400"><Loader2 size={14} className="animate-spin" /> {STATUS_LABELS.thinking}</span>
+                ) : (
+                  <>
+                    {turn.summary && <span>{turn.summary} </span>}
+                    <span className={`text-xs font-bold ${STATUS_CLASSES[turn.status]}`}>{STATUS_LABELS[turn.status]}</span>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-end gap-2 bg-slate-50 border border-slate-200 rounded-2xl p-2 focus-within:border-blue-300 focus-within:bg-white transition-colors">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              send();
+            }
+          }}
+          rows={2}
+          disabled={disabled}
+          placeholder='e.g. "make the arrows red, add a cache layer"'
+          className="flex-1 resize-none bg-transparent px-2 py-1 text-sm text-slate-700 placeholder:text-slate-400 outline-none"
+        />
+        <button
+          onClick={send}
+          disabled={!canSend}
+          className="shrink-0 w-8 h-8 flex items-center justify-center rounded-xl bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-30"
+          title="Send"
+        >
+          <ArrowUp size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RefinePanel;
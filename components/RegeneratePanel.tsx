@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Loader2, RefreshCw, X } from 'lucide-react';
+import { CanvasSize, SketchStep, Theme } from '../types';
+import StepThumbnail from './StepThumbnail';
+
+interface RegeneratePanelProps {
+  step: SketchStep;
+  // The steps before it, whose persistent elements every option is drawn over
+  previousSteps: SketchStep[];
+  canvas: CanvasSize;
+  theme: Theme;
+  // Options from the last round; empty until the first one finishes
+  candidates: SketchStep[];
+  // Number of options being drawn right now (0 when idle)
+  pending: number;
+  error?: string;
+  onGenerate: (feedback: string) => void;
+  // Shows an option on the canvas (null goes back to the current step)
+  onPreviewStep: (step: SketchStep | null) => void;
+  onChoose: (step: SketchStep) => void;
+  onCancel: () => void;
+}
+
+// Redraws one step with its neighbours as context. Nothing changes until an option is picked.
+const RegeneratePanel: React.FC<RegeneratePanelProps> = ({ step, previousSteps, canvas, theme, candidates, pending, error, onGenerate, onPreviewStep, onChoose, onCancel }) => {
+  const [feedback, setFeedback] = useState('');
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const busy = pending > 0;
+
+  // A new round replaces the options, so the old selection means nothing
+  useEffect(() => {
+    setSelected(null);
+    onPreviewStep(null);
+  }, [candidates]);
+
+  const select = (index: number | null) => {
+    setSelected(index);
+    onPreviewStep(index === null ? null : candidates[index]);
+  };
+
+  return (
+    <div className="flex flex-col h-full gap-4">
+      <div>
+        <h2 className="hand-font text-3xl font-bold text-slate-800">Regenerate Step</h2>
+        <p className="mt-1 text-sm text-slate-500">{step.title}</p>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">What's wrong? (optional)</label>
+        <textarea
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          rows={3}
+          disabled={busy}
+          placeholder='e.g. "labels overlap the box"'
+          className="resize-none rounded-2xl border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700 placeholder:text-slate-400 outline-none focus:border-blue-300 focus:bg-white transition-colors"
+        />
+        <p className="text-xs text-slate-400">The previous and next steps are sent along, so shared nodes keep their places.</p>
+        <button
+          onClick={() => onGenerate(feedback.trim())}
+          disabled={busy}
+          className="self-start flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold bg-slate-100 text-slate-600 hover:bg-blue-50 hover:text-blue-600 transition-colors disabled:opacity-60 disabled:cursor-wait"
+        >
+          <RefreshCw size={16} className={busy ? 'animate-spin' : ''} />
+          {busy ? 'Drawing options...' : candidates.length > 0 ? 'Try Again' : 'Draw Options'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex-1 grid grid-cols-2 gap-3 content-start">
+        <button
+          onClick={() => select(null)}
+          className={`flex flex-col gap-1 rounded-xl p-1 text-left ring-2 transition-colors ${selected === null ? 'ring-blue-500' : 'ring-transparent hover:ring-slate-200'}`}
+        >
+          <div className="aspect-[4/3] rounded-lg overflow-hidden bg-slate-50 ring-1 ring-slate-100">
+            <StepThumbnail step={step} canvas={canvas} theme={theme} previousSteps={previousSteps} />
+          </div>
+          <span className="px-1 text-xs font-bold text-slate-500">Current</span>
+        </button>
+
+        {busy
+          ? Array.from({ length: pending }, (_, i) => (
+              <div key={i} className="flex flex-col gap-1 p-1">
+                <div className="aspect-[4/3] rounded-lg bg-slate-50 ring-1 ring-slate-100 flex items-center justify-center">
+                  <Loader2 size={18} className="animate-spin text-slate-300" />
+                </div>
+                <span className="px-1 text-xs font-bold text-slate-300">Option {i + 1}</span>
+              </div>
+            ))
+          : candidates.map((candidate, i) => (
+              <button
+                key={i}
+                onClick={() => select(i)}
+                className={`flex flex-col gap-1 rounded-xl p-1 text-left ring-2 transition-colors ${selected === i ? 'ring-blue-500' : 'ring-transparent hover:ring-slate-200'}`}
+                title="Preview on the canvas"
+              >
+                <div className="aspect-[4/3] rounded-lg overflow-hidden bg-slate-50 ring-1 ring-slate-100">
+                  <StepThumbnail step={candidate} canvas={canvas} theme={theme} previousSteps={previousSteps} />
+                </div>
+                <span className="px-1 text-xs font-bold text-slate-500">Option {i + 1}</span>
+              </button>
+            ))}
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button onClick={onCancel} className="flex items-center gap-2 px-5 py-2.5 rounded-full text-sm font-bold text-slate-500 hover:bg-slate-100 transition-colors">
+          <X size={16} />
+          Cancel
+        </button>
+        <button
+          onClick={() => selected !== null && onChoose(candidates[selected])}
+          disabled={selected === null || busy}
+          className="flex items-center gap-2 px-5 py-2.5 rounded-full text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 active:scale-95 transition-all disabled:opacity-40 disabled:pointer-events-none"
+        >
+          <Check size={16} />
+          {selected === null ? 'Use Option' : `Use Option ${selected + 1}`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RegeneratePanel;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Loader2, Wrench } from 'lucide-react';
+import { StepRepair } from '../utils/stepValidation';
+
+const LABELS: Record<StepRepair['status'], string> = {
+  repairing: 'Fixing a drawing error…',
+  repaired: 'Auto-repaired',
+  failed: "Couldn't auto-repair"
+};
+
+const CLASSES: Record<StepRepair['status'], string> = {
+  repairing: 'bg-slate-50 text-slate-500 border-slate-200',
+  repaired: 'bg-amber-50 text-amber-700 border-amber-200',
+  failed: 'bg-red-50 text-red-700 border-red-200'
+};
+
+// Marks a generated step whose drawing failed its dry run; the original error is in the tooltip
+const RepairBadge: React.FC<{ repair: StepRepair; compact?: boolean }> = ({ repair, compact = false }) => {
+  const title = `${LABELS[repair.status]}. The generated drawing failed with: ${repair.problem}`;
+  const icon = repair.status === 'repairing' ? <Loader2 size={12} className="animate-spin" /> : <Wrench size={12} />;
+
+  if (compact) {
+    return (
+      <span className={`inline-flex items-center justify-center w-5 h-5 rounded border ${CLASSES[repair.status]}`} title={title}>
+        {icon}
+      </span>
+    );
+  }
+  return (
+    <span className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full border text-xs font-bold ${CLASSES[repair.status]}`} title={title}>
+      {icon}
+      {LABELS[repair.status]}
+    </span>
+  );
+};
+
+export default RepairBadge;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { ProviderId, ProviderSettings, StorageUsage } from '../types';
+import { PROVIDER_DEFAULTS, PROVIDER_LABELS } from '../services/modelProvider';
+import { STORAGE_LIMIT_OPTIONS } from '../services/storageService';
+import { Field, inputClass } from './FormField';
+
+interface SettingsPanelProps {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+  storageUsage: StorageUsage | null;
+  onChangeStorageLimit: (limit: number) => void;
+  onClearNarration: () => void;
+}
+
+const formatBytes = (bytes: number) => bytes >= 1024 * 1024
+  ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  : `${Math.ceil(bytes / 1024)} KB`;
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose, storageUsage, onChangeStorageLimit, onClearNarration }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+
+  const update = (patch: Partial<ProviderSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  // Switching provider resets model names, since they are never portable between backends
+  const selectProvider = (provider: ProviderId) => {
+    setDraft(provider === settings.provider ? settings : PROVIDER_DEFAULTS[provider]);
+  };
+
+  const isFixture = draft.provider === 'fixture';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/30 backdrop-blur-sm p-4" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-md bg-white rounded-3xl shadow-2xl p-6 animate-in fade-in zoom-in duration-200"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="hand-font text-3xl font-bold text-slate-800">Settings</h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-xl transition-colors" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <Field label="Provider">
+            <select
+              value={draft.provider}
+              onChange={(e) => selectProvider(e.target.value as ProviderId)}
+              className={inputClass}
+            >
+              {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+                <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+              ))}
+            </select>
+          </Field>
+
+          {draft.provider === 'openai' && (
+            <Field label="Base URL" hint="e.g. a local llama.cpp or Ollama server">
+              <input className={inputClass} value={draft.baseUrl} onChange={(e) => update({ baseUrl: e.target.value })} />
+            </Field>
+          )}
+
+          {!isFixture && (
+            <>
+              <Field label="Model">
+                <input className={inputClass} value={draft.model} onChange={(e) => update({ model: e.target.value })} />
+              </Field>
+
+              <div className="grid grid-cols-2 gap-3">
+                <Field label="Speech Model">
+                  <input className={inputClass} value={draft.speechModel} onChange={(e) => update({ speechModel: e.target.value })} />
+                </Field>
+                <Field label="Voice">
+                  <input className={inputClass} value={draft.voice} onChange={(e) => update({ voice: e.target.value })} />
+                </Field>
+              </div>
+
+              <Field label="API Key" hint={draft.provider === 'gemini' ? 'Leave empty to use the key the app was built with' : undefined}>
+                <input type="password" className={inputClass} value={draft.apiKey} onChange={(e) => update({ apiKey: e.target.value })} />
+              </Field>
+            </>
+          )}
+
+          {isFixture && (
+            <p className="text-sm text-slate-500">
+              Returns a built-in storyboard for any question, with silent narration. No network access needed.
+            </p>
+          )}
+        </div>
+
+        {/* Storage applies immediately, independent of Save */}
+        {storageUsage && (
+          <div className="mt-6 pt-6 border-t border-slate-100 space-y-3">
+            <div className="flex items-center justify-between text-xs font-bold text-slate-500 uppercase tracking-wider">
+              <span>Storage</span>
+              <span className="normal-case tracking-normal font-mono text-slate-400">
+                {formatBytes(storageUsage.totalBytes)} / {formatBytes(storageUsage.limitBytes)}
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+              <div
+                className="h-full bg-blue-500 transition-all"
+                style={{ width: `${Math.min(100, (storageUsage.totalBytes / storageUsage.limitBytes) * 100)}%` }}
+              />
+            </div>
+            <p className="text-xs text-slate-400">
+              {storageUsage.historyCount} storyboards ({formatBytes(storageUsage.historyBytes)}), {storageUsage.audioCount} narration clips ({formatBytes(storageUsage.audioBytes)}).
+              When full, the least recently played narration goes first, then the oldest storyboards.
+            </p>
+            <div className="flex items-center gap-3">
+              <select
+                value={storageUsage.limitBytes}
+                onChange={(e) => onChangeStorageLimit(Number(e.target.value))}
+                className={inputClass}
+                title="Storage limit"
+              >
+                {STORAGE_LIMIT_OPTIONS.map(limit => (
+                  <option key={limit} value={limit}>Limit: {formatBytes(limit)}</option>
+                ))}
+              </select>
+              <button
+                onClick={onClearNarration}
+                disabled={storageUsage.audioCount === 0}
+                className="shrink-0 px-4 h-10 rounded-xl text-sm font-bold text-slate-500 border border-slate-200 hover:bg-slate-100 transition-colors disabled:opacity-40"
+              >
+                Clear Narration
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 mt-8">
+          <button onClick={onClose} className="px-5 py-2.5 rounded-full text-sm font-bold text-slate-500 hover:bg-slate-100 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-5 py-2.5 rounded-full text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 active:scale-95 transition-all"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
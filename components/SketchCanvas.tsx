@@ -1,195 +1,240 @@
-import React, { useEffect, useRef, useState, useImperativeHandle, forwardRef } from 'react';
-import rough from 'roughjs';
+import React, { useEffect, useMemo, useRef, useState, useImperativeHandle, forwardRef } from 'react';
+import { DrawCommand, ElementTransition, SketchStep, StepDrawing, Theme } from '../types';
+import { getDrawingKey, loadCarriedElements, loadStepDrawing } from '../utils/stepRunner';
+import { ElementStates, NO_ELEMENTS } from '../utils/stepElements';
+import { getStepSeed } from '../utils/seed';
+import { buildTimeline, createTimelinePlayer, renderFittedFrame, Timeline, TimelinePlayer } from '../utils/timeline';
+import { getPixelRatio } from '../utils/canvasSize';
+import { createTextMeasurer } from '../utils/sketchRenderer';
+import { DEFAULT_THEME, loadThemeFont } from '../utils/themes';
+import { buildObjectModel, SketchObject } from '../utils/sketchObjects';
+import { LayoutIssue, lintLayout } from '../utils/layoutLint';
+import SketchManipulator from './SketchManipulator';
+import LayoutIssuesOverlay from './LayoutIssuesOverlay';
 
 interface SketchCanvasProps {
-  code: string;
+  step: SketchStep;
+  // The steps before this one, whose persistent elements are already on the canvas when it starts
+  previousSteps?: SketchStep[];
   width?: number;
   height?: number;
+  theme?: Theme;
   className?: string;
+  style?: React.CSSProperties;
+  // Editing preview: jump straight to the finished frame, and keep the last good drawing when the code fails
+  preview?: boolean;
+  // Called after every run with the error that stopped it, or null
+  onRunComplete?: (error: unknown) => void;
+  // Direct manipulation: select elements on the canvas to move, resize, recolour or retype them
+  manipulate?: boolean;
+  // Saves an edited command into the step; returns why it couldn't be saved, or null
+  onManipulate?: (commands: DrawCommand[], index: number, command: DrawCommand) => string | null;
+  // Marks the layout lint findings on the canvas
+  showLayoutIssues?: boolean;
+  // Called after every successful run with the layout lint findings for the step that was drawn
+  onLayoutIssues?: (step: SketchStep, issues: LayoutIssue[]) => void;
 }
 
 export interface SketchCanvasHandle {
   replay: () => void;
   getCanvas: () => HTMLCanvasElement | null;
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  setRate: (rate: number) => void;
+  getDuration: () => number;
+  getTime: () => number;
+  getRate: () => number;
+  isPlaying: () => boolean;
+  subscribe: (listener: () => void) => () => void;
 }
 
-const SketchCanvas = forwardRef<SketchCanvasHandle, SketchCanvasProps>(({ 
-  code, 
-  width = 800, 
+const NO_STEPS: SketchStep[] = [];
+
+const SketchCanvas = forwardRef<SketchCanvasHandle, SketchCanvasProps>(({
+  step,
+  previousSteps = NO_STEPS,
+  width = 800,
   height = 600,
-  className = ''
+  theme = DEFAULT_THEME,
+  className = '',
+  style,
+  preview = false,
+  onRunComplete,
+  manipulate = false,
+  onManipulate,
+  showLayoutIssues = false,
+  onLayoutIssues
 }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [error, setError] = useState<string | null>(null);
-  
-  // Store timeout IDs to cancel animations if component unmounts or updates
-  const timeoutsRef = useRef<ReturnType<typeof setTimeout>[]>([]);
 
-  // We move the main drawing logic into a function that can be called by useEffect AND replay
-  const runAnimation = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  const timelineRef = useRef<Timeline>(buildTimeline([], 1));
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  // What the current run drew, kept so elements can be picked and edited on the canvas
+  const commandsRef = useRef<DrawCommand[]>([]);
+  // Only the step's own commands can be picked; these are needed to redraw the frame around them
+  const elementsRef = useRef<{ transitions: ElementTransition[]; carried: ElementStates }>({ transitions: [], carried: NO_ELEMENTS });
+  const [objects, setObjects] = useState<SketchObject[]>([]);
+  const [layoutIssues, setLayoutIssues] = useState<LayoutIssue[]>([]);
 
-    // Reset canvas and timers
-    // CRITICAL FIX: Fill with white instead of clearRect to ensure video background is white, not transparent/black
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, width, height);
-    
-    timeoutsRef.current.forEach(clearTimeout);
-    timeoutsRef.current = [];
+  // Only a real change to the earlier steps replays this one, not every new storyboard array
+  const previousStepsKey = useMemo(() => getDrawingKey(previousSteps), [previousSteps]);
 
-    const rc = rough.canvas(canvas);
+  // Each run gets an id so a slow sandbox result for an old step can't paint over the current one
+  const runIdRef = useRef(0);
 
-    // --- Command Queue for Animation ---
-    // We will push closures into this array to be executed sequentially
-    const commandQueue: Array<() => void> = [];
-    const addToQueue = (fn: () => void) => {
-      commandQueue.push(fn);
-    };
+  // The backing store has one pixel per device pixel so strokes stay sharp on HiDPI screens;
+  // drawing still happens in width x height units and is scaled up to it
+  const pixelRatio = getPixelRatio({ width, height }, window.devicePixelRatio || 1);
 
-    // --- Proxied Tools ---
-    // Proxy 'rc' to capture method calls
-    const rcProxy = new Proxy(rc, {
-      get(target: any, prop: string | symbol) {
-        if (typeof target[prop] === 'function') {
-          return (...args: any[]) => {
-            addToQueue(() => {
-               target[prop](...args);
-            });
-          };
-        }
-        return target[prop];
-      }
-    });
-
-    const drawArrow = (x1: number, y1: number, x2: number, y2: number, options: any = {}) => {
-      addToQueue(() => {
-        const { color = '#1c1917', strokeWidth = 2, arrowSize = 20 } = options;
-        rc.line(x1, y1, x2, y2, { stroke: color, strokeWidth, roughness: 2 });
-
-        const angle = Math.atan2(y2 - y1, x2 - x1);
-        const x3 = x2 - arrowSize * Math.cos(angle - Math.PI / 6);
-        const y3 = y2 - arrowSize * Math.sin(angle - Math.PI / 6);
-        const x4 = x2 - arrowSize * Math.cos(angle + Math.PI / 6);
-        const y4 = y2 - arrowSize * Math.sin(angle + Math.PI / 6);
-
-        rc.line(x2, y2, x3, y3, { stroke: color, strokeWidth, roughness: 2 });
-        rc.line(x2, y2, x4, y4, { stroke: color, strokeWidth, roughness: 2 });
-      });
-    };
+  const drawFrame = (timeline: Timeline, time: number) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    renderFittedFrame(ctx, timeline, time, { width, height }, { width: canvas.width, height: canvas.height });
+  };
 
-    const drawCurve = (x1: number, y1: number, x2: number, y2: number, offset: number = 0, options: any = {}) => {
-      addToQueue(() => {
-         const { color = '#1c1917', strokeWidth = 2, arrow = false, arrowSize = 20 } = options;
-         
-         const midX = (x1 + x2) / 2;
-         const midY = (y1 + y2) / 2;
-         const dx = x2 - x1;
-         const dy = y2 - y1;
-         const len = Math.sqrt(dx * dx + dy * dy);
-         const udx = -dy / len;
-         const udy = dx / len;
-         const cx = midX + udx * offset;
-         const cy = midY + udy * offset;
-         const path = `M${x1} ${y1} Q${cx} ${cy} ${x2} ${y2}`;
-         rc.path(path, { stroke: color, strokeWidth, roughness: 2 });
-
-         if (arrow) {
-            const angle = Math.atan2(y2 - cy, x2 - cx);
-            const x3 = x2 - arrowSize * Math.cos(angle - Math.PI / 6);
-            const y3 = y2 - arrowSize * Math.sin(angle - Math.PI / 6);
-            const x4 = x2 - arrowSize * Math.cos(angle + Math.PI / 6);
-            const y4 = y2 - arrowSize * Math.sin(angle + Math.PI / 6);
-            rc.line(x2, y2, x3, y3, { stroke: color, strokeWidth, roughness: 2 });
-            rc.line(x2, y2, x4, y4, { stroke: color, strokeWidth, roughness: 2 });
-         }
-      });
-    };
+  const renderAt = (time: number) => drawFrame(timelineRef.current, time);
+
+  // The player outlives renders, so it reaches the latest renderAt (and its props) through a ref
+  const renderAtRef = useRef(renderAt);
+  renderAtRef.current = renderAt;
+
+  const onRunCompleteRef = useRef(onRunComplete);
+  onRunCompleteRef.current = onRunComplete;
+
+  const onLayoutIssuesRef = useRef(onLayoutIssues);
+  onLayoutIssuesRef.current = onLayoutIssues;
+
+  const playerRef = useRef<TimelinePlayer | null>(null);
+  if (!playerRef.current) {
+    playerRef.current = createTimelinePlayer(time => renderAtRef.current(time));
+  }
+  const player = playerRef.current;
+
+  // Finished frame with one command swapped for its edited version, while it is being dragged
+  const previewEdit = (index: number, command: DrawCommand | null) => {
+    const timeline = command
+      ? buildTimeline(
+        commandsRef.current.map((c, i) => i === index ? command : c),
+        getStepSeed(step),
+        theme,
+        elementsRef.current.transitions,
+        elementsRef.current.carried
+      )
+      : timelineRef.current;
+    drawFrame(timeline, timeline.duration);
+  };
 
-    const drawText = (text: string, x: number, y: number, options: any = {}) => {
-      addToQueue(() => {
-        ctx.save();
-        const fontSize = options.size || options.fontSize || 24;
-        ctx.font = `bold ${fontSize}px 'Patrick Hand', cursive`;
-        ctx.fillStyle = options.color || "#1c1917";
-        ctx.textAlign = "center";
-        ctx.textBaseline = "middle";
-        ctx.shadowColor = "rgba(255, 255, 255, 0.8)";
-        ctx.shadowBlur = 4;
-        ctx.shadowOffsetX = 0;
-        ctx.shadowOffsetY = 0;
-        
-        const lines = String(text).split(/\r?\n|\\n/);
-        const lineHeight = fontSize * 1.2; 
-        const startY = y - ((lines.length - 1) * lineHeight) / 2;
-
-        lines.forEach((line: string, i: number) => {
-          ctx.fillText(line, x, startY + (i * lineHeight));
-          ctx.fillText(line, x, startY + (i * lineHeight));
-        });
-        ctx.restore();
-      });
-    };
+  // Loads the step's commands onto the timeline and starts playing from the beginning
+  const runAnimation = async () => {
+    const runId = ++runIdRef.current;
+    player.pause();
 
+    // --- Command Queue for Animation ---
+    // Step code runs in the sandbox (scenes are interpreted directly), which hands back the queue for us to play here
+    let drawing: StepDrawing;
+    let carried = NO_ELEMENTS;
+    let failure: unknown = null;
     try {
       setError(null);
-      // Execute the code to populate commandQueue
-      // eslint-disable-next-line no-new-func
-      const drawFunction = new Function('rc', 'ctx', 'width', 'height', 'drawArrow', 'drawCurve', 'drawText', code);
-      drawFunction(rcProxy, ctx, width, height, drawArrow, drawCurve, drawText);
-
-      // Playback Animation (Staggered)
-      const STAGGER_DELAY = 200; 
-
-      commandQueue.forEach((command, index) => {
-        const id = setTimeout(() => {
-          requestAnimationFrame(() => {
-             try {
-                command();
-             } catch (e) {
-                console.error("Error executing command at index", index, e);
-             }
-          });
-        }, index * STAGGER_DELAY);
-        
-        timeoutsRef.current.push(id);
-      });
-
+      // Text is wrapped using the theme's font, so it has to be there before the step is laid out
+      [drawing, carried] = await Promise.all([
+        loadStepDrawing(step, { width, height }),
+        loadCarriedElements(previousSteps, { width, height }),
+        loadThemeFont(theme)
+      ]);
     } catch (err) {
-      console.error("Failed to execute sketch code:", err);
+      if (runId !== runIdRef.current) return;
+      failure = err;
       setError("Could not draw this step.");
-      drawText("Oops! Drawing Error.", width/2, height/2, { color: '#ef4444', size: 40 });
+      if (preview) {
+        onRunCompleteRef.current?.(err);
+        return;
+      }
+      console.error("Failed to execute sketch code:", err);
+      drawing = {
+        commands: [{ type: 'text', text: "Oops! Drawing Error.", x: width / 2, y: height / 2, options: { color: '#ef4444', size: 40 } }],
+        transitions: []
+      };
+    }
+
+    if (runId !== runIdRef.current) return;
+    onRunCompleteRef.current?.(failure);
+
+    commandsRef.current = failure ? [] : drawing.commands;
+    elementsRef.current = { transitions: drawing.transitions, carried };
+    const model = buildObjectModel(commandsRef.current, createTextMeasurer(theme.fontFamily));
+    const issues = lintLayout(model, width, height);
+    setObjects(model);
+    setLayoutIssues(issues);
+    if (!failure) onLayoutIssuesRef.current?.(step, issues);
+    timelineRef.current = buildTimeline(drawing.commands, getStepSeed(step), theme, drawing.transitions, carried);
+    player.load(timelineRef.current.duration);
+    if (preview) {
+      player.seek(timelineRef.current.duration);
+    } else {
+      player.play();
     }
   };
 
   useEffect(() => {
     runAnimation();
     return () => {
-      timeoutsRef.current.forEach(clearTimeout);
+      runIdRef.current++;
+      player.pause();
     };
-  }, [code, width, height]);
+  }, [step, previousStepsKey, width, height, theme, preview]);
+
+  useEffect(() => () => player.dispose(), []);
+
+  // Resizing the backing store clears it, so the current frame is drawn again
+  useEffect(() => {
+    renderAt(player.getTime());
+  }, [pixelRatio]);
 
   // Expose methods to parent
   useImperativeHandle(ref, () => ({
     replay: () => {
-      runAnimation();
+      player.seek(0);
+      player.play();
     },
     getCanvas: () => {
       return canvasRef.current;
-    }
+    },
+    play: player.play,
+    pause: player.pause,
+    seek: player.seek,
+    setRate: player.setRate,
+    getDuration: player.getDuration,
+    getTime: player.getTime,
+    getRate: player.getRate,
+    isPlaying: player.isPlaying,
+    subscribe: player.subscribe
   }));
 
   return (
-    <div className={`relative bg-white rounded-xl overflow-hidden ${className}`}>
+    <div className={`relative rounded-xl overflow-hidden ${className}`} style={{ backgroundColor: theme.background, ...style }}>
       <canvas
         ref={canvasRef}
-        width={width}
-        height={height}
-        className="block w-full h-full object-contain bg-white"
+        width={Math.round(width * pixelRatio)}
+        height={Math.round(height * pixelRatio)}
+        className="block w-full h-full object-contain"
       />
+      {showLayoutIssues && layoutIssues.length > 0 && (
+        <LayoutIssuesOverlay issues={layoutIssues} width={width} height={height} />
+      )}
+      {manipulate && onManipulate && (
+        <SketchManipulator
+          objects={objects}
+          width={width}
+          height={height}
+          theme={theme}
+          onPreview={previewEdit}
+          onCommit={(index, command) => onManipulate(commandsRef.current, index, command)}
+        />
+      )}
       {error && (
         <div className="absolute top-2 left-2 bg-red-100 text-red-700 px-3 py-1 rounded text-sm font-bold opacity-90 z-10">
           Error
@@ -202,4 +247,4 @@ const SketchCanvas = forwardRef<SketchCanvasHandle, SketchCanvasProps>(({
   );
 });
 
-export default SketchCanvas;
\ No newline at end of file
+export default SketchCanvas;
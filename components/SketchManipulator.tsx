@@ -0,0 +1,287 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { DrawCommand, Theme } from '../types';
+import { resolveColor } from '../utils/themes';
+import { applyEdit, Bounds, canTransform, getColorKey, hitTest, ObjectEdit, ROUGH_OPTIONS_INDEX, SketchObject } from '../utils/sketchObjects';
+
+interface SketchManipulatorProps {
+  objects: SketchObject[];
+  width: number;
+  height: number;
+  // Swatches are color names, shown as this theme draws them
+  theme: Theme;
+  // Draws the sketch with one command swapped out while a drag is in progress (null restores it)
+  onPreview: (index: number, command: DrawCommand | null) => void;
+  // Saves an edit into the step; returns why it couldn't be saved, or null
+  onCommit: (index: number, command: DrawCommand) => string | null;
+}
+
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+interface Drag {
+  object: SketchObject;
+  corner?: Corner;
+  startX: number;
+  startY: number;
+  edit?: ObjectEdit;
+}
+
+// Names rather than literal colors, so recoloured elements follow the theme
+const PALETTE = ['ink', 'danger', 'warning', 'success', 'primary', 'neutral', 'muted'];
+
+const HANDLE_SIZE = 10;
+const MIN_SIZE = 4;
+// Pointer travel (in sketch units) before a press counts as a drag rather than a click
+const DRAG_THRESHOLD = 2;
+
+const corners = ({ x, y, width, height }: Bounds): Record<Corner, [number, number]> => ({
+  nw: [x, y],
+  ne: [x + width, y],
+  sw: [x, y + height],
+  se: [x + width, y + height]
+});
+
+// The box spanned by the corner opposite the dragged one and the pointer
+const resizeBounds = (from: Bounds, corner: Corner, px: number, py: number): Bounds => {
+  const [ax, ay] = corners(from)[({ nw: 'se', ne: 'sw', sw: 'ne', se: 'nw' } as const)[corner]];
+  const west = corner === 'nw' || corner === 'sw';
+  const north = corner === 'nw' || corner === 'ne';
+  const w = Math.max(MIN_SIZE, west ? ax - px : px - ax);
+  const h = Math.max(MIN_SIZE, north ? ay - py : py - ay);
+  return { x: west ? ax - w : ax, y: north ? ay - h : ay, width: w, height: h };
+};
+
+const editedBounds = (bounds: Bounds, edit?: ObjectEdit): Bounds => {
+  if (edit?.kind === 'move') return { ...bounds, x: bounds.x + edit.dx, y: bounds.y + edit.dy };
+  if (edit?.kind === 'resize') return edit.to;
+  return bounds;
+};
+
+const getColor = (command: DrawCommand): string | undefined => {
+  const options = command.type === 'rough' ? command.args[ROUGH_OPTIONS_INDEX[command.method]] : command.options;
+  return options?.[getColorKey(command)];
+};
+
+// Selection layer over the canvas. It works in sketch coordinates through an SVG with the canvas's own
+// viewBox, so it lines up with the drawing at any on-screen size.
+const SketchManipulator: React.FC<SketchManipulatorProps> = ({ objects, width, height, theme, onPreview, onCommit }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [dragBounds, setDragBounds] = useState<Bounds | null>(null);
+  const [textDraft, setTextDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // The picker's colour while it is open; only shown as a preview until the picker closes
+  const [colorDraft, setColorDraft] = useState<string | null>(null);
+  const colorInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = objects.find(o => o.index === selectedIndex) ?? null;
+
+  // A new drawing (after a save, or another step) keeps the selection only if the element is still there
+  useEffect(() => {
+    if (selectedIndex !== null && !selected) setSelectedIndex(null);
+    setTextDraft(selected?.command.type === 'text' ? selected.command.text : '');
+    setColorDraft(null);
+  }, [objects, selectedIndex]);
+
+  const toSketch = (e: React.PointerEvent) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM()?.inverse();
+    if (!svg || !matrix) return { x: 0, y: 0 };
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix);
+    return { x: point.x, y: point.y };
+  };
+
+  const commit = (object: SketchObject, edit: ObjectEdit) => {
+    const failure = onCommit(object.index, applyEdit(object.command, object.bounds, edit));
+    setError(failure);
+    if (failure) onPreview(object.index, null);
+  };
+
+  const startDrag = (e: React.PointerEvent, object: SketchObject, corner?: Corner) => {
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    const { x, y } = toSketch(e);
+    dragRef.current = { object, corner, startX: x, startY: y };
+    setSelectedIndex(object.index);
+    setError(null);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const { x, y } = toSketch(e);
+    const hit = hitTest(objects, x, y);
+    if (!hit) {
+      setSelectedIndex(null);
+      setError(null);
+      return;
+    }
+    if (canTransform(hit.command)) {
+      startDrag(e, hit);
+    } else {
+      setSelectedIndex(hit.index);
+      setError(null);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = toSketch(e);
+    const dx = x - drag.startX;
+    const dy = y - drag.startY;
+    if (!drag.edit && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+
+    drag.edit = drag.corner
+      ? { kind: 'resize', from: drag.object.bounds, to: resizeBounds(drag.object.bounds, drag.corner, x, y) }
+      : { kind: 'move', dx: Math.round(dx), dy: Math.round(dy) };
+    setDragBounds(editedBounds(drag.object.bounds, drag.edit));
+    onPreview(drag.object.index, applyEdit(drag.object.command, drag.object.bounds, drag.edit));
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    setDragBounds(null);
+    if (drag?.edit) commit(drag.object, drag.edit);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!selected || (e.target as HTMLElement).tagName === 'INPUT') return;
+    if (e.key === 'Escape') {
+      setSelectedIndex(null);
+      return;
+    }
+    const step = e.shiftKey ? 10 : 1;
+    const nudges: Record<string, [number, number]> = { ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, -step], ArrowDown: [0, step] };
+    if (nudges[e.key] && canTransform(selected.command)) {
+      e.preventDefault();
+      commit(selected, { kind: 'move', dx: nudges[e.key][0], dy: nudges[e.key][1] });
+    }
+  };
+
+  const previewColor = (value: string) => {
+    if (!selected) return;
+    setColorDraft(value);
+    onPreview(selected.index, applyEdit(selected.command, selected.bounds, { kind: 'color', color: value }));
+  };
+
+  // React's onChange fires for every move of the picker; the native change event only once it closes,
+  // so that is when the code is patched and saved
+  const commitColorRef = useRef((_value: string) => {});
+  commitColorRef.current = (value: string) => {
+    setColorDraft(null);
+    if (selected) commit(selected, { kind: 'color', color: value });
+  };
+
+  useEffect(() => {
+    const input = colorInputRef.current;
+    if (!input) return;
+    const handleChange = () => commitColorRef.current(input.value);
+    input.addEventListener('change', handleChange);
+    return () => input.removeEventListener('change', handleChange);
+  }, [selected]);
+
+  const commitText = () => {
+    if (selected?.command.type === 'text' && textDraft !== selected.command.text) {
+      commit(selected, { kind: 'text', text: textDraft });
+    }
+  };
+
+  const box = dragBounds ?? selected?.bounds;
+  const color = selected ? getColor(selected.command) : undefined;
+  const shownColor = String(resolveColor(color || 'ink', theme, 'stroke'));
+  const pickerValue = /^#[0-9a-f]{6}$/i.test(shownColor) ? shownColor : '#1e293b';
+
+  return (
+    <div className="absolute inset-0 z-10 outline-none" tabIndex={0} onKeyDown={handleKeyDown}>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${width} ${height}`}
+        className="absolute inset-0 w-full h-full touch-none cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {selected && box && (
+          <g>
+            <rect
+              x={box.x - 4}
+              y={box.y - 4}
+              width={box.width + 8}
+              height={box.height + 8}
+              className="fill-blue-500/5 stroke-blue-500"
+              strokeWidth={1.5}
+              strokeDasharray="6 4"
+              pointerEvents="none"
+            />
+            {canTransform(selected.command) && (Object.entries(corners(box)) as Array<[Corner, [number, number]]>).map(([corner, [cx, cy]]) => (
+              <rect
+                key={corner}
+                x={cx - HANDLE_SIZE / 2}
+                y={cy - HANDLE_SIZE / 2}
+                width={HANDLE_SIZE}
+                height={HANDLE_SIZE}
+                rx={2}
+                className="fill-white stroke-blue-500"
+                strokeWidth={1.5}
+                style={{ cursor: corner === 'nw' || corner === 'se' ? 'nwse-resize' : 'nesw-resize' }}
+                onPointerDown={(e) => startDrag(e, selected, corner)}
+              />
+            ))}
+          </g>
+        )}
+      </svg>
+
+      {selected && (
+        <div className="absolute top-2 left-2 right-2 flex flex-col items-start gap-2 pointer-events-none">
+          <div className="pointer-events-auto flex flex-wrap items-center gap-2 bg-white/95 px-3 py-2 rounded-xl border border-slate-200 shadow-lg">
+            {PALETTE.map(swatch => (
+              <button
+                key={swatch}
+                onClick={() => commit(selected, { kind: 'color', color: swatch })}
+                className={`w-5 h-5 rounded-full border-2 transition-transform hover:scale-110 ${color === swatch ? 'border-blue-500' : 'border-white ring-1 ring-slate-200'}`}
+                style={{ backgroundColor: String(resolveColor(swatch, theme, 'stroke')) }}
+                title={swatch}
+              />
+            ))}
+            <input
+              type="color"
+              ref={colorInputRef}
+              value={colorDraft ?? pickerValue}
+              onChange={(e) => previewColor(e.target.value)}
+              className="w-7 h-6 cursor-pointer bg-transparent"
+              title="Custom colour"
+            />
+            {selected.command.type === 'text' && (
+              <input
+                value={textDraft}
+                onChange={(e) => setTextDraft(e.target.value)}
+                onBlur={commitText}
+                onKeyDown={(e) => e.key === 'Enter' && commitText()}
+                className="w-48 h-7 px-2 rounded-lg bg-slate-50 border border-slate-200 text-sm text-slate-700 outline-none focus:border-blue-300"
+                aria-label="Text"
+              />
+            )}
+            <button
+              onClick={() => setSelectedIndex(null)}
+              className="p-1 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100"
+              title="Deselect"
+            >
+              <X size={14} />
+            </button>
+          </div>
+          {error && (
+            <div className="pointer-events-auto flex items-start gap-2 max-w-md px-3 py-2 rounded-xl bg-red-50 border border-red-100 text-xs text-red-700 shadow">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SketchManipulator;
@@ -1,21 +1,30 @@
 import React from 'react';
-import { ChevronLeft, ChevronRight, RotateCcw } from 'lucide-react';
+import { ChevronLeft, ChevronRight, RotateCcw, Loader2, GalleryHorizontal } from 'lucide-react';
 
 interface StepControlsProps {
   currentStep: number;
   totalSteps: number;
+  isStreaming?: boolean; // More steps are still being generated after the last one in totalSteps
   onNext: () => void;
   onPrev: () => void;
   onReset: () => void;
+  // Shows/hides the storyboard outline (filmstrip)
+  isOutlineOpen?: boolean;
+  onToggleOutline?: () => void;
 }
 
 const StepControls: React.FC<StepControlsProps> = ({ 
   currentStep, 
   totalSteps, 
+  isStreaming = false,
   onNext, 
   onPrev,
-  onReset
+  onReset,
+  isOutlineOpen = false,
+  onToggleOutline
 }) => {
+  const isLastStep = currentStep === totalSteps - 1;
+
   return (
     <div className="flex items-center justify-between w-full bg-white p-2 rounded-2xl border border-slate-200 shadow-sm">
       <div className="flex items-center gap-3">
@@ -26,9 +35,31 @@ const StepControls: React.FC<StepControlsProps> = ({
         >
           <RotateCcw size={20} />
         </button>
+        {onToggleOutline && (
+          <button
+            onClick={onToggleOutline}
+            className={`p-2.5 rounded-xl transition-colors ${isOutlineOpen ? 'text-blue-600 bg-blue-50' : 'text-slate-400 hover:text-slate-700 hover:bg-slate-100'}`}
+            title={isOutlineOpen ? "Hide Outline" : "Show Outline"}
+          >
+            <GalleryHorizontal size={20} />
+          </button>
+        )}
         <span className="font-mono text-xs font-bold text-slate-400 tracking-wider">
-          {currentStep + 1} / {totalSteps}
+          {currentStep + 1} / {totalSteps}{isStreaming ? '+' : ''}
         </span>
+
+        {/* Received steps as dots, with a pulsing placeholder for the step still being generated */}
+        <div className="hidden sm:flex items-center gap-1">
+          {Array.from({ length: totalSteps }, (_, i) => (
+            <span
+              key={i}
+              className={`w-1.5 h-1.5 rounded-full ${i === currentStep ? 'bg-blue-600' : 'bg-slate-300'}`}
+            />
+          ))}
+          {isStreaming && (
+            <span className="w-1.5 h-1.5 rounded-full bg-slate-200 ring-1 ring-slate-300 animate-pulse" title="More steps are on the way" />
+          )}
+        </div>
       </div>
 
       <div className="flex items-center gap-3">
@@ -49,17 +80,26 @@ const StepControls: React.FC<StepControlsProps> = ({
         
         <button
           onClick={onNext}
-          disabled={currentStep === totalSteps - 1}
+          disabled={isLastStep}
           className={`
             flex items-center gap-2 px-5 h-10 rounded-xl font-bold transition-all shadow-sm
-            ${currentStep === totalSteps - 1 
+            ${isLastStep 
               ? 'bg-slate-100 text-slate-300 cursor-not-allowed shadow-none' 
               : 'bg-blue-600 text-white hover:bg-blue-700 active:scale-95 shadow-blue-200'
             }
           `}
         >
-          <span>Next</span>
-          <ChevronRight size={18} />
+          {isLastStep && isStreaming ? (
+            <>
+              <span>Sketching</span>
+              <Loader2 size={18} className="animate-spin" />
+            </>
+          ) : (
+            <>
+              <span>Next</span>
+              <ChevronRight size={18} />
+            </>
+          )}
         </button>
       </div>
     </div>
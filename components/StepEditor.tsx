@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Check, X } from 'lucide-react';
+import { SketchScene, SketchStep } from '../types';
+import { SandboxError } from '../utils/sketchSandbox';
+import { validateScene } from '../utils/sceneInterpreter';
+import CodeEditor from './CodeEditor';
+import { Field, inputClass } from './FormField';
+
+interface StepEditorProps {
+  step: SketchStep;
+  // Latest error from drawing the preview, null when it drew cleanly
+  runError: unknown;
+  onPreview: (step: SketchStep) => void;
+  onSave: (step: SketchStep) => void;
+  onCancel: () => void;
+}
+
+interface EditorError {
+  message: string;
+  line?: number;
+}
+
+// Typing pauses shorter than this don't restart the sandbox
+const PREVIEW_DEBOUNCE_MS = 300;
+
+const SANDBOX_ERROR_LABELS: Record<string, string> = {
+  syntax: 'Syntax error',
+  runtime: 'Runtime error',
+  budget: 'Too many drawing commands',
+  timeout: 'Took too long'
+};
+
+const describeRunError = (err: unknown): EditorError | null => {
+  if (!err) return null;
+  if (err instanceof SandboxError) {
+    return { message: `${SANDBOX_ERROR_LABELS[err.kind]}: ${err.message}`, line: err.line };
+  }
+  return { message: err instanceof Error ? err.message : String(err) };
+};
+
+// JSON.parse reports an offset ("at position 42") or, in newer engines, the line directly
+const lineOfJsonError = (text: string, message: string): number | undefined => {
+  const line = message.match(/line (\d+)/);
+  if (line) return Number(line[1]);
+  const position = message.match(/position (\d+)/);
+  return position ? text.slice(0, Number(position[1])).split('\n').length : undefined;
+};
+
+const parseSceneSource = (source: string): { scene?: SketchScene; error?: EditorError } => {
+  let scene: SketchScene;
+  try {
+    scene = JSON.parse(source);
+  } catch (e) {
+    const message = (e as Error).message;
+    return { error: { message: `Invalid JSON: ${message}`, line: lineOfJsonError(source, message) } };
+  }
+  const errors = validateScene(scene);
+  return errors.length > 0 ? { error: { message: errors.join('; ') } } : { scene };
+};
+
+const getSource = (step: SketchStep) => step.kind === 'scene' ? JSON.stringify(step.scene, null, 2) : step.code;
+
+const StepEditor: React.FC<StepEditorProps> = ({ step, runError, onPreview, onSave, onCancel }) => {
+  const [title, setTitle] = useState(step.title);
+  const [description, setDescription] = useState(step.description);
+  const [source, setSource] = useState(() => getSource(step));
+
+  const isScene = step.kind === 'scene';
+
+  // Scene JSON is checked here; code can only be checked by running it, so its errors come back from the canvas
+  const { draft, sourceError } = useMemo(() => {
+    if (!isScene) {
+      return { draft: { ...step, title, description, code: source } as SketchStep, sourceError: null };
+    }
+    const { scene, error } = parseSceneSource(source);
+    return { draft: scene ? { ...step, title, description, scene } as SketchStep : null, sourceError: error ?? null };
+  }, [step, isScene, title, description, source]);
+
+  useEffect(() => {
+    if (!draft) return;
+    const timer = setTimeout(() => onPreview(draft), PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [draft]);
+
+  const error = sourceError ?? describeRunError(runError);
+  const isDirty = title !== step.title || description !== step.description || source !== getSource(step);
+
+  return (
+    <div className="flex flex-col h-full gap-4">
+      <div className="flex items-center justify-between">
+        <h2 className="hand-font text-3xl font-bold text-slate-800">Edit Step</h2>
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">{isScene ? 'Scene JSON' : 'Code'}</span>
+      </div>
+
+      <Field label="Title">
+        <input className={inputClass} value={title} onChange={(e) => setTitle(e.target.value)} />
+      </Field>
+
+      <Field label="Description">
+        <textarea
+          className={`${inputClass} h-24 py-2 resize-none leading-relaxed`}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </Field>
+
+      <div className="flex-1 min-h-[240px] flex flex-col">
+        <span className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">
+          {isScene ? 'Scene' : 'Drawing Code'}
+        </span>
+        <CodeEditor
+          value={source}
+          onChange={setSource}
+          errorLine={error?.line}
+          completions={!isScene}
+          className="flex-1 min-h-0"
+        />
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 px-3 py-2 rounded-xl bg-red-50 border border-red-100 text-sm text-red-700">
+          <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+          <span>
+            {error.line !== undefined && <strong>Line {error.line}: </strong>}
+            {error.message}
+          </span>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button onClick={onCancel} className="flex items-center gap-2 px-5 py-2.5 rounded-full text-sm font-bold text-slate-500 hover:bg-slate-100 transition-colors">
+          <X size={16} />
+          Cancel
+        </button>
+        <button
+          onClick={() => draft && onSave(draft)}
+          disabled={!draft || !isDirty}
+          className="flex items-center gap-2 px-5 py-2.5 rounded-full text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 active:scale-95 transition-all disabled:opacity-40 disabled:pointer-events-none"
+        >
+          <Check size={16} />
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StepEditor;
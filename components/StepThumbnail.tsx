@@ -0,0 +1,39 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { CanvasSize, SketchStep, Theme } from '../types';
+import { getStepThumbnail } from '../utils/stepThumbnail';
+import { getDrawingKey } from '../utils/stepRunner';
+
+interface StepThumbnailProps {
+  step: SketchStep;
+  canvas: CanvasSize;
+  theme: Theme;
+  // The steps before it, whose persistent elements are still on the canvas
+  previousSteps?: SketchStep[];
+}
+
+// The finished drawing of a step at thumbnail size, drawn on its storyboard's canvas and theme; fills its container
+const StepThumbnail: React.FC<StepThumbnailProps> = ({ step, canvas, theme, previousSteps }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const previousStepsKey = useMemo(() => getDrawingKey(previousSteps ?? []), [previousSteps]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSrc(null);
+    setFailed(false);
+    getStepThumbnail(step, canvas, theme, previousSteps)
+      .then(url => !cancelled && setSrc(url))
+      .catch(() => !cancelled && setFailed(true));
+    return () => { cancelled = true; };
+  }, [step, canvas, theme, previousStepsKey]);
+
+  if (src) return <img src={src} alt="" className="w-full h-full object-contain" draggable={false} />;
+  return (
+    <div className="w-full h-full flex items-center justify-center text-[10px] font-bold text-slate-300 uppercase">
+      {failed ? 'Error' : <Loader2 size={14} className="animate-spin" />}
+    </div>
+  );
+};
+
+export default StepThumbnail;
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { Theme, ThemeRole } from '../types';
+import { createCustomTheme, CUSTOM_THEME_ID, THEME_FONTS, THEME_ROLES, THEMES } from '../utils/themes';
+import { Field, inputClass } from './FormField';
+
+interface ThemePanelProps {
+  // The storyboard's current theme, which the draft starts from
+  theme: Theme;
+  // Shows the draft on the canvas (null goes back to the current theme)
+  onPreview: (theme: Theme | null) => void;
+  onApply: (theme: Theme) => void;
+  onCancel: () => void;
+}
+
+type ThemeColor = 'background' | 'ink' | 'muted';
+
+const BASE_COLORS: Array<[ThemeColor, string]> = [['background', 'Background'], ['ink', 'Ink'], ['muted', 'Muted']];
+
+// <input type="color"> only takes #rrggbb
+const toPickerValue = (color: string) => /^#[0-9a-f]{6}$/i.test(color) ? color : '#000000';
+
+const ColorInput: React.FC<{ value: string; title: string; onChange: (color: string) => void }> = ({ value, title, onChange }) => (
+  <input
+    type="color"
+    value={toPickerValue(value)}
+    onChange={(e) => onChange(e.target.value)}
+    className="w-8 h-7 cursor-pointer bg-transparent"
+    title={title}
+  />
+);
+
+const Swatches: React.FC<{ theme: Theme }> = ({ theme }) => (
+  <div className="flex items-center gap-1 rounded-lg px-2 py-1.5" style={{ backgroundColor: theme.background }}>
+    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: theme.ink }} />
+    {THEME_ROLES.map(role => (
+      <span key={role} className="w-3 h-3 rounded-sm border" style={{ backgroundColor: theme.fills[role], borderColor: theme.accents[role] }} />
+    ))}
+  </div>
+);
+
+// Picks the storyboard's look. The draft is shown on the canvas; nothing is saved until it is applied.
+const ThemePanel: React.FC<ThemePanelProps> = ({ theme, onPreview, onApply, onCancel }) => {
+  const [draft, setDraft] = useState<Theme>(theme);
+
+  useEffect(() => {
+    onPreview(draft);
+  }, [draft]);
+
+  // Any edit turns the draft into a custom theme based on what it was
+  const edit = (change: (custom: Theme) => Theme) =>
+    setDraft(d => change(d.id === CUSTOM_THEME_ID ? d : createCustomTheme(d)));
+
+  const setRoleColor = (palette: 'fills' | 'accents', role: ThemeRole, color: string) =>
+    edit(t => ({ ...t, [palette]: { ...t[palette], [role]: color } }));
+
+  const options = [...THEMES, draft.id === CUSTOM_THEME_ID ? draft : createCustomTheme(draft)];
+
+  return (
+    <div className="flex flex-col h-full gap-5">
+      <div>
+        <h2 className="hand-font text-3xl font-bold text-slate-800">Theme</h2>
+        <p className="mt-1 text-sm text-slate-500">Colors, font and roughness for every step of this storyboard.</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {options.map(option => (
+          <button
+            key={option.id}
+            onClick={() => setDraft(option)}
+            className={`flex flex-col gap-1.5 rounded-xl p-2 text-left ring-2 transition-colors ${draft.id === option.id ? 'ring-blue-500' : 'ring-slate-100 hover:ring-slate-200'}`}
+          >
+            <Swatches theme={option} />
+            <span className="px-1 text-sm font-bold text-slate-600" style={{ fontFamily: option.fontFamily }}>{option.name}</span>
+          </button>
+        ))}
+      </div>
+
+      {draft.id === CUSTOM_THEME_ID && (
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-wrap gap-4">
+            {BASE_COLORS.map(([key, label]) => (
+              <label key={key} className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+                <ColorInput value={draft[key]} title={label} onChange={(color) => edit(t => ({ ...t, [key]: color }))} />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Fill / Accent</span>
+            {THEME_ROLES.map(role => (
+              <div key={role} className="flex items-center gap-2 text-sm text-slate-600">
+                <ColorInput value={draft.fills[role]} title={`${role} fill`} onChange={(color) => setRoleColor('fills', role, color)} />
+                <ColorInput value={draft.accents[role]} title={`${role} accent`} onChange={(color) => setRoleColor('accents', role, color)} />
+                <span className="capitalize">{role}</span>
+              </div>
+            ))}
+          </div>
+
+          <Field label="Font">
+            <select
+              value={draft.fontFamily}
+              onChange={(e) => edit(t => ({ ...t, fontFamily: e.target.value }))}
+              className={inputClass}
+            >
+              {THEME_FONTS.map(font => <option key={font.family} value={font.family}>{font.label}</option>)}
+            </select>
+          </Field>
+
+          <Field label={`Roughness (${draft.roughness.toFixed(1)})`} hint="0 draws clean lines; higher values look more hand-drawn.">
+            <input
+              type="range"
+              min={0}
+              max={3}
+              step={0.1}
+              value={draft.roughness}
+              onChange={(e) => edit(t => ({ ...t, roughness: Number(e.target.value) }))}
+              className="w-full"
+            />
+          </Field>
+        </div>
+      )}
+
+      <div className="mt-auto flex justify-end gap-3">
+        <button onClick={onCancel} className="flex items-center gap-2 px-5 py-2.5 rounded-full text-sm font-bold text-slate-500 hover:bg-slate-100 transition-colors">
+          <X size={16} />
+          Cancel
+        </button>
+        <button
+          onClick={() => onApply(draft)}
+          className="flex items-center gap-2 px-5 py-2.5 rounded-full text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 active:scale-95 transition-all"
+        >
+          <Check size={16} />
+          Apply Theme
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ThemePanel;
@@ -0,0 +1,74 @@
+import React, { useEffect, useReducer } from 'react';
+import { Play, Pause } from 'lucide-react';
+import { SketchCanvasHandle } from './SketchCanvas';
+
+interface TimelineScrubberProps {
+  canvasRef: React.RefObject<SketchCanvasHandle | null>;
+  disabled?: boolean;
+}
+
+const RATES = [0.5, 1, 1.5, 2];
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// Reads the clock straight from the canvas handle. It subscribes itself so that only this bar
+// re-renders on every animation frame, not the whole app.
+const TimelineScrubber: React.FC<TimelineScrubberProps> = ({ canvasRef, disabled = false }) => {
+  const [, forceUpdate] = useReducer((n: number) => n + 1, 0);
+
+  useEffect(() => {
+    return canvasRef.current?.subscribe(forceUpdate);
+  }, [canvasRef]);
+
+  const handle = canvasRef.current;
+  const time = handle?.getTime() ?? 0;
+  const duration = handle?.getDuration() ?? 0;
+  const rate = handle?.getRate() ?? 1;
+  const playing = handle?.isPlaying() ?? false;
+
+  return (
+    <div className="w-full max-w-[800px] flex items-center gap-3 bg-white px-3 py-2 rounded-2xl border border-slate-200 shadow-sm">
+      <button
+        onClick={() => (playing ? handle?.pause() : handle?.play())}
+        disabled={disabled}
+        className="shrink-0 w-8 h-8 flex items-center justify-center rounded-xl text-slate-600 hover:bg-slate-100 hover:text-slate-900 transition-colors disabled:opacity-40"
+        title={playing ? 'Pause' : 'Play'}
+      >
+        {playing ? <Pause size={18} /> : <Play size={18} />}
+      </button>
+
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={1}
+        value={time}
+        disabled={disabled || duration === 0}
+        onChange={(e) => {
+          handle?.pause();
+          handle?.seek(Number(e.target.value));
+        }}
+        className="flex-1 accent-blue-600"
+        aria-label="Animation position"
+      />
+
+      <span className="shrink-0 font-mono text-xs font-bold text-slate-400 tabular-nums">
+        {formatTime(time)} / {formatTime(duration)}
+      </span>
+
+      <select
+        value={rate}
+        disabled={disabled}
+        onChange={(e) => handle?.setRate(Number(e.target.value))}
+        className="shrink-0 h-8 px-2 rounded-lg border border-slate-200 bg-slate-50 text-xs font-bold text-slate-600 outline-none"
+        title="Playback speed"
+      >
+        {RATES.map(r => (
+          <option key={r} value={r}>{r}x</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default TimelineScrubber;
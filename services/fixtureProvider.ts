@@ -0,0 +1,175 @@
+import { CanvasSize, ModelProvider, SceneElement, SketchResponse, SketchStep, StepFormat, StoryboardPatch } from '../types';
+import { bytesToBase64 } from '../utils/audio';
+import { getCanvasScale, LEGACY_CANVAS } from '../utils/canvasSize';
+import { sceneToCode } from '../utils/sceneInterpreter';
+import { hashSeed } from '../utils/seed';
+import { StepCallback } from './streaming';
+
+// Canned storyboard for offline demos and UI work. No network, no randomness:
+// the same query always produces the same steps, and speech is silence sized to the text.
+
+interface FixtureStep {
+  title: string;
+  description: string;
+  elements: SceneElement[];
+}
+
+const box = (id: string, x: number, y: number, label: string, fill: string): SceneElement[] => [
+  { id: `${id}-box`, type: 'shape', shape: 'rectangle', x, y, width: 160, height: 90, options: { fill, fillStyle: 'solid' } },
+  { id: `${id}-label`, type: 'text', text: label, x: x + 80, y: y + 45, options: { size: 24 } }
+];
+
+const buildFixture = (query: string): FixtureStep[] => [
+  {
+    title: "The Question",
+    description: `We start with the question: ${query}. Let's break it into its main parts.`,
+    elements: [
+      { id: 'title', type: 'text', text: query, x: 400, y: 80, options: { size: 28 } },
+      ...box('input', 120, 250, 'Input', 'primary')
+    ]
+  },
+  {
+    title: "Processing",
+    description: "The input is handed to a processing stage, which does the actual work.",
+    elements: [
+      ...box('input', 120, 250, 'Input', 'primary'),
+      ...box('process', 320, 250, 'Process', 'warning'),
+      { id: 'input-to-process', type: 'arrow', x1: 285, y1: 295, x2: 315, y2: 295, options: {} }
+    ]
+  },
+  {
+    title: "The Result",
+    description: "Finally the processed data comes out the other side as a result we can use.",
+    elements: [
+      ...box('input', 120, 250, 'Input', 'primary'),
+      ...box('process', 320, 250, 'Process', 'warning'),
+      ...box('output', 520, 250, 'Output', 'success'),
+      { id: 'input-to-process', type: 'arrow', x1: 285, y1: 295, x2: 315, y2: 295, options: {} },
+      { id: 'process-to-output', type: 'arrow', x1: 485, y1: 295, x2: 515, y2: 295, options: {} },
+      { id: 'done', type: 'curve', x1: 600, y1: 345, x2: 200, y2: 345, offset: -80, options: { arrow: true, color: 'success' } }
+    ]
+  }
+];
+
+const DEFAULT_TEXT_SIZE = 24;
+
+// The fixture is laid out for 800x600. Other canvases get it scaled up or down to fit and centered,
+// so nothing is cut off or stretched.
+const fitToCanvas = (elements: SceneElement[], canvas: CanvasSize): SceneElement[] => {
+  const scale = getCanvasScale(canvas);
+  const left = (canvas.width - LEGACY_CANVAS.width * scale) / 2;
+  const top = (canvas.height - LEGACY_CANVAS.height * scale) / 2;
+  const x = (value: number) => Math.round(left + value * scale);
+  const y = (value: number) => Math.round(top + value * scale);
+  const size = (value: number) => Math.round(value * scale);
+
+  return elements.map(el => {
+    switch (el.type) {
+      case 'shape':
+        return {
+          ...el,
+          ...(el.x !== undefined ? { x: x(el.x) } : {}),
+          ...(el.y !== undefined ? { y: y(el.y) } : {}),
+          ...(el.width !== undefined ? { width: size(el.width) } : {}),
+          ...(el.height !== undefined ? { height: size(el.height) } : {}),
+          ...(el.x2 !== undefined ? { x2: x(el.x2) } : {}),
+          ...(el.y2 !== undefined ? { y2: y(el.y2) } : {})
+        };
+      case 'arrow':
+        return { ...el, x1: x(el.x1), y1: y(el.y1), x2: x(el.x2), y2: y(el.y2) };
+      case 'curve':
+        return { ...el, x1: x(el.x1), y1: y(el.y1), x2: x(el.x2), y2: y(el.y2), offset: size(el.offset ?? 0) };
+      case 'text':
+        return { ...el, x: x(el.x), y: y(el.y), options: { ...el.options, size: size(el.options?.size ?? DEFAULT_TEXT_SIZE) } };
+    }
+  });
+};
+
+const toStep = (fixture: FixtureStep, format: StepFormat, canvas: CanvasSize): SketchStep => {
+  const scene = { elements: fitToCanvas(fixture.elements, canvas) };
+  const seed = hashSeed(fixture.title);
+  return format === 'scene'
+    ? { kind: 'scene', title: fixture.title, description: fixture.description, scene, seed }
+    : { kind: 'code', title: fixture.title, description: fixture.description, code: sceneToCode(scene), seed };
+};
+
+// Roughly speaking pace, so offline playback and exports still have believable timing
+const SECONDS_PER_WORD = 0.35;
+const SAMPLE_RATE = 24000;
+
+// Pause between streamed steps so the in-progress UI can be exercised offline
+const STREAM_STEP_DELAY_MS = 600;
+
+export const createFixtureProvider = (canvas: CanvasSize): ModelProvider => {
+  const generateStoryboard = async (query: string, format: StepFormat = 'code'): Promise<SketchResponse> => {
+    return { steps: buildFixture(query).map(step => toStep(step, format, canvas)) };
+  };
+
+  const streamStoryboard = async (query: string, format: StepFormat, onStep: StepCallback): Promise<SketchResponse> => {
+    const { steps } = await generateStoryboard(query, format);
+    for (let i = 0; i < steps.length; i++) {
+      await new Promise(resolve => setTimeout(resolve, STREAM_STEP_DELAY_MS));
+      onStep(steps[i], i);
+    }
+    return { steps };
+  };
+
+  // There's nothing to reroll offline, so the step comes back untouched
+  const regenerateStep = async (step: SketchStep): Promise<SketchStep> => step;
+
+  // Offline structure edits are mechanical: a split draws the first half, then everything;
+  // a merge draws both steps' elements on one canvas
+  const splitStep = async (step: SketchStep): Promise<SketchStep[]> => {
+    const sentences = step.description.match(/[^.!?]+[.!?]*\s*/g) || [step.description];
+    const half = Math.ceil(sentences.length / 2);
+    const parts = [sentences.slice(0, half).join('').trim(), sentences.slice(half).join('').trim() || step.description];
+
+    return parts.map((description, i) => {
+      const title = `${step.title} (${i + 1}/2)`;
+      const base = { title, description, seed: hashSeed(title) };
+      if (step.kind === 'scene') {
+        const elements = step.scene.elements;
+        return { ...base, kind: 'scene', scene: { elements: i === 0 ? elements.slice(0, Math.ceil(elements.length / 2)) : elements } };
+      }
+      const lines = step.code.split('\n');
+      return { ...base, kind: 'code', code: i === 0 ? lines.slice(0, Math.ceil(lines.length / 2)).join('\n') : step.code };
+    });
+  };
+
+  const mergeSteps = async (first: SketchStep, second: SketchStep): Promise<SketchStep> => {
+    const title = `${first.title} & ${second.title}`;
+    const base = { title, description: `${first.description} ${second.description}`.trim(), seed: hashSeed(title) };
+    if (first.kind === 'scene' && second.kind === 'scene') {
+      const ids = new Set(first.scene.elements.map(el => el.id));
+      return { ...base, kind: 'scene', scene: { elements: [...first.scene.elements, ...second.scene.elements.filter(el => !ids.has(el.id))] } };
+    }
+    // Each half keeps its own block, so both can declare the same variable names
+    const toBlock = (step: SketchStep) => `{\n${step.kind === 'scene' ? sceneToCode(step.scene) : step.code}\n}`;
+    return { ...base, kind: 'code', code: `${toBlock(first)}\n${toBlock(second)}` };
+  };
+
+  // Offline there is no model to follow the instruction, so the patch just appends a recap step quoting it
+  const refineStoryboard = async (query: string, steps: SketchStep[], instruction: string): Promise<StoryboardPatch> => {
+    const recap: FixtureStep = {
+      title: "Recap",
+      description: `To wrap up ${query}: ${instruction}`,
+      elements: [
+        { id: 'recap-title', type: 'text', text: 'Recap', x: 400, y: 120, options: { size: 28 } },
+        { id: 'recap-note', type: 'text', text: instruction, x: 400, y: 300, options: { size: 24, color: 'primary' } }
+      ]
+    };
+    const format: StepFormat = steps[0]?.kind === 'scene' ? 'scene' : 'code';
+    return {
+      summary: "Offline demo: added a recap step with your request.",
+      changes: [{ action: 'add', after: steps.length - 1, step: toStep(recap, format, canvas) }]
+    };
+  };
+
+  const generateSpeech = async (text: string): Promise<string> => {
+    const words = text.trim().split(/\s+/).length;
+    const samples = Math.ceil(words * SECONDS_PER_WORD * SAMPLE_RATE);
+    return bytesToBase64(new Uint8Array(samples * 2));
+  };
+
+  return { generateStoryboard, streamStoryboard, regenerateStep, splitStep, mergeSteps, refineStoryboard, generateSpeech };
+};
@@ -1,9 +1,11 @@
 import { GoogleGenAI, Type, Schema, Modality } from "@google/genai";
-import { SketchResponse } from '../types';
+import { CanvasSize, ModelProvider, ProviderSettings, RegenerateContext, SketchResponse, SketchStep, StepFormat, StoryboardPatch } from '../types';
+import { applySingleStepJson, buildMergePrompt, buildRefinePrompt, buildRegeneratePrompt, buildSplitPrompt, buildStoryboardPrompt, expectSteps, getSystemPrompt, toSketchSteps, toStoryboardPatch } from './prompts';
+import { withRetry } from './retry';
+import { LEGACY_CANVAS } from '../utils/canvasSize';
+import { collectStreamedSteps, StepCallback } from './streaming';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const RESPONSE_SCHEMA: Schema = {
+const buildResponseSchema = (canvas: CanvasSize): Schema => ({
   type: Type.OBJECT,
   properties: {
     steps: {
@@ -15,197 +17,291 @@ const RESPONSE_SCHEMA: Schema = {
           description: { type: Type.STRING, description: "A clear, concise explanation of what is happening in this step." },
           code: { 
             type: Type.STRING, 
-            description: "Executable JavaScript code using 'rc' (RoughCanvas), 'drawArrow', 'drawCurve', and 'drawText'. Do not include markdown blocks. Assume 800x600 canvas." 
+            description: `Executable JavaScript code using 'rc' (RoughCanvas), 'drawArrow', 'drawCurve', 'drawText', 'drawGraph', 'drawTable', 'drawBarChart', 'drawLineChart', 'drawFormula', 'drawIcon' and the persistent element calls 'drawElement', 'moveElement', 'fadeElement', 'highlightElement' and 'eraseElement'. Do not include markdown blocks. Assume ${canvas.width}x${canvas.height} canvas.`
           }
         },
         required: ["title", "description", "code"]
       }
     }
   }
+});
+
+// Scene variant: the model describes each step as data instead of code.
+// Shapes, arrows, curves and text share one flat element object since the schema can't express unions.
+const SCENE_ELEMENT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.STRING, description: "Unique, descriptive id within the step, e.g. 'server-box' or 'label-cache'" },
+    type: { type: Type.STRING, enum: ["shape", "arrow", "curve", "text"] },
+    shape: { type: Type.STRING, enum: ["rectangle", "circle", "ellipse", "line", "path"], description: "Only for type 'shape'" },
+    x: { type: Type.NUMBER, description: "Rectangle: left edge. Circle/Ellipse/Text: center. Line: start." },
+    y: { type: Type.NUMBER, description: "Rectangle: top edge. Circle/Ellipse/Text: center. Line: start." },
+    width: { type: Type.NUMBER, description: "Rectangle/Ellipse width, or circle diameter" },
+    height: { type: Type.NUMBER },
+    x1: { type: Type.NUMBER, description: "Arrow/Curve start" },
+    y1: { type: Type.NUMBER, description: "Arrow/Curve start" },
+    x2: { type: Type.NUMBER, description: "Arrow/Curve/Line end" },
+    y2: { type: Type.NUMBER, description: "Arrow/Curve/Line end" },
+    offset: { type: Type.NUMBER, description: "Curve bend, see drawCurve" },
+    d: { type: Type.STRING, description: "SVG path data for shape 'path'" },
+    text: { type: Type.STRING, description: "Label for type 'text'" },
+    options: {
+      type: Type.OBJECT,
+      properties: {
+        stroke: { type: Type.STRING, description: "Color name such as 'ink' or 'primary'" },
+        strokeWidth: { type: Type.NUMBER },
+        fill: { type: Type.STRING, description: "Color name such as 'primary' or 'highlight'" },
+        fillStyle: { type: Type.STRING, enum: ["hachure", "solid", "zigzag", "cross-hatch", "dots"] },
+        roughness: { type: Type.NUMBER },
+        color: { type: Type.STRING, description: "Arrow, curve and text color name, such as 'ink' or 'danger'" },
+        size: { type: Type.NUMBER, description: "Text size" },
+        maxWidth: { type: Type.NUMBER, description: "Wrap text between words to this width" },
+        maxHeight: { type: Type.NUMBER, description: "Shrink text (down to minSize) until it fits this height" },
+        minSize: { type: Type.NUMBER, description: "Smallest text size when shrinking to maxHeight" },
+        align: { type: Type.STRING, enum: ["center", "left", "right"], description: "Text alignment; x is the left or right edge for 'left' and 'right'" },
+        arrow: { type: Type.BOOLEAN, description: "Curve arrowhead" }
+      }
+    }
+  },
+  required: ["id", "type"]
 };
 
-const SYSTEM_PROMPT = `
-You are an expert technical illustrator and programmer. Your goal is to explain concepts by breaking them down into sequential visual steps that will be **ANIMATED** one by one.
-
-**Execution Environment:**
-The code you generate will be executed sequentially to create an animation. 
-Write code in the order it should appear (e.g., Draw Node A -> Draw Node B -> Draw Connection).
-
-**Parameters:**
-- 'rc': The rough.js canvas instance.
-- 'width': 800 (Canvas width).
-- 'height': 600 (Canvas height).
-- 'drawArrow(x1, y1, x2, y2, options)': Helper to draw a hand-drawn arrow.
-- 'drawCurve(x1, y1, x2, y2, offset, options)': Helper to draw a curved arrow/line.
-- 'drawText(text, x, y, options)': Helper to draw hand-written text centered at (x,y).
-
-**Available Tools:**
-1. **Rough.js Shapes (via 'rc')**:
-   - rc.rectangle(x, y, w, h, { fill: 'color', stroke: 'color', fillStyle: 'hachure'|'solid' })
-   - rc.circle(centerX, centerY, diameter, { ... })
-   - rc.ellipse(centerX, centerY, w, h, { ... })
-   - rc.line(x1, y1, x2, y2, { ... })
-   - rc.path(d, { ... }) 
-
-2. **Helpers**:
-   - **drawArrow(x1, y1, x2, y2, { color: 'black' })**: Straight arrow.
-   - **drawCurve(x1, y1, x2, y2, offset, { color: 'black', arrow: true })**: Curved line/arrow. 
-     - \`offset\`: number. Distance of control point from the midpoint. +ve curves one way, -ve the other. Use this to avoid overlaps!
-     - \`arrow\`: boolean. If true, draws an arrowhead at the end.
-   - **drawText(str, x, y, { color: 'black', size: 24 })**: Label text.
-
-**Visual & Layout Guidelines (CRITICAL):**
-
-1. **Syntax Safety (IMPORTANT)**:
-   - **ALWAYS use backticks (\`) for text arguments** in \`drawText\` to handle internal quotes and newlines safely.
-   - CORRECT: \`drawText(\`User's Data\`, 100, 100)\`
-   - INCORRECT: \`drawText("User's Data", 100, 100)\` (Syntax Error)
-
-2. **Layering & Visibility (CRITICAL)**:
-   - **Text is Priority**: Text must always be legible.
-   - **Background First**: ALWAYS draw container shapes (boxes, circles) **BEFORE** drawing the text inside them.
-   - **Highlighters**: If you are drawing a shape *over* existing text to highlight it (like in a matrix step), you **MUST** use a **transparent RGBA color** for the fill.
-     - **Good Highlight**: \`fill: 'rgba(255, 215, 0, 0.3)'\` (Yellow transparent), \`fill: 'rgba(100, 149, 237, 0.3)'\` (Blue transparent).
-     - **Bad Highlight**: \`fill: '#FFD700'\` (Solid opaque - WILL HIDE TEXT).
-   - **No Intersection**: Do not draw lines through text.
-
-3. **Spatial Layout & Overlap Prevention (CRITICAL)**:
-   - **Avoid Central Overlap**: When drawing a new main component (like a processor, LLM, or aggregation box), **NEVER** place it directly on top of previous input nodes.
-   - **Directional Flow**: Use a clear direction (e.g., Inputs on Top -> Processing in Middle -> Outputs on Bottom).
-   - **Safe Zones**: 
-     - If Inputs are at Y=100, place Processing at Y=300 or Y=400.
-     - If Inputs are on Left (X=100), place Processing on Right (X=500).
-   - **Example**: If you drew "Image Data" at (150, 150) in Step 1, do NOT draw the "LLM" box at (150, 150) in Step 2. Draw it at (400, 150) or (150, 400).
-
-4. **Prevent Overcrowding (SPLIT STEPS)**:
-   - **Rule**: If a diagram requires more than 5 distinct nodes or complex connections, **SPLIT IT** into multiple steps.
-   - Better to have 3 simple steps than 1 messy step.
-
-5. **Animation & Storytelling**:
-   - Group related drawing commands together.
-   - Example: Draw Box -> Label Box -> Draw Arrow.
-
-6. **Styling**:
-   - **Base Fills**: '#e0f2fe' (light blue), '#fef3c7' (light yellow), '#dcfce7' (light green), '#fee2e2' (light red).
-   - **Highlight Fills**: 'rgba(255, 200, 0, 0.3)' (Gold), 'rgba(0, 200, 255, 0.2)' (Cyan).
-   - Text Size: Title=28, Label=24, Note=18.
-
-**Example Code:**
-// 1. Draw Background
-rc.rectangle(100, 200, 150, 100, { fill: '#e0f2fe', fillStyle: 'solid' });
-
-// 2. Draw Text (On Top)
-drawText(\`Server\`, 175, 250, { size: 24 });
-
-// 3. Highlight Logic (Transparent)
-rc.rectangle(100, 200, 150, 50, { fill: 'rgba(255, 255, 0, 0.3)', fillStyle: 'solid', stroke: 'none' });
-drawText(\`Active\`, 175, 225, { size: 16, color: '#b45309' });
-`;
-
-// --- HELPER: Retry Logic for Rate Limits ---
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-async function withRetry<T>(fn: () => Promise<T>, retries = 3, backoff = 2000): Promise<T> {
-  try {
-    return await fn();
-  } catch (error: any) {
-    const isRateLimit = error?.status === 429 || error?.code === 429 || error?.message?.includes('429');
-    const isServiceUnavailable = error?.status === 503 || error?.code === 503;
-    
-    if (retries > 0 && (isRateLimit || isServiceUnavailable)) {
-      console.warn(`API Rate limit or Service Unavailable. Retrying in ${backoff}ms... (Retries left: ${retries})`);
-      await delay(backoff);
-      return withRetry(fn, retries - 1, backoff * 2);
+const buildSceneResponseSchema = (canvas: CanvasSize): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    steps: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING, description: "A short 2-5 word title for this step" },
+          description: { type: Type.STRING, description: "A clear, concise explanation of what is happening in this step." },
+          scene: {
+            type: Type.OBJECT,
+            properties: {
+              elements: { type: Type.ARRAY, items: SCENE_ELEMENT_SCHEMA, description: `Drawn in order. Assume ${canvas.width}x${canvas.height} canvas.` }
+            },
+            required: ["elements"]
+          }
+        },
+        required: ["title", "description", "scene"]
+      }
     }
-    throw error;
   }
-}
-
-export const generateSketchSteps = async (query: string): Promise<SketchResponse> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Explain visually: ${query}`,
-      config: {
-        systemInstruction: SYSTEM_PROMPT,
-        responseMimeType: "application/json",
-        responseSchema: RESPONSE_SCHEMA,
-      }
-    });
+});
 
-    const text = response.text;
-    if (!text) throw new Error("No response from AI");
+const CODE_STEP_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    code: {
+      type: Type.STRING,
+      description: "Executable JavaScript code using 'rc', 'drawArrow', 'drawCurve', 'drawText', 'drawGraph', 'drawTable', 'drawBarChart', 'drawLineChart', 'drawFormula', 'drawIcon', 'drawElement', 'moveElement', 'fadeElement', 'highlightElement' and 'eraseElement'."
+    }
+  },
+  required: ["code"]
+};
 
-    return JSON.parse(text) as SketchResponse;
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw error;
-  }
+const SCENE_STEP_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    elements: { type: Type.ARRAY, items: SCENE_ELEMENT_SCHEMA }
+  },
+  required: ["elements"]
 };
 
-export const regenerateSingleStep = async (title: string, description: string): Promise<string> => {
-  return withRetry(async () => {
-    try {
-      const SINGLE_STEP_SCHEMA: Schema = {
+// Refinement answers with a patch: only the steps that change, and only their changed fields
+const buildRefineSchema = (drawing: Record<string, Schema>): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: "One sentence describing what was changed" },
+    changes: {
+      type: Type.ARRAY,
+      items: {
         type: Type.OBJECT,
         properties: {
-          code: {
-            type: Type.STRING,
-            description: "Executable JavaScript code using 'rc', 'drawArrow', 'drawCurve', and 'drawText'."
-          }
+          action: { type: Type.STRING, enum: ["modify", "add", "remove"] },
+          step: { type: Type.NUMBER, description: "Step number in the current storyboard; for 'add', the step the new one goes after (0 for the start)" },
+          title: { type: Type.STRING },
+          description: { type: Type.STRING },
+          ...drawing
         },
-        required: ["code"]
-      };
+        required: ["action", "step"]
+      }
+    }
+  },
+  required: ["summary", "changes"]
+});
 
+const REFINE_SCHEMA = buildRefineSchema({ code: CODE_STEP_SCHEMA.properties!.code });
+const SCENE_REFINE_SCHEMA = buildRefineSchema({ scene: SCENE_STEP_SCHEMA });
+
+// Steps are generated for `canvas`, the size the storyboard will be drawn at
+export const createGeminiProvider = (settings: ProviderSettings, canvas: CanvasSize = LEGACY_CANVAS): ModelProvider => {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+  const RESPONSE_SCHEMA = buildResponseSchema(canvas);
+  const SCENE_RESPONSE_SCHEMA = buildSceneResponseSchema(canvas);
+
+  const generateStoryboard = async (query: string, format: StepFormat = 'code'): Promise<SketchResponse> => {
+    try {
       const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: `Redraw the following step for a visual guide.
-        Title: ${title}
-        Description: ${description}
-        
-        Generate the Rough.js code to visualize this specific step.`,
+        model: settings.model,
+        contents: buildStoryboardPrompt(query),
         config: {
-          systemInstruction: SYSTEM_PROMPT,
+          systemInstruction: getSystemPrompt(format, canvas),
           responseMimeType: "application/json",
-          responseSchema: SINGLE_STEP_SCHEMA,
+          responseSchema: format === 'scene' ? SCENE_RESPONSE_SCHEMA : RESPONSE_SCHEMA,
         }
       });
 
       const text = response.text;
       if (!text) throw new Error("No response from AI");
-      
+
       const json = JSON.parse(text);
-      return json.code;
+      return { steps: toSketchSteps(Array.isArray(json?.steps) ? json.steps : [], format) };
     } catch (error) {
-      console.error("Gemini API Error (Regenerate):", error);
+      console.error("Gemini API Error:", error);
       throw error;
     }
-  });
-};
+  };
 
-export const generateSpeech = async (text: string): Promise<string> => {
-  return withRetry(async () => {
+  const streamStoryboard = async (query: string, format: StepFormat, onStep: StepCallback): Promise<SketchResponse> => {
     try {
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text }] }],
+      const stream = await ai.models.generateContentStream({
+        model: settings.model,
+        contents: buildStoryboardPrompt(query),
         config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: 'Kore' },
-            },
-          },
-        },
+          systemInstruction: getSystemPrompt(format, canvas),
+          responseMimeType: "application/json",
+          responseSchema: format === 'scene' ? SCENE_RESPONSE_SCHEMA : RESPONSE_SCHEMA,
+        }
       });
-      
-      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (!base64Audio) throw new Error("No audio data generated");
-      
-      return base64Audio;
+
+      const textChunks = async function* () {
+        for await (const chunk of stream) {
+          if (chunk.text) yield chunk.text;
+        }
+      };
+
+      return await collectStreamedSteps(textChunks(), format, onStep);
     } catch (error) {
-       console.error("TTS Error", error);
-       throw error;
+      console.error("Gemini API Error (Stream):", error);
+      throw error;
     }
-  }, 2, 2000); // 2 retries starting with 2s backoff
-};
\ No newline at end of file
+  };
+
+  // Redraws a step in its own format and returns the updated step
+  const regenerateStep = async (step: SketchStep, context?: RegenerateContext): Promise<SketchStep> => {
+    const format: StepFormat = step.kind === 'scene' ? 'scene' : 'code';
+
+    return withRetry(async () => {
+      try {
+        const response = await ai.models.generateContent({
+          model: settings.model,
+          contents: buildRegeneratePrompt(step, context),
+          config: {
+            systemInstruction: getSystemPrompt(format, canvas),
+            responseMimeType: "application/json",
+            responseSchema: format === 'scene' ? SCENE_STEP_SCHEMA : CODE_STEP_SCHEMA,
+          }
+        });
+
+        const text = response.text;
+        if (!text) throw new Error("No response from AI");
+
+        return applySingleStepJson(step, JSON.parse(text));
+      } catch (error) {
+        console.error("Gemini API Error (Regenerate):", error);
+        throw error;
+      }
+    });
+  };
+
+  // Split and merge answer with whole steps, in the same shape as a storyboard
+  const generateSteps = async (prompt: string, format: StepFormat, count: number, label: string): Promise<SketchStep[]> => {
+    return withRetry(async () => {
+      try {
+        const response = await ai.models.generateContent({
+          model: settings.model,
+          contents: prompt,
+          config: {
+            systemInstruction: getSystemPrompt(format, canvas),
+            responseMimeType: "application/json",
+            responseSchema: format === 'scene' ? SCENE_RESPONSE_SCHEMA : RESPONSE_SCHEMA,
+          }
+        });
+
+        const text = response.text;
+        if (!text) throw new Error("No response from AI");
+
+        return expectSteps(JSON.parse(text), format, count);
+      } catch (error) {
+        console.error(`Gemini API Error (${label}):`, error);
+        throw error;
+      }
+    });
+  };
+
+  const splitStep = async (step: SketchStep): Promise<SketchStep[]> => {
+    return generateSteps(buildSplitPrompt(step), step.kind ?? 'code', 2, 'Split');
+  };
+
+  const mergeSteps = async (first: SketchStep, second: SketchStep): Promise<SketchStep> => {
+    const [merged] = await generateSteps(buildMergePrompt(first, second), first.kind ?? 'code', 1, 'Merge');
+    return merged;
+  };
+
+  const refineStoryboard = async (query: string, steps: SketchStep[], instruction: string, earlier: string[]): Promise<StoryboardPatch> => {
+    const format: StepFormat = steps[0]?.kind === 'scene' ? 'scene' : 'code';
+
+    return withRetry(async () => {
+      try {
+        const response = await ai.models.generateContent({
+          model: settings.model,
+          contents: buildRefinePrompt(query, steps, instruction, earlier),
+          config: {
+            systemInstruction: getSystemPrompt(format, canvas),
+            responseMimeType: "application/json",
+            responseSchema: format === 'scene' ? SCENE_REFINE_SCHEMA : REFINE_SCHEMA,
+          }
+        });
+
+        const text = response.text;
+        if (!text) throw new Error("No response from AI");
+
+        return toStoryboardPatch(JSON.parse(text), format);
+      } catch (error) {
+        console.error("Gemini API Error (Refine):", error);
+        throw error;
+      }
+    });
+  };
+
+  const generateSpeech = async (text: string): Promise<string> => {
+    return withRetry(async () => {
+      try {
+        const response = await ai.models.generateContent({
+          model: settings.speechModel,
+          contents: [{ parts: [{ text }] }],
+          config: {
+            responseModalities: [Modality.AUDIO],
+            speechConfig: {
+              voiceConfig: {
+                prebuiltVoiceConfig: { voiceName: settings.voice },
+              },
+            },
+          },
+        });
+
+        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        if (!base64Audio) throw new Error("No audio data generated");
+
+        return base64Audio;
+      } catch (error) {
+         console.error("TTS Error", error);
+         throw error;
+      }
+    }, 2, 2000); // 2 retries starting with 2s backoff
+  };
+
+  return { generateStoryboard, streamStoryboard, regenerateStep, splitStep, mergeSteps, refineStoryboard, generateSpeech };
+};
@@ -0,0 +1,53 @@
+import { CanvasSize, ModelProvider, ProviderId, ProviderSettings } from '../types';
+import { createGeminiProvider } from './geminiService';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createFixtureProvider } from './fixtureProvider';
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible',
+  fixture: 'Offline demo'
+};
+
+// Sensible starting values when the user switches provider in the settings panel
+export const PROVIDER_DEFAULTS: Record<ProviderId, ProviderSettings> = {
+  gemini: {
+    provider: 'gemini',
+    model: 'gemini-2.5-flash',
+    speechModel: 'gemini-2.5-flash-preview-tts',
+    voice: 'Kore',
+    baseUrl: '',
+    apiKey: ''
+  },
+  openai: {
+    provider: 'openai',
+    model: 'llama3.1',
+    speechModel: 'tts-1',
+    voice: 'alloy',
+    baseUrl: 'http://localhost:11434/v1', // Ollama's OpenAI-compatible endpoint
+    apiKey: ''
+  },
+  fixture: {
+    provider: 'fixture',
+    model: 'fixture',
+    speechModel: 'silence',
+    voice: '',
+    baseUrl: '',
+    apiKey: ''
+  }
+};
+
+export const DEFAULT_PROVIDER_SETTINGS = PROVIDER_DEFAULTS.gemini;
+
+// Steps are generated for `canvas`
+export const createProvider = (settings: ProviderSettings, canvas: CanvasSize): ModelProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(settings, canvas);
+    case 'fixture':
+      return createFixtureProvider(canvas);
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings, canvas);
+  }
+};
@@ -0,0 +1,214 @@
+import { CanvasSize, ModelProvider, ProviderSettings, RegenerateContext, SketchResponse, SketchStep, StepFormat, StoryboardPatch } from '../types';
+import { bytesToBase64 } from '../utils/audio';
+import { LEGACY_CANVAS } from '../utils/canvasSize';
+import {
+  applySingleStepJson,
+  buildMergePrompt,
+  buildRefinePrompt,
+  buildRegeneratePrompt,
+  buildSplitPrompt,
+  buildStoryboardPrompt,
+  describeSingleStepJson,
+  describeRefineJson,
+  describeStoryboardJson,
+  expectSteps,
+  getSystemPrompt,
+  parseModelJson,
+  toSketchSteps,
+  toStoryboardPatch
+} from './prompts';
+import { withRetry } from './retry';
+import { collectStreamedSteps, StepCallback } from './streaming';
+
+// Errors carry the HTTP status so withRetry and the audio quota check can recognise 429/503
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// Talks to anything that implements the OpenAI REST API: OpenAI itself, llama.cpp's server, Ollama, vLLM...
+export const createOpenAICompatibleProvider = (settings: ProviderSettings, canvas: CanvasSize = LEGACY_CANVAS): ModelProvider => {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, body: unknown): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new HttpError(response.status, `${response.status} ${response.statusText} ${detail}`.trim());
+    }
+    return response;
+  };
+
+  // The text delta carried by one server-sent event line (`data: {...}`), or null for `data: [DONE]`,
+  // keep-alives and proxy comments that aren't JSON
+  const parseDeltaLine = (line: string): string | null => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return null;
+
+    const data = trimmed.slice('data:'.length).trim();
+    if (data === '[DONE]') return null;
+
+    try {
+      return JSON.parse(data)?.choices?.[0]?.delta?.content || null;
+    } catch {
+      console.warn("Skipping a stream line that is not JSON:", data);
+      return null;
+    }
+  };
+
+  const streamDeltas = async function* (response: Response) {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      pending += decoder.decode(value, { stream: true });
+      const lines = pending.split('\n');
+      pending = lines.pop() || '';
+
+      for (const line of lines) {
+        const delta = parseDeltaLine(line);
+        if (delta) yield delta;
+      }
+    }
+
+    // The last chunk may end without a newline
+    const delta = parseDeltaLine(pending + decoder.decode());
+    if (delta) yield delta;
+  };
+
+  const complete = async (system: string, user: string): Promise<any> => {
+    const response = await request('/chat/completions', {
+      model: settings.model,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: user }
+      ],
+      response_format: { type: 'json_object' }
+    });
+
+    const data = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+    if (!text) throw new Error("No response from AI");
+
+    return parseModelJson(text);
+  };
+
+  const generateStoryboard = async (query: string, format: StepFormat = 'code'): Promise<SketchResponse> => {
+    try {
+      const json = await complete(getSystemPrompt(format, canvas), `${buildStoryboardPrompt(query)}\n\n${describeStoryboardJson(format)}`);
+      return { steps: toSketchSteps(Array.isArray(json?.steps) ? json.steps : [], format) };
+    } catch (error) {
+      console.error("OpenAI-compatible API Error:", error);
+      throw error;
+    }
+  };
+
+  const streamStoryboard = async (query: string, format: StepFormat, onStep: StepCallback): Promise<SketchResponse> => {
+    try {
+      const response = await request('/chat/completions', {
+        model: settings.model,
+        messages: [
+          { role: 'system', content: getSystemPrompt(format, canvas) },
+          { role: 'user', content: `${buildStoryboardPrompt(query)}\n\n${describeStoryboardJson(format)}` }
+        ],
+        response_format: { type: 'json_object' },
+        stream: true
+      });
+
+      return await collectStreamedSteps(streamDeltas(response), format, onStep);
+    } catch (error) {
+      console.error("OpenAI-compatible API Error (Stream):", error);
+      throw error;
+    }
+  };
+
+  const regenerateStep = async (step: SketchStep, context?: RegenerateContext): Promise<SketchStep> => {
+    const format: StepFormat = step.kind === 'scene' ? 'scene' : 'code';
+
+    return withRetry(async () => {
+      try {
+        const json = await complete(getSystemPrompt(format, canvas), `${buildRegeneratePrompt(step, context)}\n\n${describeSingleStepJson(format)}`);
+        return applySingleStepJson(step, json);
+      } catch (error) {
+        console.error("OpenAI-compatible API Error (Regenerate):", error);
+        throw error;
+      }
+    });
+  };
+
+  const generateSteps = async (prompt: string, format: StepFormat, count: number, label: string): Promise<SketchStep[]> => {
+    return withRetry(async () => {
+      try {
+        const json = await complete(getSystemPrompt(format, canvas), `${prompt}\n\n${describeStoryboardJson(format)}`);
+        return expectSteps(json, format, count);
+      } catch (error) {
+        console.error(`OpenAI-compatible API Error (${label}):`, error);
+        throw error;
+      }
+    });
+  };
+
+  const splitStep = async (step: SketchStep): Promise<SketchStep[]> => {
+    return generateSteps(buildSplitPrompt(step), step.kind ?? 'code', 2, 'Split');
+  };
+
+  const mergeSteps = async (first: SketchStep, second: SketchStep): Promise<SketchStep> => {
+    const [merged] = await generateSteps(buildMergePrompt(first, second), first.kind ?? 'code', 1, 'Merge');
+    return merged;
+  };
+
+  const refineStoryboard = async (query: string, steps: SketchStep[], instruction: string, earlier: string[]): Promise<StoryboardPatch> => {
+    const format: StepFormat = steps[0]?.kind === 'scene' ? 'scene' : 'code';
+
+    return withRetry(async () => {
+      try {
+        const prompt = `${buildRefinePrompt(query, steps, instruction, earlier)}\n\n${describeRefineJson(format)}`;
+        return toStoryboardPatch(await complete(getSystemPrompt(format, canvas), prompt), format);
+      } catch (error) {
+        console.error("OpenAI-compatible API Error (Refine):", error);
+        throw error;
+      }
+    });
+  };
+
+  // 'pcm' is raw 16-bit mono at 24kHz, the same format Gemini TTS returns
+  const generateSpeech = async (text: string): Promise<string> => {
+    return withRetry(async () => {
+      try {
+        const response = await request('/audio/speech', {
+          model: settings.speechModel,
+          voice: settings.voice,
+          input: text,
+          response_format: 'pcm'
+        });
+
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        if (bytes.length === 0) throw new Error("No audio data generated");
+
+        return bytesToBase64(bytes);
+      } catch (error) {
+        console.error("TTS Error", error);
+        throw error;
+      }
+    }, 2, 2000);
+  };
+
+  return { generateStoryboard, streamStoryboard, regenerateStep, splitStep, mergeSteps, refineStoryboard, generateSpeech };
+};
@@ -0,0 +1,200 @@
+import { CanvasSize, SketchStep, Theme } from '../types';
+import { NarrationVoice } from '../utils/audio';
+import { getStoryboardCanvas, isCanvasSize, LEGACY_CANVAS, MAX_CANVAS_SIDE } from '../utils/canvasSize';
+import { validateScene } from '../utils/sceneInterpreter';
+import { DEFAULT_THEME, getStoryboardTheme, isTheme } from '../utils/themes';
+import { withSeed } from '../utils/seed';
+
+// --- Project Files ---
+// A `.sketchy.json` file is a self-contained storyboard that can be shared or kept in git.
+// Every file carries a version, and older shapes (including bare HistoryItems) are migrated forward on import.
+
+export const PROJECT_FILE_EXTENSION = '.sketchy.json';
+export const PROJECT_FORMAT = 'sketchy-project';
+// v2 added the canvas size; v1 files were all drawn at 800x600
+// v3 added the theme; older files were all drawn on the whiteboard
+export const PROJECT_VERSION = 3;
+
+// Imported clips are stored under the voice they were spoken with, so they play when that voice is selected
+export interface ProjectNarration {
+  voice: NarrationVoice;
+  // Base64 PCM (16-bit, 24kHz mono) per step, null where a step has no narration
+  clips: Array<string | null>;
+}
+
+export interface SketchyProject {
+  format: typeof PROJECT_FORMAT;
+  version: typeof PROJECT_VERSION;
+  query: string;
+  createdAt: number;
+  // The size the steps are drawn at, passed to step code as width/height
+  canvas: CanvasSize;
+  // Colors, font and roughness the steps are rendered with
+  theme: Theme;
+  steps: SketchStep[];
+  narration?: ProjectNarration;
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+export const createProject = (
+  query: string,
+  steps: SketchStep[],
+  createdAt: number,
+  canvas: CanvasSize,
+  theme: Theme,
+  narration?: ProjectNarration
+): SketchyProject => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  query,
+  createdAt,
+  canvas: { width: canvas.width, height: canvas.height },
+  theme,
+  // Seeds are always written out, so the file renders identically wherever it is opened
+  steps: steps.map(withSeed),
+  ...(narration ? { narration } : {})
+});
+
+export const serializeProject = (project: SketchyProject): Blob =>
+  new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' });
+
+export const getProjectFilename = (query: string) => {
+  const slug = query.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'storyboard';
+  return `${slug}${PROJECT_FILE_EXTENSION}`;
+};
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateStep = (raw: unknown, index: number): SketchStep => {
+  const label = `Step ${index + 1}`;
+  if (!isObject(raw)) throw new ProjectFileError(`${label} is not an object`);
+
+  if (typeof raw.title !== 'string') throw new ProjectFileError(`${label} is missing its title`);
+  if (typeof raw.description !== 'string') throw new ProjectFileError(`${label} is missing its description`);
+  if (raw.seed !== undefined && (!Number.isInteger(raw.seed) || raw.seed <= 0)) {
+    throw new ProjectFileError(`${label} has an invalid seed (expected a positive integer)`);
+  }
+
+  const base = { title: raw.title, description: raw.description, ...(raw.seed ? { seed: raw.seed } : {}) };
+
+  if (raw.kind === 'scene') {
+    const errors = validateScene(raw.scene);
+    if (errors.length > 0) {
+      throw new ProjectFileError(`${label} has an invalid scene: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? '; …' : ''}`);
+    }
+    return withSeed({ ...base, kind: 'scene', scene: raw.scene });
+  }
+
+  // Steps saved before formats existed have no kind and are always code
+  if (raw.kind !== undefined && raw.kind !== 'code') {
+    throw new ProjectFileError(`${label} has unknown kind '${raw.kind}'`);
+  }
+  if (typeof raw.code !== 'string') throw new ProjectFileError(`${label} is missing its code`);
+  return withSeed({ ...base, kind: 'code', code: raw.code });
+};
+
+const validateSteps = (raw: unknown): SketchStep[] => {
+  if (!Array.isArray(raw)) throw new ProjectFileError("The file has no 'steps' list");
+  if (raw.length === 0) throw new ProjectFileError("The storyboard has no steps");
+  return raw.map(validateStep);
+};
+
+const validateNarration = (raw: unknown, stepCount: number): ProjectNarration | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw) || !isObject(raw.voice) || !Array.isArray(raw.clips)) {
+    throw new ProjectFileError("The narration section is malformed");
+  }
+  const { provider, speechModel, voice } = raw.voice;
+  if (typeof provider !== 'string' || typeof speechModel !== 'string' || typeof voice !== 'string') {
+    throw new ProjectFileError("The narration voice is malformed");
+  }
+  if (raw.clips.length !== stepCount || raw.clips.some(clip => clip !== null && typeof clip !== 'string')) {
+    throw new ProjectFileError("The narration needs exactly one clip (or null) per step");
+  }
+  return { voice: { provider, speechModel, voice } as NarrationVoice, clips: raw.clips };
+};
+
+const validateCanvas = (raw: unknown): CanvasSize => {
+  if (!isCanvasSize(raw) || raw.width > MAX_CANVAS_SIDE || raw.height > MAX_CANVAS_SIDE) {
+    throw new ProjectFileError(`The canvas size is invalid (expected whole-number width and height up to ${MAX_CANVAS_SIDE})`);
+  }
+  return { width: raw.width, height: raw.height };
+};
+
+const validateTheme = (raw: unknown): Theme => {
+  if (!isTheme(raw)) throw new ProjectFileError("The theme is invalid");
+  return raw;
+};
+
+// --- Migration ---
+
+// Pre-project-file storyboards: a HistoryItem copied out of the app's storage
+const migrateHistoryItem = (item: Record<string, any>): SketchyProject => {
+  if (typeof item.query !== 'string') throw new ProjectFileError("The storyboard is missing its query");
+  const createdAt = typeof item.timestamp === 'number' ? item.timestamp : Date.now();
+  // Items saved before canvas presets have no size and were drawn at 800x600
+  const canvas = item.canvas === undefined ? getStoryboardCanvas(item) : validateCanvas(item.canvas);
+  const theme = item.theme === undefined ? getStoryboardTheme(item) : validateTheme(item.theme);
+  return createProject(item.query, validateSteps(item.steps), createdAt, canvas, theme);
+};
+
+const migrateProject = (raw: Record<string, any>): SketchyProject => {
+  if (!Number.isInteger(raw.version) || raw.version < 1) {
+    throw new ProjectFileError("The project file has no valid version");
+  }
+  if (raw.version > PROJECT_VERSION) {
+    throw new ProjectFileError(`This project was saved by a newer version of the app (file version ${raw.version}, supported up to ${PROJECT_VERSION})`);
+  }
+  if (typeof raw.query !== 'string') throw new ProjectFileError("The project is missing its query");
+
+  const steps = validateSteps(raw.steps);
+  const createdAt = typeof raw.createdAt === 'number' ? raw.createdAt : Date.now();
+  const canvas = raw.version < 2 ? LEGACY_CANVAS : validateCanvas(raw.canvas);
+  const theme = raw.version < 3 ? DEFAULT_THEME : validateTheme(raw.theme);
+  return createProject(raw.query, steps, createdAt, canvas, theme, validateNarration(raw.narration, steps.length));
+};
+
+// Accepts a project file, a bare HistoryItem, or a list of HistoryItems (the old storage format)
+export const parseProjectFile = (text: string): SketchyProject[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new ProjectFileError(`The file is not valid JSON (${(e as Error).message})`);
+  }
+
+  if (Array.isArray(raw)) {
+    if (raw.length === 0) throw new ProjectFileError("The file contains no storyboards");
+    return raw.map((item, i) => {
+      if (!isObject(item)) throw new ProjectFileError(`Storyboard ${i + 1} is not an object`);
+      try {
+        return migrateHistoryItem(item);
+      } catch (e) {
+        throw new ProjectFileError(`Storyboard ${i + 1}: ${(e as Error).message}`);
+      }
+    });
+  }
+
+  if (!isObject(raw)) throw new ProjectFileError("The file does not contain a storyboard");
+  if (raw.format === PROJECT_FORMAT) return [migrateProject(raw)];
+  if (raw.format !== undefined) throw new ProjectFileError(`Unknown file format '${raw.format}'`);
+  if ('steps' in raw) return [migrateHistoryItem(raw)];
+
+  throw new ProjectFileError("The file does not look like a Sketchy project");
+};
+
+export const readProjectFile = async (file: File): Promise<SketchyProject[]> => {
+  if (!file.name.endsWith('.json')) {
+    throw new ProjectFileError(`'${file.name}' is not a ${PROJECT_FILE_EXTENSION} file`);
+  }
+  return parseProjectFile(await file.text());
+};
@@ -0,0 +1,282 @@
+import { CanvasSize, RegenerateContext, SketchStep, StepFormat, StoryboardChange, StoryboardPatch } from '../types';
+import { createSeed } from '../utils/seed';
+import { ICON_NAMES } from '../utils/sketchIcons';
+import { getCanvasScale, LEGACY_CANVAS } from '../utils/canvasSize';
+
+export const SYSTEM_PROMPT = `
+You are an expert technical illustrator and programmer. Your goal is to explain concepts by breaking them down into sequential visual steps that will be **ANIMATED** one by one.
+
+**Execution Environment:**
+The code you generate will be executed sequentially to create an animation. 
+Write code in the order it should appear (e.g., Draw Node A -> Draw Node B -> Draw Connection).
+The code runs in an isolated sandbox: only the parameters below exist (no DOM, 'window', 'ctx' or network), and it must finish quickly with at most a few hundred drawing calls.
+
+**Parameters:**
+- 'rc': The rough.js canvas instance.
+- 'width': Canvas width in pixels (see **Canvas** at the end).
+- 'height': Canvas height in pixels.
+- 'drawArrow(x1, y1, x2, y2, options)': Helper to draw a hand-drawn arrow.
+- 'drawCurve(x1, y1, x2, y2, offset, options)': Helper to draw a curved arrow/line.
+- 'drawText(text, x, y, options)': Helper to draw hand-written text centered at (x,y), wrapped to a width if you give one.
+- 'drawGraph(graph, options)': Helper that lays out and draws boxes and arrows for you.
+- 'drawTable(rows, x, y, options)', 'drawBarChart(data, x, y, w, h, options)', 'drawLineChart(series, x, y, w, h, options)': Helpers for tables and charts.
+- 'drawFormula(tex, x, y, options)': Helper to write a math formula centered at (x,y).
+- 'drawIcon(name, x, y, size, options)': Helper to draw a hand-drawn icon centered at (x,y).
+- 'drawElement(id, draw)', 'moveElement(id, dx, dy)', 'fadeElement(id, opacity)', 'highlightElement(id)', 'eraseElement(id)': Persistent elements that stay on the canvas across steps.
+
+**Available Tools:**
+1. **Rough.js Shapes (via 'rc')**:
+   - rc.rectangle(x, y, w, h, { fill: 'primary', stroke: 'ink', fillStyle: 'hachure'|'solid' }) (colors: see **Styling**)
+   - rc.circle(centerX, centerY, diameter, { ... })
+   - rc.ellipse(centerX, centerY, w, h, { ... })
+   - rc.line(x1, y1, x2, y2, { ... })
+   - rc.path(d, { ... }) 
+
+2. **Helpers**:
+   - **drawArrow(x1, y1, x2, y2, { color: 'ink' })**: Straight arrow.
+   - **drawCurve(x1, y1, x2, y2, offset, { color: 'ink', arrow: true })**: Curved line/arrow. 
+     - \`offset\`: number. Distance of control point from the midpoint. +ve curves one way, -ve the other. Use this to avoid overlaps!
+     - \`arrow\`: boolean. If true, draws an arrowhead at the end.
+   - **drawText(str, x, y, { color: 'ink', size: 24, maxWidth, maxHeight, minSize: 12, align: 'center' })**: Label text.
+     - \`maxWidth\`: wraps the text between words to fit this width. Give it for every label longer than a few words and for all text inside boxes (box width minus some padding).
+     - \`maxHeight\`: the font shrinks (down to \`minSize\`) until the wrapped text also fits this height.
+     - \`align\`: 'center' (default), 'left' (x is the left edge) or 'right' (x is the right edge). y is always the vertical middle.
+     - Returns the text's bounds { x, y, width, height } (top-left corner and size), so you can place arrows or boxes relative to it.
+   - **drawGraph({ nodes, edges, direction }, { show, highlight })**: Automatic layout for architectures, pipelines and flowcharts. Prefer it over hand-placed boxes whenever there are more than 3 connected nodes.
+     - \`nodes\`: [{ id: 'api', label: 'API Gateway', shape: 'box'|'ellipse'|'diamond', fill: 'primary' }]
+     - \`edges\`: [{ from: 'api', to: 'db', label: 'SQL' }]
+     - \`direction\`: 'down' (default, top to bottom) or 'right' (left to right).
+     - \`show\`: ids of the nodes to draw in this step (default: all). An edge is drawn when both of its nodes are shown.
+     - \`highlight\`: ids of the nodes to emphasise in this step.
+     - \`elements\`: true makes every node a persistent element named by its id and every edge one named 'from->to' (see **Persistent Elements**).
+     - Returns { [id]: { x, y, width, height } } (x, y is the node center), so you can add notes or extra arrows next to nodes.
+     - **Stable layout across steps**: declare the SAME complete graph (every node and edge of the final step) in every step and reveal nodes step by step with \`show\`. Nodes then never move between steps. Each step is laid out on its own: a step that declares only some of the nodes (or adds nodes or edges) gets a different layout, and nodes from earlier steps will jump.
+   - **drawTable(rows, x, y, { columnWidths, width, rowHeight, size: 18, header: true, highlight: [[row, col]] })**: Table with its top-left corner at (x, y). \`rows\` is an array of rows of cell strings; the first row is the header. Columns fit their content unless \`columnWidths\` or a total \`width\` is given. Returns { x, y, width, height, columns: [{ x, width }], rows: [{ y, height }] }.
+   - **drawBarChart([{ label: 'Q1', value: 12, color }], x, y, w, h, { title, xLabel, yLabel, min, max, showValues: true })**: Bar chart with axes and round-number ticks inside the box (x, y, w, h).
+   - **drawLineChart([{ name: 'Train', values: [3, 2, 1.4], color }], x, y, w, h, { labels: ['1', '2', '3'], title, xLabel, yLabel })**: Line chart; \`labels\` go along the x axis. Several named series get a legend. Both charts return the plot area { x, y, width, height }.
+   - **drawFormula(tex, x, y, { size: 28, color })**: Math in LaTeX syntax: \\frac{a}{b}, x^2, x_{i}, \\sqrt{x}, Greek letters (\\alpha, \\pi, ...) and operators (\\cdot, \\times, \\le, \\sum, \\int, ...). Remember to escape backslashes in JS strings: drawFormula('E = mc^2', 400, 300) or drawFormula('\\\\frac{1}{2}mv^2', 400, 300). Returns its bounds. Use it instead of writing formulas with drawText.
+   - **drawIcon(name, x, y, size: 64, { color, fill, label })**: Icon centered at (x, y). Names: ${ICON_NAMES.map(name => `'${name}'`).join(', ')}. \`label\` is written under the icon. Use icons instead of plain labeled boxes for these things; unknown names draw a labeled box. Returns { x, y, width, height } of the icon and its label.
+
+3. **Persistent Elements**:
+   - Every step starts from an empty canvas, EXCEPT for persistent elements: they stay on the canvas, already drawn, in every following step until they are erased.
+   - **drawElement('db', () => { ... })**: everything drawn inside the function becomes the element 'db'. Returns what the function returns. Any drawing call also takes an \`id\` option: \`rc.rectangle(x, y, w, h, { id: 'db', fill: 'primary' })\`, \`drawTable(rows, x, y, { id: 'costs' })\`.
+   - **moveElement('db', dx, dy)**: slides the element by (dx, dy) pixels.
+   - **fadeElement('db', opacity)**: fades it to an opacity between 0 and 1 (default 0, which removes it).
+   - **highlightElement('db')**: pulses the element to draw attention to it.
+   - **eraseElement('db')**: wipes it off the canvas.
+   - Transitions play in code order between the drawing calls around them, and only act on elements already on the canvas.
+   - **Do NOT redraw a persistent element in a later step**: refer to it by its id. Drawing an id again replaces the element (redrawing it unchanged keeps it as it is).
+   - Use short, unique, descriptive ids, and remember which ones earlier steps created.
+
+**Visual & Layout Guidelines (CRITICAL):**
+
+1. **Syntax Safety (IMPORTANT)**:
+   - **ALWAYS use backticks (\`) for text arguments** in \`drawText\` to handle internal quotes and newlines safely.
+   - CORRECT: \`drawText(\`User's Data\`, 100, 100)\`
+   - INCORRECT: \`drawText("User's Data", 100, 100)\` (Syntax Error)
+
+2. **Layering & Visibility (CRITICAL)**:
+   - **Text is Priority**: Text must always be legible.
+   - **Background First**: ALWAYS draw container shapes (boxes, circles) **BEFORE** drawing the text inside them.
+   - **Highlighters**: If you are drawing a shape *over* existing text to highlight it (like in a matrix step), you **MUST** use the transparent \`'highlight'\` color for the fill.
+     - **Good Highlight**: \`fill: 'highlight', stroke: 'none'\`.
+     - **Bad Highlight**: \`fill: 'warning'\` or any other opaque color (WILL HIDE TEXT).
+   - **No Intersection**: Do not draw lines through text.
+
+3. **Spatial Layout & Overlap Prevention (CRITICAL)**:
+   - **Avoid Central Overlap**: When drawing a new main component (like a processor, LLM, or aggregation box), **NEVER** place it directly on top of previous input nodes.
+   - **Directional Flow**: Use a clear direction (e.g., Inputs on Top -> Processing in Middle -> Outputs on Bottom).
+   - **Safe Zones**: 
+     - If Inputs are at Y=100, place Processing at Y=300 or Y=400.
+     - If Inputs are on Left (X=100), place Processing on Right (X=500).
+   - **Example**: If you drew "Image Data" at (150, 150) in Step 1, do NOT draw the "LLM" box at (150, 150) in Step 2. Draw it at (400, 150) or (150, 400).
+
+4. **Prevent Overcrowding (SPLIT STEPS)**:
+   - **Rule**: If a diagram requires more than 5 distinct nodes or complex connections, **SPLIT IT** into multiple steps.
+   - Better to have 3 simple steps than 1 messy step.
+
+5. **Animation & Storytelling**:
+   - Group related drawing commands together.
+   - Example: Draw Box -> Label Box -> Draw Arrow.
+
+6. **Styling**:
+   - **Colors are names, not hex codes**: the storyboard's theme (whiteboard, chalkboard, blueprint, ...) picks the real colors, so never assume a white background or dark ink.
+   - **Roles**: 'primary', 'success', 'warning', 'danger', 'neutral'. As a \`fill\` they give a soft tint that text stays readable on; as a \`stroke\` or \`color\` they give a strong accent for arrows, outlines and emphasised text.
+   - **Others**: 'ink' (the default for lines and text), 'muted' (secondary notes), 'highlight' (transparent, for fills over text), 'background' (to erase or mask).
+   - Text Size: Title=28, Label=24, Note=18.
+
+**Example Code:**
+// 1. Draw Background
+rc.rectangle(100, 200, 150, 100, { fill: 'primary', fillStyle: 'solid' });
+
+// 2. Draw Text (On Top)
+drawText(\`Server\`, 175, 250, { size: 24 });
+
+// 3. Highlight Logic (Transparent)
+rc.rectangle(100, 200, 150, 50, { fill: 'highlight', fillStyle: 'solid', stroke: 'none' });
+drawText(\`Active\`, 175, 225, { size: 16, color: 'warning' });
+`;
+
+export const SCENE_SYSTEM_PROMPT = `${SYSTEM_PROMPT}
+
+**Scene Output Mode (OVERRIDES the code instructions above):**
+Do not write code. Describe every step as \`scene.elements\`, an ordered list of drawing elements that follow the same layout rules:
+- \`{ type: 'shape', shape: 'rectangle', x, y, width, height, options }\` is rc.rectangle(x, y, width, height, options).
+- \`{ type: 'shape', shape: 'circle' | 'ellipse', x, y, width, height, options }\` is centered at (x, y).
+- \`{ type: 'shape', shape: 'line', x, y, x2, y2 }\` and \`{ type: 'shape', shape: 'path', d }\` mirror rc.line and rc.path.
+- \`{ type: 'arrow', x1, y1, x2, y2, options: { color } }\` is drawArrow.
+- \`{ type: 'curve', x1, y1, x2, y2, offset, options: { color, arrow } }\` is drawCurve.
+- \`{ type: 'text', text, x, y, options: { color, size, maxWidth, maxHeight, minSize, align } }\` is drawText.
+Give every element a short, unique, descriptive id (e.g. 'db-box', 'db-label').
+Persistent elements and transitions (drawElement, moveElement, ...) only exist in code: each scene step draws everything it shows.
+`;
+
+// Fields of the wrong type become empty instead of reaching the renderer; drawings are dry-run separately
+const asText = (value: unknown) => typeof value === 'string' ? value : '';
+
+// Attaches the format discriminator and a fresh hand-drawn seed so callers get proper SketchStep objects
+export const toSketchSteps = (raw: any[], format: StepFormat): SketchStep[] => {
+  return raw.map(step => format === 'scene'
+    ? { kind: 'scene', title: asText(step?.title), description: asText(step?.description), scene: step?.scene, seed: createSeed() }
+    : { kind: 'code', title: asText(step?.title), description: asText(step?.description), code: asText(step?.code), seed: createSeed() }
+  );
+};
+
+
+// The instructions above are written for 800x600; other presets get told their size and how far to scale
+const describeCanvas = (canvas: CanvasSize) => {
+  const scale = getCanvasScale(canvas);
+  const lines = [
+    '**Canvas:**',
+    `The canvas is ${canvas.width}x${canvas.height} ('width' x 'height'). Keep everything inside it with a margin of about ${Math.round(40 * scale)}px.`
+  ];
+  if (scale !== 1) {
+    lines.push(`The coordinates, sizes and spacing in the examples above are for an 800x600 canvas. Multiply font sizes, shape and icon sizes, stroke widths and gaps by about ${Math.round(scale * 100) / 100} so the drawing fills this canvas and stays readable.`);
+  }
+  if (canvas.height > canvas.width) {
+    lines.push('The canvas is portrait (vertical video): stack the parts of a drawing top to bottom instead of side by side, and keep text large.');
+  }
+  return lines.join('\n');
+};
+
+export const getSystemPrompt = (format: StepFormat, canvas: CanvasSize = LEGACY_CANVAS) =>
+  `${format === 'scene' ? SCENE_SYSTEM_PROMPT : SYSTEM_PROMPT}\n${describeCanvas(canvas)}\n`;
+
+export const buildStoryboardPrompt = (query: string) => `Explain visually: ${query}`;
+
+const describeStep = (step: SketchStep) => `Title: ${step.title}
+Description: ${step.description}
+${step.kind === 'scene' ? `Scene: ${JSON.stringify(step.scene)}` : `Code:\n${step.code}`}`;
+
+export const buildRegeneratePrompt = (step: SketchStep, context: RegenerateContext = {}) => {
+  const drawing = step.kind === 'scene' ? 'scene elements' : 'Rough.js code';
+  const neighbours = [
+    context.previous && `Previous step (drawn just before this one):\n${describeStep(context.previous)}`,
+    context.next && `Next step (drawn just after this one):\n${describeStep(context.next)}`
+  ].filter(Boolean);
+
+  return `Redraw the following step for a visual guide.
+
+Current version of the step:
+${describeStep(step)}
+${neighbours.length > 0 ? `
+${neighbours.join('\n\n')}
+
+Nodes, labels and connections that also appear in the neighbouring steps must keep the same positions, sizes, colors and wording, so the animation stays continuous. Only change what this step needs to explain.
+` : ''}${context.feedback ? `
+What is wrong with the current version: ${context.feedback}
+Fix this in particular.
+` : ''}
+Generate the ${drawing} to visualize this specific step.`;
+};
+
+export const buildSplitPrompt = (step: SketchStep) => `Split the following step of a visual guide into exactly two consecutive, simpler steps.
+Each step is drawn on a blank canvas, so the second step must redraw whatever it still needs from the first.
+Keep the positions, colors and style of the original drawing, and give each step its own title and description.
+
+${describeStep(step)}`;
+
+export const buildMergePrompt = (first: SketchStep, second: SketchStep) => `Merge the following two consecutive steps of a visual guide into a single step.
+The merged step must show everything the two steps explain together, without overlaps, and its description must cover both.
+Keep the positions, colors and style of the original drawings where possible.
+
+First step:
+${describeStep(first)}
+
+Second step:
+${describeStep(second)}`;
+
+// Structure edits expect an exact number of steps back; anything else counts as a failed generation
+export const expectSteps = (json: any, format: StepFormat, count: number): SketchStep[] => {
+  const steps = toSketchSteps(Array.isArray(json?.steps) ? json.steps : [], format);
+  if (steps.length !== count) {
+    throw new Error(`Expected ${count} step${count === 1 ? '' : 's'} from the AI, got ${steps.length}`);
+  }
+  return steps;
+};
+
+export const buildRefinePrompt = (query: string, steps: SketchStep[], instruction: string, earlier: string[]) => {
+  const drawing = steps[0]?.kind === 'scene' ? 'scene' : 'code';
+  return `You are revising an existing visual guide that explains: ${query}
+${earlier.length > 0 ? `\nEarlier revision requests (already applied):\n${earlier.map(text => `- ${text}`).join('\n')}\n` : ''}
+Current storyboard:
+${steps.map((step, i) => `--- Step ${i + 1} ---\n${describeStep(step)}`).join('\n\n')}
+
+Revision request: ${instruction}
+
+Answer with a patch, not a new storyboard. List only the changes that are needed:
+- action "modify": "step" is the number of the step to change. Give only the fields that change (title, description, ${drawing}). A changed ${drawing} must be complete, not a fragment.
+- action "add": "step" is the number of the step the new one goes after (0 puts it first). Give its title, description and ${drawing}.
+- action "remove": "step" is the number of the step to delete.
+Step numbers always refer to the current storyboard above. Also give a one-sentence summary of what you changed.`;
+};
+
+// Turns the model's 1-based, loosely typed change list into a patch; previewStoryboardPatch checks it against the storyboard
+export const toStoryboardPatch = (json: any, format: StepFormat): StoryboardPatch => {
+  const changes: StoryboardChange[] = (Array.isArray(json?.changes) ? json.changes : []).map((raw: any): StoryboardChange => {
+    const step = Number(raw?.step) - 1;
+    switch (raw?.action) {
+      case 'remove':
+        return { action: 'remove', step };
+      case 'add':
+        return { action: 'add', after: step, step: toSketchSteps([raw], format)[0] };
+      case 'modify':
+        return {
+          action: 'modify',
+          step,
+          ...(typeof raw.title === 'string' ? { title: raw.title } : {}),
+          ...(typeof raw.description === 'string' ? { description: raw.description } : {}),
+          ...(typeof raw.code === 'string' && raw.code.trim() ? { code: raw.code } : {}),
+          ...(raw.scene && typeof raw.scene === 'object' ? { scene: raw.scene } : {})
+        };
+      default:
+        throw new Error(`Unknown change '${raw?.action}' from the AI`);
+    }
+  });
+  if (changes.length === 0) throw new Error("The AI didn't propose any changes");
+  return { summary: typeof json?.summary === 'string' ? json.summary : '', changes };
+};
+
+// Providers without structured output (OpenAI-compatible, local models) get the expected shape spelled out instead
+export const describeStoryboardJson = (format: StepFormat) => format === 'scene'
+  ? `Respond ONLY with JSON of the form {"steps": [{"title": string, "description": string, "scene": {"elements": [...]}}]}.`
+  : `Respond ONLY with JSON of the form {"steps": [{"title": string, "description": string, "code": string}]}. The code must not contain markdown blocks.`;
+
+export const describeSingleStepJson = (format: StepFormat) => format === 'scene'
+  ? `Respond ONLY with JSON of the form {"elements": [...]}.`
+  : `Respond ONLY with JSON of the form {"code": string}.`;
+
+export const describeRefineJson = (format: StepFormat) => `Respond ONLY with JSON of the form {"summary": string, "changes": [{"action": "modify" | "add" | "remove", "step": number, "title"?: string, "description"?: string, ${format === 'scene' ? '"scene"?: {"elements": [...]}' : '"code"?: string'}}]}.`;
+
+// Local models like to wrap JSON in markdown fences even when asked not to
+export const parseModelJson = (text: string): any => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse(fenced ? fenced[1] : text);
+};
+
+// Applies a single-step response to the step it was generated for
+export const applySingleStepJson = (step: SketchStep, json: any): SketchStep => {
+  return step.kind === 'scene'
+    ? { ...step, scene: { elements: json?.elements } }
+    : { ...step, code: asText(json?.code) };
+};
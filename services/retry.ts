@@ -0,0 +1,19 @@
+// --- HELPER: Retry Logic for Rate Limits ---
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export async function withRetry<T>(fn: () => Promise<T>, retries = 3, backoff = 2000): Promise<T> {
+  try {
+    return await fn();
+  } catch (error: any) {
+    const isRateLimit = error?.status === 429 || error?.code === 429 || error?.message?.includes('429');
+    const isServiceUnavailable = error?.status === 503 || error?.code === 503;
+    
+    if (retries > 0 && (isRateLimit || isServiceUnavailable)) {
+      console.warn(`API Rate limit or Service Unavailable. Retrying in ${backoff}ms... (Retries left: ${retries})`);
+      await delay(backoff);
+      return withRetry(fn, retries - 1, backoff * 2);
+    }
+    throw error;
+  }
+}
+
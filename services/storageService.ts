@@ -1,49 +1,349 @@
-import { HistoryItem, SketchStep } from '../types';
+import { AspectPresetId, CanvasSize, HistoryItem, ProviderSettings, SketchStep, StorageUsage, Theme } from '../types';
+import { DEFAULT_PROVIDER_SETTINGS } from './modelProvider';
+import { withSeed } from '../utils/seed';
+import { DEFAULT_ASPECT_PRESET, isAspectPresetId } from '../utils/canvasSize';
+import { DEFAULT_THEME, isTheme } from '../utils/themes';
 
-const STORAGE_KEY = 'ai_sketchy_history';
+// Storyboards and their narration live in IndexedDB. Settings are tiny and read synchronously
+// at startup, so they stay in localStorage.
 
-export const getHistory = (): HistoryItem[] => {
+const DB_NAME = 'ai_sketchy';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'history';
+const AUDIO_STORE = 'audio';
+
+const LEGACY_HISTORY_KEY = 'ai_sketchy_history';
+const SETTINGS_KEY = 'ai_sketchy_settings';
+const STORAGE_LIMIT_KEY = 'ai_sketchy_storage_limit';
+const AUTO_REPAIR_LAYOUT_KEY = 'ai_sketchy_auto_repair_layout';
+const ASPECT_PRESET_KEY = 'ai_sketchy_aspect_preset';
+const THEME_KEY = 'ai_sketchy_theme';
+
+const MB = 1024 * 1024;
+export const STORAGE_LIMIT_OPTIONS = [50 * MB, 100 * MB, 250 * MB, 500 * MB];
+export const DEFAULT_STORAGE_LIMIT = 100 * MB;
+
+// Records carry their own size so usage can be summed without re-serializing everything
+interface StoredHistoryItem extends HistoryItem {
+  size: number;
+}
+
+interface StoredNarration {
+  key: string;
+  pcm: Uint8Array;
+  size: number;
+  lastUsed: number;
+}
+
+export class StorageLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageLimitError';
+  }
+}
+
+// --- IndexedDB Plumbing ---
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+});
+
+const byteSize = (value: unknown) => new TextEncoder().encode(JSON.stringify(value)).byteLength;
+
+// Whatever was in the old key, only items that can be stored and drawn are moved
+const isLegacyItem = (item: any): item is HistoryItem =>
+  !!item && typeof item === 'object' && (typeof item.id === 'string' || typeof item.id === 'number')
+  && Array.isArray(item.steps) && item.steps.every((step: unknown) => !!step && typeof step === 'object');
+
+// One-time move of the old single-key localStorage list. The key is only removed once the
+// items are safely committed, so a failed migration is retried on the next load.
+const migrateLegacyHistory = async (db: IDBDatabase) => {
+  const stored = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!stored) return;
+
+  let parsed: unknown = [];
+  try {
+    parsed = JSON.parse(stored);
+  } catch (e) {
+    console.error("Discarding unreadable legacy history", e);
+  }
+  if (!Array.isArray(parsed)) {
+    console.error("Discarding legacy history that is not a list");
+    parsed = [];
+  }
+  const list = parsed as unknown[];
+  const legacy = list.filter(isLegacyItem);
+  if (legacy.length < list.length) {
+    console.warn(`Discarding ${list.length - legacy.length} malformed legacy history item(s)`);
+  }
+
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+  legacy.forEach(item => {
+    const migrated = { ...item, steps: item.steps.map(withSeed) };
+    store.put({ ...migrated, size: byteSize(migrated) } as StoredHistoryItem);
+  });
+  await transactionDone(tx);
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        db.createObjectStore(AUDIO_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async db => {
+      // A failed migration must not take the rest of storage down with it
+      try {
+        await migrateLegacyHistory(db);
+      } catch (e) {
+        console.error("Could not migrate the legacy history, will retry on the next load", e);
+      }
+      return db;
+    });
+    // Let the next call try again instead of caching the failure forever
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const getAll = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(storeName).objectStore(storeName).getAll()) as Promise<T[]>;
+};
+
+const toHistoryItem = ({ size, ...item }: StoredHistoryItem): HistoryItem => ({
+  ...item,
+  // Older items have no seeds; derive stable ones so they are persisted with the next save
+  steps: item.steps.map(withSeed)
+});
+
+// --- Size Accounting ---
+
+export const getStorageLimit = (): number => {
+  const stored = Number(localStorage.getItem(STORAGE_LIMIT_KEY));
+  return stored > 0 ? stored : DEFAULT_STORAGE_LIMIT;
+};
+
+export const saveStorageLimit = async (limit: number): Promise<StorageUsage> => {
+  localStorage.setItem(STORAGE_LIMIT_KEY, String(limit));
+  await enforceLimit();
+  return getStorageUsage();
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const [history, audio] = await Promise.all([
+    getAll<StoredHistoryItem>(HISTORY_STORE),
+    getAll<StoredNarration>(AUDIO_STORE)
+  ]);
+  const historyBytes = history.reduce((sum, item) => sum + item.size, 0);
+  const audioBytes = audio.reduce((sum, clip) => sum + clip.size, 0);
+  return {
+    historyBytes,
+    audioBytes,
+    totalBytes: historyBytes + audioBytes,
+    limitBytes: getStorageLimit(),
+    historyCount: history.length,
+    audioCount: audio.length
+  };
+};
+
+// Frees space until everything fits: narration first (it can always be generated again, least
+// recently played first), then the oldest storyboards. `keepId` is never evicted.
+const enforceLimit = async (keepId?: string) => {
+  const limit = getStorageLimit();
+  const [history, audio] = await Promise.all([
+    getAll<StoredHistoryItem>(HISTORY_STORE),
+    getAll<StoredNarration>(AUDIO_STORE)
+  ]);
+  let total = history.reduce((sum, item) => sum + item.size, 0) + audio.reduce((sum, clip) => sum + clip.size, 0);
+  if (total <= limit) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction([HISTORY_STORE, AUDIO_STORE], 'readwrite');
+
+  for (const clip of [...audio].sort((a, b) => a.lastUsed - b.lastUsed)) {
+    if (total <= limit) break;
+    tx.objectStore(AUDIO_STORE).delete(clip.key);
+    total -= clip.size;
+  }
+  for (const item of [...history].sort((a, b) => a.timestamp - b.timestamp)) {
+    if (total <= limit) break;
+    if (item.id === keepId) continue;
+    tx.objectStore(HISTORY_STORE).delete(item.id);
+    total -= item.size;
+  }
+
+  await transactionDone(tx);
+};
+
+// --- History ---
+
+export const getHistory = async (): Promise<HistoryItem[]> => {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    return stored ? JSON.parse(stored) : [];
+    const history = await getAll<StoredHistoryItem>(HISTORY_STORE);
+    return history.sort((a, b) => b.timestamp - a.timestamp).map(toHistoryItem);
   } catch (e) {
     console.error("Failed to load history", e);
     return [];
   }
 };
 
-export const saveHistoryItem = (query: string, steps: SketchStep[]): HistoryItem[] => {
+export const saveHistoryItem = async (query: string, steps: SketchStep[], canvas: CanvasSize, theme: Theme): Promise<HistoryItem[]> => {
+  const newItem: HistoryItem = {
+    id: Date.now().toString(), // Simple ID generation
+    query,
+    steps,
+    timestamp: Date.now(),
+    canvas,
+    theme
+  };
+  const size = byteSize(newItem);
+  if (size > getStorageLimit()) {
+    throw new StorageLimitError("This storyboard is larger than the storage limit");
+  }
+
   try {
-    const history = getHistory();
-    // Remove existing item with same query to bring it to top (case insensitive)
-    const filteredHistory = history.filter(h => h.query.toLowerCase() !== query.toLowerCase());
-    
-    const newItem: HistoryItem = {
-      id: Date.now().toString(), // Simple ID generation
-      query,
-      steps,
-      timestamp: Date.now()
-    };
+    const db = await openDatabase();
+    const existing = await getAll<StoredHistoryItem>(HISTORY_STORE);
 
-    // Add to top, limit to 20 items
-    const newHistory = [newItem, ...filteredHistory].slice(0, 20);
+    // Replace any existing item with the same query so it moves to the top (case insensitive)
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    existing
+      .filter(h => h.query.toLowerCase() === query.toLowerCase())
+      .forEach(h => store.delete(h.id));
+    store.put({ ...newItem, size } as StoredHistoryItem);
+    await transactionDone(tx);
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(newHistory));
-    return newHistory;
+    await enforceLimit(newItem.id);
   } catch (e) {
     console.error("Failed to save history", e);
-    return [];
+    throw e;
   }
+  return getHistory();
 };
 
-export const deleteHistoryItem = (id: string): HistoryItem[] => {
+export const deleteHistoryItem = async (id: string): Promise<HistoryItem[]> => {
   try {
-    const history = getHistory();
-    const newHistory = history.filter(item => item.id !== id);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(newHistory));
-    return newHistory;
+    const db = await openDatabase();
+    await promisify(db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE).delete(id));
   } catch (e) {
     console.error("Failed to delete history item", e);
-    return [];
   }
+  return getHistory();
+};
+
+// --- Narration Audio ---
+// Raw PCM exactly as the provider returned it, keyed by the caller (voice + text)
+
+export const getNarration = async (key: string): Promise<Uint8Array | null> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(AUDIO_STORE, 'readwrite');
+    const store = tx.objectStore(AUDIO_STORE);
+    const clip = await promisify(store.get(key)) as StoredNarration | undefined;
+    if (!clip) return null;
+
+    store.put({ ...clip, lastUsed: Date.now() });
+    await transactionDone(tx);
+    return clip.pcm;
+  } catch (e) {
+    console.error("Failed to load narration", e);
+    return null;
+  }
+};
+
+export const saveNarration = async (key: string, pcm: Uint8Array): Promise<void> => {
+  const clip: StoredNarration = { key, pcm, size: pcm.byteLength, lastUsed: Date.now() };
+  if (clip.size > getStorageLimit()) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction(AUDIO_STORE, 'readwrite');
+  tx.objectStore(AUDIO_STORE).put(clip);
+  await transactionDone(tx);
+  await enforceLimit();
+};
+
+export const clearNarration = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(AUDIO_STORE, 'readwrite');
+  tx.objectStore(AUDIO_STORE).clear();
+  await transactionDone(tx);
+};
+
+// --- Settings ---
+
+export const getProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    // Merge over defaults so settings saved by older versions pick up new fields
+    return stored ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PROVIDER_SETTINGS;
+  } catch (e) {
+    console.error("Failed to load settings", e);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings): ProviderSettings => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save settings", e);
+  }
+  return settings;
+};
+
+// Whether layout issues found on a step are sent back to the model without asking
+export const getAutoRepairLayout = (): boolean => localStorage.getItem(AUTO_REPAIR_LAYOUT_KEY) === 'true';
+
+export const saveAutoRepairLayout = (enabled: boolean): boolean => {
+  localStorage.setItem(AUTO_REPAIR_LAYOUT_KEY, String(enabled));
+  return enabled;
+};
+
+// The canvas preset new storyboards are generated for
+export const getAspectPreset = (): AspectPresetId => {
+  const stored = localStorage.getItem(ASPECT_PRESET_KEY);
+  return isAspectPresetId(stored) ? stored : DEFAULT_ASPECT_PRESET;
+};
+
+export const saveAspectPreset = (preset: AspectPresetId): AspectPresetId => {
+  localStorage.setItem(ASPECT_PRESET_KEY, preset);
+  return preset;
+};
+
+// The theme new storyboards start with: the last one applied
+export const getDefaultTheme = (): Theme => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(THEME_KEY) || 'null');
+    return isTheme(stored) ? stored : DEFAULT_THEME;
+  } catch (e) {
+    console.error("Failed to load theme", e);
+    return DEFAULT_THEME;
+  }
+};
+
+export const saveDefaultTheme = (theme: Theme): Theme => {
+  localStorage.setItem(THEME_KEY, JSON.stringify(theme));
+  return theme;
 };
@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+import { collectStreamedSteps, IncompleteStreamError } from './streaming';
+
+const stream = async function* (chunks: string[]) {
+  yield* chunks;
+};
+
+const first = '{"steps":[{"title":"One","description":"","code":"drawText(\'a\', 10, 10);"},';
+const second = '{"title":"Two","description":"","code":"drawText(\'b\', 10, 10);"}';
+
+describe('collectStreamedSteps', () => {
+  it('resolves with every step when the stream completes', async () => {
+    const onStep = vi.fn();
+    const { steps } = await collectStreamedSteps(stream([first, second, ']}']), 'code', onStep);
+    expect(steps.map(step => step.title)).toEqual(['One', 'Two']);
+    expect(onStep).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects a stream cut off before the steps array closes, keeping the completed steps', async () => {
+    const onStep = vi.fn();
+    const result = collectStreamedSteps(stream([first, second.slice(0, 20)]), 'code', onStep);
+    await expect(result).rejects.toBeInstanceOf(IncompleteStreamError);
+    await expect(result).rejects.toMatchObject({ steps: [{ title: 'One' }] });
+    expect(onStep).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a stream that ends right after its last step', async () => {
+    const result = collectStreamedSteps(stream([first, second]), 'code', vi.fn());
+    await expect(result).rejects.toBeInstanceOf(IncompleteStreamError);
+  });
+});
@@ -0,0 +1,38 @@
+import { SketchResponse, SketchStep, StepFormat } from '../types';
+import { createStepsStreamParser } from '../utils/streamingJson';
+import { toSketchSteps } from './prompts';
+
+export type StepCallback = (step: SketchStep, index: number) => void;
+
+// The stream stopped before the steps array closed; `steps` holds the ones that did complete
+export class IncompleteStreamError extends Error {
+  steps: SketchStep[];
+
+  constructor(steps: SketchStep[]) {
+    super(`The response was cut off after ${steps.length} step${steps.length === 1 ? '' : 's'}`);
+    this.name = 'IncompleteStreamError';
+    this.steps = steps;
+  }
+}
+
+// Shared by every streaming provider: turns raw text deltas into steps, reporting each one as it completes
+export const collectStreamedSteps = async (
+  chunks: AsyncIterable<string>,
+  format: StepFormat,
+  onStep: StepCallback
+): Promise<SketchResponse> => {
+  const parser = createStepsStreamParser();
+  const steps: SketchStep[] = [];
+
+  for await (const chunk of chunks) {
+    for (const raw of parser.push(chunk)) {
+      const [step] = toSketchSteps([raw], format);
+      steps.push(step);
+      onStep(step, steps.length - 1);
+    }
+  }
+
+  if (steps.length === 0) throw new Error("No response from AI");
+  if (!parser.isDone()) throw new IncompleteStreamError(steps);
+  return { steps };
+};
@@ -0,0 +1,55 @@
+import { zipSync, strToU8 } from 'fflate';
+import { CanvasSize, SketchStep, Theme } from '../types';
+import { loadCarriedElements, loadStepDrawing } from '../utils/stepRunner';
+import { ElementStates, NO_ELEMENTS } from '../utils/stepElements';
+import { getStepSeed } from '../utils/seed';
+import { buildTimeline, Timeline } from '../utils/timeline';
+import { renderTimelineSvg } from '../utils/svgRenderer';
+import { loadThemeFont } from '../utils/themes';
+
+// Vector exports for pasting into docs and slides. Steps are rebuilt from their commands and seed,
+// so every file matches what the canvas shows.
+
+export type SvgExportMode = 'step' | 'animated' | 'zip';
+
+// Drawn at the storyboard's own canvas size and in its theme, so the SVG looks like the canvas
+// with the persistent elements the steps before it left on the canvas
+const buildStepTimeline = async (step: SketchStep, carried: ElementStates, canvas: CanvasSize, theme: Theme): Promise<Timeline> => {
+  const [{ commands, transitions }] = await Promise.all([loadStepDrawing(step, canvas), loadThemeFont(theme)]);
+  return buildTimeline(commands, getStepSeed(step), theme, transitions, carried);
+};
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'step';
+
+export const getStepSvgFilename = (step: SketchStep, index: number, animated = false) =>
+  `sketchy-step-${String(index + 1).padStart(2, '0')}-${slugify(step.title)}${animated ? '-animated' : ''}.svg`;
+
+// A single step, either static or drawing itself on in the same order as the canvas
+export const exportStepSvg = async (step: SketchStep, previousSteps: SketchStep[], canvas: CanvasSize, theme: Theme, animated = false): Promise<Blob> => {
+  const timeline = await buildStepTimeline(step, await loadCarriedElements(previousSteps, canvas), canvas, theme);
+  const svg = renderTimelineSvg(timeline, { ...canvas, animated });
+  return new Blob([svg], { type: 'image/svg+xml' });
+};
+
+// One static SVG per step. Steps that fail to draw are left out rather than failing the whole archive.
+export const exportStoryboardSvgZip = async (steps: SketchStep[], canvas: CanvasSize, theme: Theme, onProgress: (message: string) => void): Promise<Blob> => {
+  const files: Record<string, Uint8Array> = {};
+  let carried = NO_ELEMENTS;
+
+  for (let i = 0; i < steps.length; i++) {
+    onProgress(`Drawing Step ${i + 1}/${steps.length}...`);
+    try {
+      const timeline = await buildStepTimeline(steps[i], carried, canvas, theme);
+      carried = timeline.elements;
+      files[getStepSvgFilename(steps[i], i)] = strToU8(renderTimelineSvg(timeline, { ...canvas, animated: false }));
+    } catch (e) {
+      console.warn(`Step ${i} could not be drawn, leaving it out of the archive.`, e);
+    }
+  }
+
+  if (Object.keys(files).length === 0) {
+    throw new Error("None of the steps could be drawn");
+  }
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+};
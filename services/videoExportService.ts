@@ -0,0 +1,305 @@
+import { Muxer as WebMMuxer, ArrayBufferTarget as WebMTarget } from 'webm-muxer';
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer';
+import { CanvasSize, SketchStep, Theme } from '../types';
+import { loadStepDrawing } from '../utils/stepRunner';
+import { NO_ELEMENTS } from '../utils/stepElements';
+import { getStepSeed } from '../utils/seed';
+import { fitCanvas } from '../utils/canvasSize';
+import { loadThemeFont } from '../utils/themes';
+import { buildTimeline, renderFittedFrame, Timeline } from '../utils/timeline';
+
+// Renders the storyboard frame by frame on an offscreen canvas and encodes it with WebCodecs.
+// Nothing plays in real time, so the export is as fast as the encoder and free of timer jitter.
+
+export type VideoFormat = 'webm' | 'mp4';
+
+export interface VideoExportOptions {
+  format: VideoFormat;
+  width: number;
+  height: number;
+  fps: number;
+}
+
+export const VIDEO_RESOLUTIONS = [
+  { label: '800 × 600', width: 800, height: 600 },
+  { label: '1200 × 900', width: 1200, height: 900 },
+  { label: '1600 × 1200', width: 1600, height: 1200 },
+  { label: '1280 × 720', width: 1280, height: 720 },
+  { label: '1920 × 1080', width: 1920, height: 1080 },
+  { label: '720 × 1280 (vertical)', width: 720, height: 1280 },
+  { label: '1080 × 1920 (vertical)', width: 1080, height: 1920 }
+];
+
+export const VIDEO_FRAME_RATES = [24, 30, 60];
+
+export const DEFAULT_VIDEO_EXPORT_OPTIONS: VideoExportOptions = { format: 'webm', width: 800, height: 600, fps: 30 };
+
+// The storyboard's own size when it is one of the resolutions, otherwise the first one with its shape
+export const getDefaultVideoResolution = (canvas: CanvasSize) =>
+  VIDEO_RESOLUTIONS.find(r => r.width === canvas.width && r.height === canvas.height)
+  ?? VIDEO_RESOLUTIONS.find(r => r.width * canvas.height === r.height * canvas.width)
+  ?? VIDEO_RESOLUTIONS[0];
+
+// Whether a video of this size shows the storyboard with bars on two sides
+export const isLetterboxed = (canvas: CanvasSize, video: CanvasSize) => {
+  const { x, y } = fitCanvas(canvas, video);
+  return x >= 1 || y >= 1;
+};
+
+// Same pacing as the old real-time export: hold each step for its narration (or a fixed time), then pause
+const NO_AUDIO_HOLD_MS = 4000;
+const STEP_GAP_MS = 1000;
+const AUDIO_SAMPLE_RATE = 48000;
+const KEYFRAME_INTERVAL_S = 2;
+const MAX_ENCODE_QUEUE = 8;
+
+interface Segment {
+  timeline: Timeline;
+  start: number; // ms from the beginning of the video
+  duration: number;
+  audio?: AudioBuffer;
+}
+
+// Codec candidates per container, best first; the first one the browser can encode wins
+const VIDEO_CODECS: Record<VideoFormat, string[]> = {
+  webm: ['vp09.00.40.08', 'vp8'],
+  mp4: ['avc1.640028', 'avc1.4d0028', 'avc1.42001f']
+};
+
+const AUDIO_CODECS: Record<VideoFormat, string> = {
+  webm: 'opus',
+  mp4: 'mp4a.40.2'
+};
+
+interface MuxerAdapter {
+  addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void;
+  finalize: () => Blob;
+}
+
+const createMuxer = (format: VideoFormat, videoCodec: string, options: VideoExportOptions, withAudio: boolean): MuxerAdapter => {
+  const { width, height, fps } = options;
+  const audio = withAudio ? { numberOfChannels: 1, sampleRate: AUDIO_SAMPLE_RATE } : undefined;
+
+  if (format === 'mp4') {
+    const target = new Mp4Target();
+    const muxer = new Mp4Muxer({
+      target,
+      video: { codec: 'avc', width, height, frameRate: fps },
+      audio: audio && { codec: 'aac', ...audio },
+      fastStart: 'in-memory',
+      firstTimestampBehavior: 'offset'
+    });
+    return {
+      addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      finalize: () => {
+        muxer.finalize();
+        return new Blob([target.buffer], { type: 'video/mp4' });
+      }
+    };
+  }
+
+  const target = new WebMTarget();
+  const muxer = new WebMMuxer({
+    target,
+    video: { codec: videoCodec.startsWith('vp8') ? 'V_VP8' : 'V_VP9', width, height, frameRate: fps },
+    audio: audio && { codec: 'A_OPUS', ...audio },
+    firstTimestampBehavior: 'offset'
+  });
+  return {
+    addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    finalize: () => {
+      muxer.finalize();
+      return new Blob([target.buffer], { type: 'video/webm' });
+    }
+  };
+};
+
+const pickVideoCodec = async (options: VideoExportOptions): Promise<string> => {
+  for (const codec of VIDEO_CODECS[options.format]) {
+    const { supported } = await VideoEncoder.isConfigSupported({ codec, width: options.width, height: options.height, framerate: options.fps });
+    if (supported) return codec;
+  }
+  throw new Error(`This browser cannot encode ${options.format.toUpperCase()} video at ${options.width}x${options.height}`);
+};
+
+const buildSegments = async (steps: SketchStep[], audio: Array<AudioBuffer | undefined>, canvas: CanvasSize, theme: Theme): Promise<Segment[]> => {
+  const segments: Segment[] = [];
+  let cursor = 0;
+  // Persistent elements carry from one step's segment into the next
+  let carried = NO_ELEMENTS;
+  await loadThemeFont(theme);
+
+  for (let i = 0; i < steps.length; i++) {
+    let drawing;
+    try {
+      drawing = await loadStepDrawing(steps[i], canvas);
+    } catch (e) {
+      console.warn(`Step ${i} could not be drawn, exporting it blank.`, e);
+      drawing = { commands: [], transitions: [] };
+    }
+
+    const timeline = buildTimeline(drawing.commands, getStepSeed(steps[i]), theme, drawing.transitions, carried);
+    carried = timeline.elements;
+    const hold = audio[i] ? audio[i]!.duration * 1000 : NO_AUDIO_HOLD_MS;
+    const duration = Math.max(timeline.duration, hold) + STEP_GAP_MS;
+
+    segments.push({ timeline, start: cursor, duration, audio: audio[i] });
+    cursor += duration;
+  }
+
+  return segments;
+};
+
+// Places every narration buffer at its step's exact offset in one continuous track
+const mixNarration = async (segments: Segment[], totalMs: number): Promise<AudioBuffer> => {
+  const length = Math.ceil((totalMs / 1000) * AUDIO_SAMPLE_RATE);
+  const ctx = new OfflineAudioContext(1, length, AUDIO_SAMPLE_RATE);
+
+  segments.forEach(segment => {
+    if (!segment.audio) return;
+    const source = ctx.createBufferSource();
+    source.buffer = segment.audio;
+    source.connect(ctx.destination);
+    source.start(segment.start / 1000);
+  });
+
+  return ctx.startRendering();
+};
+
+const encodeAudio = async (format: VideoFormat, mix: AudioBuffer): Promise<Array<[EncodedAudioChunk, EncodedAudioChunkMetadata | undefined]>> => {
+  const chunks: Array<[EncodedAudioChunk, EncodedAudioChunkMetadata | undefined]> = [];
+  let failure: Error | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => chunks.push([chunk, meta]),
+    error: (e) => { failure = e; }
+  });
+  encoder.configure({ codec: AUDIO_CODECS[format], sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: 1, bitrate: 96000 });
+
+  const samples = mix.getChannelData(0);
+  const blockSize = AUDIO_SAMPLE_RATE / 10;
+  for (let offset = 0; offset < samples.length; offset += blockSize) {
+    const block = samples.subarray(offset, Math.min(samples.length, offset + blockSize));
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: AUDIO_SAMPLE_RATE,
+      numberOfFrames: block.length,
+      numberOfChannels: 1,
+      timestamp: Math.round((offset / AUDIO_SAMPLE_RATE) * 1e6),
+      data: block
+    });
+    encoder.encode(data);
+    data.close();
+  }
+
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+  return chunks;
+};
+
+const canEncodeAudio = async (format: VideoFormat) => {
+  if (typeof AudioEncoder === 'undefined') return false;
+  const { supported } = await AudioEncoder.isConfigSupported({ codec: AUDIO_CODECS[format], sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: 1 });
+  return !!supported;
+};
+
+const waitForEncoder = async (encoder: VideoEncoder) => {
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+};
+
+// `audio[i]` is the narration for `steps[i]`, or undefined when it couldn't be generated.
+// Steps are drawn on the storyboard's canvas and letterboxed when the video has another shape,
+// with the theme's background filling the bars.
+export const exportVideo = async (
+  steps: SketchStep[],
+  audio: Array<AudioBuffer | undefined>,
+  options: VideoExportOptions,
+  canvas: CanvasSize,
+  theme: Theme,
+  onProgress: (message: string) => void
+): Promise<Blob> => {
+  if (typeof VideoEncoder === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    throw new Error("This browser does not support offline video encoding (WebCodecs).");
+  }
+
+  const { format, width, height, fps } = options;
+
+  onProgress('Preparing Steps...');
+  const segments = await buildSegments(steps, audio, canvas, theme);
+  const totalMs = segments.reduce((sum, s) => sum + s.duration, 0);
+
+  // Audio is encoded up front and fed into the muxer alongside the video, in timestamp order
+  let audioChunks: Array<[EncodedAudioChunk, EncodedAudioChunkMetadata | undefined]> = [];
+  const hasNarration = segments.some(s => s.audio);
+  const withAudio = hasNarration && await canEncodeAudio(format);
+  if (hasNarration && !withAudio) {
+    console.warn(`Audio encoding for ${format} is not supported here, exporting without narration.`);
+  }
+  if (withAudio) {
+    onProgress('Mixing Audio...');
+    audioChunks = await encodeAudio(format, await mixNarration(segments, totalMs));
+  }
+
+  const videoCodec = await pickVideoCodec(options);
+  const muxer = createMuxer(format, videoCodec, options, withAudio);
+
+  let nextAudio = 0;
+  const flushAudioUntil = (timestamp: number) => {
+    while (nextAudio < audioChunks.length && audioChunks[nextAudio][0].timestamp <= timestamp) {
+      const [chunk, meta] = audioChunks[nextAudio++];
+      muxer.addAudioChunk(chunk, meta);
+    }
+  };
+
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => {
+      flushAudioUntil(chunk.timestamp);
+      muxer.addVideoChunk(chunk, meta);
+    },
+    error: (e) => { failure = e; }
+  });
+  encoder.configure({ codec: videoCodec, width, height, framerate: fps, bitrate: width * height * fps * 0.1 });
+
+  const frameCanvas = new OffscreenCanvas(width, height);
+  const ctx = frameCanvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create an offscreen canvas");
+
+  const frameCount = Math.ceil((totalMs / 1000) * fps);
+  const frameDuration = 1e6 / fps;
+  let segmentIndex = 0;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    if (failure) throw failure;
+
+    const timeMs = (frame / fps) * 1000;
+    while (segmentIndex < segments.length - 1 && timeMs >= segments[segmentIndex].start + segments[segmentIndex].duration) {
+      segmentIndex++;
+    }
+    const segment = segments[segmentIndex];
+    renderFittedFrame(ctx, segment.timeline, timeMs - segment.start, canvas, { width, height });
+
+    const videoFrame = new VideoFrame(frameCanvas, { timestamp: Math.round(frame * frameDuration), duration: Math.round(frameDuration) });
+    encoder.encode(videoFrame, { keyFrame: frame % (fps * KEYFRAME_INTERVAL_S) === 0 });
+    videoFrame.close();
+
+    if (frame % fps === 0) {
+      onProgress(`Rendering Step ${segmentIndex + 1}/${segments.length} (${Math.round((frame / frameCount) * 100)}%)...`);
+    }
+    await waitForEncoder(encoder);
+  }
+
+  onProgress('Finishing Video...');
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+
+  flushAudioUntil(Infinity);
+  return muxer.finalize();
+};
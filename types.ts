@@ -1,23 +1,279 @@
-export interface SketchStep {
+export type StepFormat = 'code' | 'scene';
+
+interface SketchStepBase {
   title: string;
   description: string;
+  seed?: number; // Fixes rough.js' randomness so the step looks identical on every render
+}
+
+// Steps saved before the scene format existed have no 'kind', so a missing discriminator means 'code'
+export interface CodeSketchStep extends SketchStepBase {
+  kind?: 'code';
   code: string; // The Javascript code to execute for rough.js
 }
 
+export interface SceneSketchStep extends SketchStepBase {
+  kind: 'scene';
+  scene: SketchScene;
+}
+
+export type SketchStep = CodeSketchStep | SceneSketchStep;
+
 export interface SketchResponse {
   steps: SketchStep[];
 }
 
+// --- Canvas Size ---
+
+export type AspectPresetId = '4:3' | '16:9' | '9:16';
+
+// The coordinate space a storyboard's steps are drawn in, passed to step code as width/height
+export interface CanvasSize {
+  width: number;
+  height: number;
+}
+
+// --- Themes ---
+
+// What a color is for rather than the color itself; the theme picks the actual color
+export type ThemeRole = 'primary' | 'success' | 'warning' | 'danger' | 'neutral';
+
+// Applied when a storyboard is rendered, so re-theming never touches the steps
+export interface Theme {
+  id: string;
+  name: string;
+  background: string;
+  // Default for lines and text
+  ink: string;
+  // Secondary text, axes and grid lines
+  muted: string;
+  // Translucent overlay for emphasis over existing content
+  highlight: string;
+  // Soft tints for shapes that text sits on
+  fills: Record<ThemeRole, string>;
+  // Strong colors for strokes, text and chart series
+  accents: Record<ThemeRole, string>;
+  fontFamily: string;
+  roughness: number;
+}
+
 export interface HistoryItem {
   id: string;
   query: string;
   steps: SketchStep[];
   timestamp: number;
+  // Missing on storyboards saved before canvas presets existed, which were all drawn at 800x600
+  canvas?: CanvasSize;
+  // Missing on storyboards saved before themes existed, which use the whiteboard theme
+  theme?: Theme;
+}
+
+// Bytes used by saved storyboards and cached narration, against the user's chosen limit
+export interface StorageUsage {
+  historyBytes: number;
+  audioBytes: number;
+  totalBytes: number;
+  limitBytes: number;
+  historyCount: number;
+  audioCount: number;
 }
 
 export enum AppState {
   IDLE = 'IDLE',
   LOADING = 'LOADING',
+  STREAMING = 'STREAMING', // First steps are viewable while the rest are still being generated
   SUCCESS = 'SUCCESS',
   ERROR = 'ERROR'
 }
+
+// --- Drawing Commands ---
+// Step code runs inside the sandbox and only *records* what it wants drawn.
+// These plain objects are what crosses the worker boundary and get replayed on the visible canvas.
+
+export type RoughMethod = 'rectangle' | 'circle' | 'ellipse' | 'line' | 'linearPath' | 'polygon' | 'arc' | 'curve' | 'path';
+
+export interface StrokeOptions {
+  color?: string;
+  strokeWidth?: number;
+  arrowSize?: number;
+}
+
+export interface CurveOptions extends StrokeOptions {
+  arrow?: boolean;
+}
+
+export interface TextOptions {
+  color?: string;
+  size?: number;
+  fontSize?: number;
+  // Wrap between words to this width; with maxHeight, shrink the font (down to minSize) until the text fits
+  maxWidth?: number;
+  maxHeight?: number;
+  minSize?: number;
+  // Which side of the text x is on; lines are centered on it by default
+  align?: 'center' | 'left' | 'right';
+}
+
+// Where a command came from, so edits on the canvas can be written back to the step:
+// the call site in step code (1-based line/column), or the id of the scene element
+export interface CommandSource {
+  line?: number;
+  column?: number;
+  elementId?: string;
+}
+
+export type DrawCommand = (
+  | { type: 'rough'; method: RoughMethod; args: any[] }
+  | { type: 'arrow'; x1: number; y1: number; x2: number; y2: number; options: StrokeOptions }
+  | { type: 'curve'; x1: number; y1: number; x2: number; y2: number; offset: number; options: CurveOptions }
+  | { type: 'text'; text: string; x: number; y: number; options: TextOptions }
+) & {
+  source?: CommandSource;
+  // The persistent element the command draws part of, if any
+  element?: string;
+};
+
+// --- Persistent Elements ---
+// Commands drawn under an element id stay on the canvas in the following steps, already drawn, until the
+// element is erased. Transitions animate elements that are on the canvas; they take their turn on the
+// step's clock between the commands around them.
+
+export type TransitionKind = 'move' | 'fade' | 'highlight' | 'erase';
+
+export interface ElementTransition {
+  kind: TransitionKind;
+  element: string;
+  // move: how far the element slides
+  dx?: number;
+  dy?: number;
+  // fade: the opacity it ends at; 0 removes the element
+  opacity?: number;
+  // Plays after this many of the step's commands
+  at: number;
+}
+
+// Everything a step records: what it draws, and what it does to the elements already there
+export interface StepDrawing {
+  commands: DrawCommand[];
+  transitions: ElementTransition[];
+}
+
+// --- Declarative Scenes ---
+// A JSON alternative to step code that can be inspected and validated without executing anything.
+
+export interface SceneShapeOptions {
+  stroke?: string;
+  strokeWidth?: number;
+  fill?: string;
+  fillStyle?: 'hachure' | 'solid' | 'zigzag' | 'cross-hatch' | 'dots' | 'dashed' | 'zigzag-line';
+  roughness?: number;
+}
+
+export type SceneShapeKind = 'rectangle' | 'circle' | 'ellipse' | 'line' | 'path';
+
+// Geometry depends on 'shape':
+// - rectangle: (x, y) is the top-left corner, plus width/height
+// - circle/ellipse: (x, y) is the center, width/height are the diameters (circle uses width)
+// - line: from (x, y) to (x2, y2)
+// - path: SVG path data in 'd'
+export interface SceneShape {
+  id: string;
+  type: 'shape';
+  shape: SceneShapeKind;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  x2?: number;
+  y2?: number;
+  d?: string;
+  options?: SceneShapeOptions;
+}
+
+export interface SceneArrow {
+  id: string;
+  type: 'arrow';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  options?: StrokeOptions;
+}
+
+export interface SceneCurve {
+  id: string;
+  type: 'curve';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  offset?: number;
+  options?: CurveOptions;
+}
+
+export interface SceneText {
+  id: string;
+  type: 'text';
+  text: string;
+  x: number;
+  y: number;
+  options?: TextOptions;
+}
+
+export type SceneElement = SceneShape | SceneArrow | SceneCurve | SceneText;
+
+export interface SketchScene {
+  elements: SceneElement[];
+}
+
+// --- Storyboard Refinement ---
+// A follow-up instruction comes back as a patch against the current storyboard (0-based step indexes),
+// so it can be reviewed as a diff before anything changes.
+
+export type StoryboardChange =
+  | { action: 'modify'; step: number; title?: string; description?: string; code?: string; scene?: SketchScene }
+  // `after` is the step the new one follows; -1 inserts at the start
+  | { action: 'add'; after: number; step: SketchStep }
+  | { action: 'remove'; step: number };
+
+export interface StoryboardPatch {
+  summary: string;
+  changes: StoryboardChange[];
+}
+
+// --- Step Regeneration ---
+
+// What a redraw is told besides the step itself: its neighbours, so nodes they share keep their
+// positions, and an optional complaint about the current drawing
+export interface RegenerateContext {
+  previous?: SketchStep;
+  next?: SketchStep;
+  feedback?: string;
+}
+
+// --- Model Providers ---
+
+export type ProviderId = 'gemini' | 'openai' | 'fixture';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string; // Storyboard and step generation
+  speechModel: string;
+  voice: string;
+  baseUrl: string; // Only used by OpenAI-compatible endpoints
+  apiKey: string; // Empty means "use the build-time key" for Gemini
+}
+
+// Everything the app needs from a model backend. Speech is returned as base64 16-bit mono PCM at 24kHz.
+export interface ModelProvider {
+  generateStoryboard(query: string, format: StepFormat): Promise<SketchResponse>;
+  // Same result as generateStoryboard, but onStep fires for each step as soon as it has been fully received
+  streamStoryboard(query: string, format: StepFormat, onStep: (step: SketchStep, index: number) => void): Promise<SketchResponse>;
+  regenerateStep(step: SketchStep, context?: RegenerateContext): Promise<SketchStep>;
+  // Storyboard structure edits: one step into two consecutive ones, and two consecutive steps into one
+  splitStep(step: SketchStep): Promise<SketchStep[]>;
+  mergeSteps(first: SketchStep, second: SketchStep): Promise<SketchStep>;
+  // Follow-up instruction on the whole storyboard; `earlier` holds previously applied instructions for context
+  refineStoryboard(query: string, steps: SketchStep[], instruction: string, earlier: string[]): Promise<StoryboardPatch>;
+  generateSpeech(text: string): Promise<string>;
+}
@@ -1,3 +1,12 @@
+import { ProviderSettings, SketchStep } from '../types';
+
+// The voice a narration clip was spoken with
+export type NarrationVoice = Pick<ProviderSettings, 'provider' | 'speechModel' | 'voice'>;
+
+// Narration is persisted, so the key includes the voice as well as the text
+export const getNarrationKey = (step: SketchStep, { provider, speechModel, voice }: NarrationVoice) =>
+  `${provider}|${speechModel}|${voice}|${step.title.trim()}|${step.description.trim()}`;
+
 export function base64ToBytes(base64: string) {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -8,6 +17,14 @@ export function base64ToBytes(base64: string) {
   return bytes;
 }
 
+export function bytesToBase64(bytes: Uint8Array) {
+  let binaryString = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binaryString += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binaryString);
+}
+
 export function pcmToAudioBuffer(
   data: Uint8Array,
   ctx: AudioContext,
@@ -0,0 +1,67 @@
+import { AspectPresetId, CanvasSize } from '../types';
+
+// --- Canvas Presets ---
+// Each storyboard is drawn in the coordinate space of the preset it was generated for. Frames with a
+// different shape (a 4:3 storyboard in a 16:9 video, thumbnails) show it letterboxed, never stretched.
+
+export interface AspectPreset extends CanvasSize {
+  id: AspectPresetId;
+  label: string;
+  description: string;
+}
+
+export const ASPECT_PRESETS: AspectPreset[] = [
+  { id: '4:3', label: '4:3', description: 'Classic 800 × 600 canvas', width: 800, height: 600 },
+  { id: '16:9', label: '16:9', description: 'Widescreen 1920 × 1080, for slides and video', width: 1920, height: 1080 },
+  { id: '9:16', label: '9:16', description: 'Vertical 1080 × 1920, for short-form video', width: 1080, height: 1920 }
+];
+
+export const DEFAULT_ASPECT_PRESET: AspectPresetId = '4:3';
+
+// Larger backing stores are slow to draw and some browsers refuse them
+export const MAX_CANVAS_SIDE = 4096;
+
+// Storyboards saved without a size were drawn for this canvas
+export const LEGACY_CANVAS: CanvasSize = { width: 800, height: 600 };
+
+export const isAspectPresetId = (value: unknown): value is AspectPresetId =>
+  ASPECT_PRESETS.some(preset => preset.id === value);
+
+export const getPresetCanvas = (id: AspectPresetId): CanvasSize => {
+  const { width, height } = ASPECT_PRESETS.find(preset => preset.id === id) ?? ASPECT_PRESETS[0];
+  return { width, height };
+};
+
+export const isCanvasSize = (value: unknown): value is CanvasSize => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { width, height } = value as Record<string, unknown>;
+  return Number.isInteger(width) && Number.isInteger(height) && (width as number) > 0 && (height as number) > 0;
+};
+
+export const getStoryboardCanvas = (item: { canvas?: unknown }): CanvasSize =>
+  isCanvasSize(item.canvas) ? { width: item.canvas.width, height: item.canvas.height } : LEGACY_CANVAS;
+
+// How much larger than the classic canvas this one is; sizes in the prompt are given for 800x600
+export const getCanvasScale = (canvas: CanvasSize) =>
+  Math.min(canvas.width / LEGACY_CANVAS.width, canvas.height / LEGACY_CANVAS.height);
+
+// Device pixels per canvas unit for a crisp canvas on HiDPI screens, capped so the backing store stays in bounds
+export const getPixelRatio = (canvas: CanvasSize, devicePixelRatio = 1) =>
+  Math.max(1, Math.min(devicePixelRatio, MAX_CANVAS_SIDE / Math.max(canvas.width, canvas.height)));
+
+export interface Letterbox {
+  scale: number;
+  // Top-left corner of the content inside the frame
+  x: number;
+  y: number;
+}
+
+// The largest uniform scale that fits `content` inside `frame`, centered
+export const fitCanvas = (content: CanvasSize, frame: CanvasSize): Letterbox => {
+  const scale = Math.min(frame.width / content.width, frame.height / content.height);
+  return {
+    scale,
+    x: (frame.width - content.width * scale) / 2,
+    y: (frame.height - content.height * scale) / 2
+  };
+};
@@ -0,0 +1,118 @@
+import { RoughMethod } from '../types';
+
+// --- Sketch API Reference ---
+// What step code can call, used for completions. Signatures mirror the sandbox helpers.
+
+export interface Completion {
+  label: string;
+  detail: string;
+}
+
+const ROUGH_COMPLETIONS: Record<RoughMethod, string> = {
+  rectangle: '(x, y, width, height, options)',
+  circle: '(x, y, diameter, options)',
+  ellipse: '(x, y, width, height, options)',
+  line: '(x1, y1, x2, y2, options)',
+  linearPath: '([[x, y], ...], options)',
+  polygon: '([[x, y], ...], options)',
+  arc: '(x, y, width, height, start, stop, closed, options)',
+  curve: '([[x, y], ...], options)',
+  path: '(svgPathData, options)'
+};
+
+const GLOBAL_COMPLETIONS: Completion[] = [
+  { label: 'rc', detail: 'RoughCanvas' },
+  { label: 'drawArrow', detail: '(x1, y1, x2, y2, { color, strokeWidth, arrowSize })' },
+  { label: 'drawCurve', detail: '(x1, y1, x2, y2, offset, { color, strokeWidth, arrow })' },
+  { label: 'drawText', detail: '(text, x, y, { color, size, maxWidth, maxHeight, align })' },
+  { label: 'drawGraph', detail: '({ nodes, edges, direction }, { show, highlight, elements })' },
+  { label: 'drawTable', detail: '(rows, x, y, { columnWidths, rowHeight, size, header, highlight })' },
+  { label: 'drawBarChart', detail: '([{ label, value }], x, y, width, height, { title, xLabel, yLabel })' },
+  { label: 'drawLineChart', detail: '([{ name, values }], x, y, width, height, { labels, title })' },
+  { label: 'drawFormula', detail: '(tex, x, y, { size, color })' },
+  { label: 'drawIcon', detail: '(name, x, y, size, { color, fill, label })' },
+  { label: 'drawElement', detail: '(id, () => { ... })' },
+  { label: 'moveElement', detail: '(id, dx, dy)' },
+  { label: 'fadeElement', detail: '(id, opacity)' },
+  { label: 'highlightElement', detail: '(id)' },
+  { label: 'eraseElement', detail: '(id)' },
+  { label: 'width', detail: 'canvas width' },
+  { label: 'height', detail: 'canvas height' }
+];
+
+export interface CompletionContext {
+  // Offset in the code where the word being completed starts
+  from: number;
+  items: Completion[];
+}
+
+// Completions for the word ending at `cursor`: rc methods after "rc.", helpers and globals otherwise
+export const getCompletions = (code: string, cursor: number): CompletionContext | null => {
+  const before = code.slice(0, cursor);
+  const match = before.match(/(\brc\.)?([A-Za-z_$][\w$]*)?$/);
+  if (!match) return null;
+
+  const [, member, word = ''] = match;
+  const from = cursor - word.length;
+
+  if (member) {
+    const items = (Object.keys(ROUGH_COMPLETIONS) as RoughMethod[])
+      .filter(method => method.startsWith(word))
+      .map(method => ({ label: method, detail: ROUGH_COMPLETIONS[method] }));
+    return items.length > 0 ? { from, items } : null;
+  }
+
+  // Bare identifiers only complete once there is something to go on
+  if (word.length < 2) return null;
+  const items = GLOBAL_COMPLETIONS.filter(c => c.label.startsWith(word) && c.label !== word);
+  return items.length > 0 ? { from, items } : null;
+};
+
+// --- Highlighting ---
+// A small tokenizer, not a parser: enough to colour step code and scene JSON readably.
+
+export type TokenKind = 'comment' | 'string' | 'number' | 'keyword' | 'api' | 'plain';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+const TOKEN_PATTERN = new RegExp([
+  /(\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$))/.source,
+  /(`(?:\\[\s\S]|[^`\\])*`?|'(?:\\.|[^'\\\n])*'?|"(?:\\.|[^"\\\n])*"?)/.source,
+  /(\b\d+(?:\.\d+)?\b)/.source,
+  /(\b(?:const|let|var|for|while|do|if|else|return|function|new|of|in|true|false|null|undefined|Math)\b)/.source,
+  /(\b(?:rc|drawArrow|drawCurve|drawText|drawGraph|drawTable|drawBarChart|drawLineChart|drawFormula|drawIcon|drawElement|moveElement|fadeElement|highlightElement|eraseElement|width|height)\b)/.source
+].join('|'), 'g');
+
+const KINDS: TokenKind[] = ['comment', 'string', 'number', 'keyword', 'api'];
+
+const tokenize = (code: string): Token[] => {
+  const tokens: Token[] = [];
+  let last = 0;
+
+  for (const match of code.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (match[0].length === 0) continue;
+    if (index > last) tokens.push({ kind: 'plain', text: code.slice(last, index) });
+    const group = match.slice(1).findIndex(g => g !== undefined);
+    tokens.push({ kind: KINDS[group], text: match[0] });
+    last = index + match[0].length;
+  }
+  if (last < code.length) tokens.push({ kind: 'plain', text: code.slice(last) });
+  return tokens;
+};
+
+// Tokens grouped per line, so each line can be rendered (and marked) on its own.
+// Multi-line comments and strings are split across the lines they span.
+export const tokenizeLines = (code: string): Token[][] => {
+  const lines: Token[][] = [[]];
+  tokenize(code).forEach(token => {
+    token.text.split('\n').forEach((piece, i) => {
+      if (i > 0) lines.push([]);
+      if (piece) lines[lines.length - 1].push({ kind: token.kind, text: piece });
+    });
+  });
+  return lines;
+};
@@ -0,0 +1,304 @@
+import type { SketchPen } from './sketchSandbox';
+import { curveControlPoint } from './sketchObjects';
+import { estimateTextWidth } from './textMetrics';
+
+// --- Graph Layout ---
+// Layered layout behind the drawGraph helper: edges give each node a layer, each layer is ordered to
+// keep crossings down, and the layers are spread over the canvas. The result depends only on the graph,
+// so steps that pass the same full graph and reveal nodes with `show` keep every node where it was.
+
+export type GraphDirection = 'down' | 'right';
+export type GraphNodeShape = 'box' | 'ellipse' | 'diamond';
+
+export interface GraphNode {
+  id: string;
+  label?: string;
+  shape?: GraphNodeShape;
+  fill?: string;
+  color?: string;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  label?: string;
+  color?: string;
+}
+
+export interface GraphSpec {
+  nodes: GraphNode[];
+  edges?: GraphEdge[];
+  direction?: GraphDirection;
+}
+
+export interface GraphDrawOptions {
+  // Nodes drawn in this step (default: all). Hidden nodes still keep their place in the layout.
+  show?: string[];
+  highlight?: string[];
+  // Makes every node a persistent element named by its id, and every edge one named "from->to"
+  elements?: boolean;
+}
+
+// Center and size of a laid-out node, in canvas coordinates
+export interface NodeBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  layer: number;
+}
+
+const MARGIN = 40;
+const GAP = 24;
+const NODE_HEIGHT = 60;
+const MIN_NODE_WIDTH = 90;
+const NODE_PADDING = 32;
+const FONT_SIZE = 20;
+const MIN_FONT_SIZE = 14;
+const EDGE_LABEL_SIZE = 16;
+const ORDER_SWEEPS = 4;
+const CURVE_OFFSETS = [0, 40, -40, 80, -80, 120, -120, 160, -160];
+const CURVE_SAMPLES = 16;
+// Color names, resolved by the storyboard's theme
+const DEFAULT_FILL = 'primary';
+const HIGHLIGHT_FILL = 'highlight';
+
+const getLabel = (node: GraphNode) => String(node.label ?? node.id);
+
+// Nodes by id (the first one wins) and the edges between known, distinct nodes
+const normalize = (graph: GraphSpec) => {
+  const nodes: GraphNode[] = [];
+  const seen = new Set<string>();
+  (Array.isArray(graph?.nodes) ? graph.nodes : []).forEach(node => {
+    const id = String(node?.id ?? '');
+    if (!id || seen.has(id)) return;
+    seen.add(id);
+    nodes.push({ ...node, id });
+  });
+  const edges = (Array.isArray(graph?.edges) ? graph.edges : [])
+    .map(edge => ({ ...edge, from: String(edge?.from), to: String(edge?.to) }))
+    .filter(edge => seen.has(edge.from) && seen.has(edge.to) && edge.from !== edge.to);
+  return { nodes, edges };
+};
+
+// Edges that close a cycle are ranked as if reversed, so every edge used for layering points forward
+const findBackEdges = (ids: string[], edges: GraphEdge[]): Set<GraphEdge> => {
+  const outgoing = new Map(ids.map(id => [id, [] as GraphEdge[]]));
+  edges.forEach(edge => outgoing.get(edge.from)!.push(edge));
+
+  const state = new Map<string, 'active' | 'done'>();
+  const back = new Set<GraphEdge>();
+  const visit = (id: string) => {
+    state.set(id, 'active');
+    outgoing.get(id)!.forEach(edge => {
+      const next = state.get(edge.to);
+      if (next === 'active') back.add(edge);
+      else if (!next) visit(edge.to);
+    });
+    state.set(id, 'done');
+  };
+  ids.forEach(id => !state.has(id) && visit(id));
+  return back;
+};
+
+// Longest path from the sources, so every edge goes down at least one layer
+const assignLayers = (ids: string[], links: [string, string][]): Map<string, number> => {
+  const parents = new Map(ids.map(id => [id, [] as string[]]));
+  links.forEach(([from, to]) => parents.get(to)!.push(from));
+
+  const layers = new Map<string, number>();
+  const layerOf = (id: string): number => {
+    if (!layers.has(id)) layers.set(id, Math.max(-1, ...parents.get(id)!.map(layerOf)) + 1);
+    return layers.get(id)!;
+  };
+  ids.forEach(layerOf);
+  return layers;
+};
+
+// Barycenter sweeps: each node moves toward the average position of its neighbours in the layers
+// already placed. Sorting is stable, so ties keep the order the nodes were declared in.
+const orderLayers = (ids: string[], layers: Map<string, number>, links: [string, string][]): string[][] => {
+  const count = Math.max(0, ...layers.values()) + 1;
+  const rows: string[][] = Array.from({ length: count }, () => []);
+  ids.forEach(id => rows[layers.get(id)!].push(id));
+
+  const neighbours = new Map(ids.map(id => [id, [] as string[]]));
+  links.forEach(([from, to]) => {
+    neighbours.get(from)!.push(to);
+    neighbours.get(to)!.push(from);
+  });
+
+  const position = new Map<string, number>();
+  const measure = () => rows.forEach(row => row.forEach((id, i) => position.set(id, (i + 0.5) / row.length)));
+  measure();
+
+  for (let sweep = 0; sweep < ORDER_SWEEPS; sweep++) {
+    const downward = sweep % 2 === 0;
+    const order = downward ? rows.map((_, i) => i) : rows.map((_, i) => rows.length - 1 - i);
+    order.forEach(layer => {
+      const placed = (id: string) => downward ? layers.get(id)! < layer : layers.get(id)! > layer;
+      const score = new Map(rows[layer].map(id => {
+        const around = neighbours.get(id)!.filter(placed).map(n => position.get(n)!);
+        return [id, around.length > 0 ? around.reduce((a, b) => a + b, 0) / around.length : position.get(id)!];
+      }));
+      rows[layer].sort((a, b) => score.get(a)! - score.get(b)!);
+      measure();
+    });
+  }
+  return rows;
+};
+
+export const layoutGraph = (graph: GraphSpec, width: number, height: number): Map<string, NodeBox> => {
+  const { nodes, edges } = normalize(graph);
+  const ids = nodes.map(node => node.id);
+  const back = findBackEdges(ids, edges);
+  const links = edges.map((edge): [string, string] => back.has(edge) ? [edge.to, edge.from] : [edge.from, edge.to]);
+
+  const layers = assignLayers(ids, links);
+  const rows = orderLayers(ids, layers, links);
+  const byId = new Map(nodes.map(node => [node.id, node]));
+
+  // Layers run along the flow direction; nodes in a layer are spread across it
+  const down = graph?.direction !== 'right';
+  const layerStep = ((down ? height : width) - 2 * MARGIN) / rows.length;
+  const across = (down ? width : height) - 2 * MARGIN;
+
+  const boxes = new Map<string, NodeBox>();
+  rows.forEach((row, layer) => {
+    const slot = across / row.length;
+    row.forEach((id, i) => {
+      const along = MARGIN + (layer + 0.5) * layerStep;
+      const side = MARGIN + (i + 0.5) * slot;
+      const wanted = Math.max(MIN_NODE_WIDTH, estimateTextWidth(getLabel(byId.get(id)!), FONT_SIZE) + NODE_PADDING);
+      const widthLimit = Math.max(GAP, (down ? slot : layerStep) - GAP);
+      const heightLimit = Math.max(GAP, (down ? layerStep : slot) - GAP);
+      boxes.set(id, {
+        x: Math.round(down ? side : along),
+        y: Math.round(down ? along : side),
+        width: Math.round(Math.min(wanted, widthLimit)),
+        height: Math.round(Math.min(NODE_HEIGHT, heightLimit)),
+        layer
+      });
+    });
+  });
+  return boxes;
+};
+
+// --- Drawing ---
+
+// Where the line from a box's center toward (tx, ty) leaves the box
+const borderPoint = (box: NodeBox, tx: number, ty: number): [number, number] => {
+  const dx = tx - box.x;
+  const dy = ty - box.y;
+  if (dx === 0 && dy === 0) return [box.x, box.y];
+  const scale = Math.min(
+    dx === 0 ? Infinity : (box.width / 2) / Math.abs(dx),
+    dy === 0 ? Infinity : (box.height / 2) / Math.abs(dy)
+  );
+  return [Math.round(box.x + dx * scale), Math.round(box.y + dy * scale)];
+};
+
+const curvePoint = (x1: number, y1: number, cx: number, cy: number, x2: number, y2: number, t: number) => [
+  (1 - t) * (1 - t) * x1 + 2 * (1 - t) * t * cx + t * t * x2,
+  (1 - t) * (1 - t) * y1 + 2 * (1 - t) * t * cy + t * t * y2
+];
+
+const countHits = (x1: number, y1: number, x2: number, y2: number, offset: number, obstacles: NodeBox[]) => {
+  const [cx, cy] = curveControlPoint(x1, y1, x2, y2, offset);
+  let hits = 0;
+  for (let i = 1; i < CURVE_SAMPLES; i++) {
+    const [px, py] = curvePoint(x1, y1, cx, cy, x2, y2, i / CURVE_SAMPLES);
+    if (obstacles.some(box => Math.abs(px - box.x) <= box.width / 2 + 6 && Math.abs(py - box.y) <= box.height / 2 + 6)) hits++;
+  }
+  return hits;
+};
+
+// Straight when nothing is in the way, otherwise the gentlest bend that clears the other nodes.
+// Every node counts, shown or not, so an edge doesn't change shape when a later step reveals a node.
+// `taken` holds the control points of edges already drawn between the same two nodes, so A->B and B->A
+// bend apart instead of on top of each other.
+const chooseCurve = (x1: number, y1: number, x2: number, y2: number, obstacles: NodeBox[], taken: number[][]) => {
+  let best: { offset: number; hits: number; control: number[] } | null = null;
+  for (const offset of CURVE_OFFSETS) {
+    const control = curveControlPoint(x1, y1, x2, y2, offset);
+    if (taken.some(([cx, cy]) => Math.hypot(cx - control[0], cy - control[1]) < 20)) continue;
+    const hits = countHits(x1, y1, x2, y2, offset, obstacles);
+    if (!best || hits < best.hits) best = { offset, hits, control };
+    if (hits === 0) break;
+  }
+  return best ?? { offset: 0, hits: 0, control: curveControlPoint(x1, y1, x2, y2, 0) };
+};
+
+const fitFontSize = (label: string, width: number) => {
+  let size = FONT_SIZE;
+  while (size > MIN_FONT_SIZE && estimateTextWidth(label, size) > width - NODE_PADDING / 2) size--;
+  return size;
+};
+
+const drawDirectly = <T>(_id: string, draw: () => T) => draw();
+
+// drawGraph(graph, { show, highlight, elements }) for step code: nodes first, then the edges between shown nodes.
+// Returns every node's center and size so the code can annotate them. Nothing is remembered between calls or
+// steps: positions only stay put when every step passes the same full graph and narrows it with `show`.
+export const createDrawGraph = (pen: SketchPen, width: number, height: number) =>
+  (graph: GraphSpec, options: GraphDrawOptions = {}) => {
+    const { nodes, edges } = normalize(graph);
+    const boxes = layoutGraph(graph, width, height);
+    const shown = new Set(Array.isArray(options?.show) ? options.show.map(String) : nodes.map(node => node.id));
+    const highlighted = new Set(Array.isArray(options?.highlight) ? options.highlight.map(String) : []);
+    const asElement = options?.elements ? pen.element : drawDirectly;
+
+    nodes.filter(node => shown.has(node.id)).forEach(node => asElement(node.id, () => {
+      const { x, y, width: w, height: h } = boxes.get(node.id)!;
+      const stroke = node.color ? { stroke: node.color } : {};
+      const style = { fill: node.fill || DEFAULT_FILL, fillStyle: 'solid', ...stroke };
+
+      if (highlighted.has(node.id)) {
+        pen.rc.rectangle(x - w / 2 - 8, y - h / 2 - 8, w + 16, h + 16, { fill: HIGHLIGHT_FILL, fillStyle: 'solid', stroke: 'none' });
+      }
+      if (node.shape === 'ellipse') {
+        pen.rc.ellipse(x, y, w, h, style);
+      } else if (node.shape === 'diamond') {
+        pen.rc.polygon([[x, y - h / 2], [x + w / 2, y], [x, y + h / 2], [x - w / 2, y]], style);
+      } else {
+        pen.rc.rectangle(x - w / 2, y - h / 2, w, h, style);
+      }
+      const label = getLabel(node);
+      pen.drawText(label, x, y, { size: fitFontSize(label, w), ...(node.color ? { color: node.color } : {}) });
+    }));
+
+    const all = [...boxes.values()];
+    const curves = new Map<string, number[][]>();
+    // Curves are chosen for every edge, drawn or not, so revealing an edge never reshapes another
+    const routes = edges.map(edge => {
+      const from = boxes.get(edge.from)!;
+      const to = boxes.get(edge.to)!;
+      const [x1, y1] = borderPoint(from, to.x, to.y);
+      const [x2, y2] = borderPoint(to, from.x, from.y);
+      const pair = [edge.from, edge.to].sort().join('\n');
+      const taken = curves.get(pair) ?? [];
+      const { offset, control } = chooseCurve(x1, y1, x2, y2, all.filter(box => box !== from && box !== to), taken);
+      curves.set(pair, [...taken, control]);
+      return { edge, x1, y1, x2, y2, offset };
+    });
+
+    routes.filter(({ edge }) => shown.has(edge.from) && shown.has(edge.to)).forEach(({ edge, x1, y1, x2, y2, offset }) => asElement(`${edge.from}->${edge.to}`, () => {
+      const color = edge.color ? { color: edge.color } : {};
+      pen.drawCurve(x1, y1, x2, y2, offset, { arrow: true, ...color });
+
+      if (edge.label) {
+        // Beside the middle of the edge, on the outside of the bend, so the label doesn't sit on the line
+        const [cx, cy] = curveControlPoint(x1, y1, x2, y2, offset);
+        const [mx, my] = curvePoint(x1, y1, cx, cy, x2, y2, 0.5);
+        const label = String(edge.label);
+        const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+        const nx = (-(y2 - y1) / length) * (offset < 0 ? -1 : 1);
+        const ny = ((x2 - x1) / length) * (offset < 0 ? -1 : 1);
+        // Far enough along the normal to clear the line with the label's half-width or half-height
+        const shift = Math.abs(nx) * (estimateTextWidth(label, EDGE_LABEL_SIZE) / 2 + 6) + Math.abs(ny) * (EDGE_LABEL_SIZE * 0.6 + 6);
+        pen.drawText(label, Math.round(mx + nx * shift), Math.round(my + ny * shift), { size: EDGE_LABEL_SIZE, ...color });
+      }
+    }));
+
+    return Object.fromEntries([...boxes].map(([id, { x, y, width: w, height: h }]) => [id, { x, y, width: w, height: h }]));
+  };
@@ -0,0 +1,197 @@
+import { DrawCommand } from '../types';
+import { Bounds, curveControlPoint, ROUGH_OPTIONS_INDEX, SketchObject } from './sketchObjects';
+
+// --- Layout Lint ---
+// Checks a finished drawing for the mistakes the system prompt warns about: labels on top of each other,
+// labels running off the canvas, opaque fills painted over earlier labels and strokes through labels.
+
+export type LayoutIssueKind = 'text-overlap' | 'off-canvas' | 'hidden-text' | 'line-through-text';
+
+export interface LayoutIssue {
+  kind: LayoutIssueKind;
+  // Readable for both the user and the model, with the labels and positions involved
+  message: string;
+  // Area to mark on the canvas, in sketch coordinates
+  bounds: Bounds;
+  // Command indexes involved, in drawing order
+  commands: number[];
+}
+
+// Labels touching by a sliver are fine; a tenth of the smaller label is where it starts to hurt legibility
+const OVERLAP_RATIO = 0.1;
+// Rounding in text measurement shouldn't count as leaving the canvas
+const EDGE_TOLERANCE = 2;
+
+type TextObject = SketchObject & { command: Extract<DrawCommand, { type: 'text' }> };
+
+const isText = (object: SketchObject): object is TextObject =>
+  object.command.type === 'text' && String(object.command.text).trim().length > 0;
+
+const describeText = ({ command }: TextObject) => {
+  const first = String(command.text).split(/\r?\n|\\n/)[0].trim();
+  const label = first.length > 30 ? `${first.slice(0, 29)}…` : first;
+  return `"${label}" (at ${Math.round(command.x)}, ${Math.round(command.y)})`;
+};
+
+const intersect = (a: Bounds, b: Bounds): Bounds | null => {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+  return right > x && bottom > y ? { x, y, width: right - x, height: bottom - y } : null;
+};
+
+const union = (a: Bounds, b: Bounds): Bounds => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return { x, y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: Math.max(a.y + a.height, b.y + b.height) - y };
+};
+
+const area = ({ width, height }: Bounds) => width * height;
+
+// Only the core of a label counts for strokes, so an arrow ending just at a label's edge is fine
+const inset = ({ x, y, width, height }: Bounds): Bounds => {
+  const dx = Math.min(8, width * 0.1);
+  const dy = height * 0.25;
+  return { x: x + dx, y: y + dy, width: Math.max(0, width - 2 * dx), height: Math.max(0, height - 2 * dy) };
+};
+
+// A fill hides what is under it unless it is missing or has an alpha below 1 (the theme's 'highlight' always does)
+const isOpaqueFill = (fill: unknown) => {
+  if (typeof fill !== 'string') return false;
+  const value = fill.trim().toLowerCase();
+  if (!value || value === 'none' || value === 'transparent' || value === 'highlight') return false;
+
+  const fn = value.match(/^(?:rgba?|hsla?)\((.*)\)$/);
+  if (fn) {
+    const parts = fn[1].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length < 4) return true;
+    const alpha = parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3]);
+    return !(alpha < 1);
+  }
+  const hex = value.match(/^#(?:[0-9a-f]{3}([0-9a-f])|[0-9a-f]{6}([0-9a-f]{2}))$/);
+  if (hex) return /^f+$/.test(hex[1] ?? hex[2]);
+  return true;
+};
+
+const FILLABLE = new Set(['rectangle', 'circle', 'ellipse', 'polygon', 'arc', 'curve', 'path']);
+
+const hidesText = ({ command }: SketchObject) => {
+  if (command.type !== 'rough' || !FILLABLE.has(command.method)) return false;
+  const options = command.args[ROUGH_OPTIONS_INDEX[command.method]];
+  return isOpaqueFill(options?.fill);
+};
+
+const CURVE_SAMPLES = 12;
+
+const STROKE_NAMES: Record<DrawCommand['type'], string> = { rough: 'A line', arrow: 'An arrow', curve: 'A curve', text: 'A label' };
+
+// The strokes a command draws, as straight segments
+const getSegments = (command: DrawCommand): number[][] => {
+  switch (command.type) {
+    case 'arrow':
+      return [[command.x1, command.y1, command.x2, command.y2]];
+    case 'curve': {
+      const { x1, y1, x2, y2, offset } = command;
+      const [cx, cy] = curveControlPoint(x1, y1, x2, y2, offset);
+      const point = (t: number) => [
+        (1 - t) * (1 - t) * x1 + 2 * (1 - t) * t * cx + t * t * x2,
+        (1 - t) * (1 - t) * y1 + 2 * (1 - t) * t * cy + t * t * y2
+      ];
+      return Array.from({ length: CURVE_SAMPLES }, (_, i) => [...point(i / CURVE_SAMPLES), ...point((i + 1) / CURVE_SAMPLES)]);
+    }
+    case 'rough':
+      if (command.method === 'line') return [command.args.slice(0, 4)];
+      if (command.method === 'linearPath' && Array.isArray(command.args[0])) {
+        const points: number[][] = command.args[0];
+        return points.slice(1).map((p, i) => [...points[i], ...p]);
+      }
+      return [];
+    default:
+      return [];
+  }
+};
+
+// Liang-Barsky clipping: does any part of the segment fall inside the box?
+const segmentCrosses = ([x1, y1, x2, y2]: number[], { x, y, width, height }: Bounds) => {
+  if (![x1, y1, x2, y2].every(Number.isFinite) || width <= 0 || height <= 0) return false;
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  let t0 = 0;
+  let t1 = 1;
+  const edges: [number, number][] = [[-dx, x1 - x], [dx, x + width - x1], [-dy, y1 - y], [dy, y + height - y1]];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return false;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) t0 = Math.max(t0, t);
+    else t1 = Math.min(t1, t);
+    if (t0 > t1) return false;
+  }
+  return true;
+};
+
+const isOffCanvas = ({ x, y, width, height }: Bounds, canvasWidth: number, canvasHeight: number) =>
+  x < -EDGE_TOLERANCE || y < -EDGE_TOLERANCE || x + width > canvasWidth + EDGE_TOLERANCE || y + height > canvasHeight + EDGE_TOLERANCE;
+
+export const lintLayout = (objects: SketchObject[], width: number, height: number): LayoutIssue[] => {
+  const issues: LayoutIssue[] = [];
+  const texts = objects.filter(isText);
+
+  texts.forEach((text, i) => {
+    if (isOffCanvas(text.bounds, width, height)) {
+      issues.push({
+        kind: 'off-canvas',
+        message: `${describeText(text)} runs off the ${width}x${height} canvas`,
+        bounds: text.bounds,
+        commands: [text.index]
+      });
+    }
+
+    texts.slice(i + 1).forEach(other => {
+      const overlap = intersect(text.bounds, other.bounds);
+      if (overlap && area(overlap) > OVERLAP_RATIO * Math.min(area(text.bounds), area(other.bounds))) {
+        issues.push({
+          kind: 'text-overlap',
+          message: `${describeText(text)} overlaps ${describeText(other)}`,
+          bounds: union(text.bounds, other.bounds),
+          commands: [text.index, other.index]
+        });
+      }
+    });
+
+    const cx = text.bounds.x + text.bounds.width / 2;
+    const cy = text.bounds.y + text.bounds.height / 2;
+    const cover = objects.find(object => object.index > text.index && hidesText(object)
+      && cx >= object.bounds.x && cx <= object.bounds.x + object.bounds.width
+      && cy >= object.bounds.y && cy <= object.bounds.y + object.bounds.height);
+    if (cover) {
+      issues.push({
+        kind: 'hidden-text',
+        message: `${describeText(text)} is hidden by an opaque fill drawn after it`,
+        bounds: text.bounds,
+        commands: [text.index, cover.index]
+      });
+    }
+
+    const core = inset(text.bounds);
+    objects.forEach(object => {
+      if (object.index === text.index || !getSegments(object.command).some(segment => segmentCrosses(segment, core))) return;
+      issues.push({
+        kind: 'line-through-text',
+        message: `${STROKE_NAMES[object.command.type]} crosses ${describeText(text)}`,
+        bounds: text.bounds,
+        commands: [Math.min(text.index, object.index), Math.max(text.index, object.index)]
+      });
+    });
+  });
+
+  return issues;
+};
+
+// Findings as feedback for a redraw of the step
+export const describeLayoutIssues = (issues: LayoutIssue[], width: number, height: number) => `The current drawing has these layout problems (the canvas is ${width}x${height}):
+${issues.map(issue => `- ${issue.message}`).join('\n')}
+Fix every one of them by moving, resizing or reordering elements, and keep everything else where it is.`;
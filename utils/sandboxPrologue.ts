@@ -0,0 +1,4 @@
+// Step code runs in strict mode, so `this` is undefined and sloppy-only syntax is rejected. The worker puts
+// this line in front of the body; it has its own line so positions in the code only shift by one line.
+// Kept apart from sketchSandbox.ts so the worker bundle doesn't pull in the parser.
+export const STRICT_PROLOGUE = '"use strict";\n';
@@ -0,0 +1,157 @@
+import { DrawCommand, SceneElement, SceneShape, SketchScene } from '../types';
+
+const SHAPE_KINDS = ['rectangle', 'circle', 'ellipse', 'line', 'path'];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const shapeToCommand = (el: SceneShape): DrawCommand => {
+  const options = el.options || {};
+  switch (el.shape) {
+    case 'rectangle':
+      return { type: 'rough', method: 'rectangle', args: [el.x, el.y, el.width, el.height, options] };
+    case 'circle':
+      return { type: 'rough', method: 'circle', args: [el.x, el.y, el.width, options] };
+    case 'ellipse':
+      return { type: 'rough', method: 'ellipse', args: [el.x, el.y, el.width, el.height, options] };
+    case 'line':
+      return { type: 'rough', method: 'line', args: [el.x, el.y, el.x2, el.y2, options] };
+    case 'path':
+      return { type: 'rough', method: 'path', args: [el.d, options] };
+  }
+};
+
+// Translates one scene element into the same command the equivalent step code would have recorded,
+// so scenes and code share the rendering path in sketchRenderer.
+export const elementToCommand = (el: SceneElement): DrawCommand => {
+  switch (el.type) {
+    case 'shape':
+      return shapeToCommand(el);
+    case 'arrow':
+      return { type: 'arrow', x1: el.x1, y1: el.y1, x2: el.x2, y2: el.y2, options: el.options || {} };
+    case 'curve':
+      return { type: 'curve', x1: el.x1, y1: el.y1, x2: el.x2, y2: el.y2, offset: el.offset || 0, options: el.options || {} };
+    case 'text':
+      return { type: 'text', text: String(el.text), x: el.x, y: el.y, options: el.options || {} };
+  }
+};
+
+// The other way round: folds an edited command back into the element it was interpreted from
+export const commandToElement = (command: DrawCommand, el: SceneElement): SceneElement => {
+  if (command.type === 'rough' && el.type === 'shape') {
+    const [a, b, c, d, options] = command.args;
+    switch (el.shape) {
+      case 'rectangle':
+      case 'ellipse':
+        return { ...el, x: a, y: b, width: c, height: d, options };
+      case 'circle':
+        return { ...el, x: a, y: b, width: c, options: d };
+      case 'line':
+        return { ...el, x: a, y: b, x2: c, y2: d, options };
+      case 'path':
+        return { ...el, d: a, options: b };
+    }
+  }
+  if (command.type === 'arrow' && el.type === 'arrow') {
+    const { x1, y1, x2, y2, options } = command;
+    return { ...el, x1, y1, x2, y2, options };
+  }
+  if (command.type === 'curve' && el.type === 'curve') {
+    const { x1, y1, x2, y2, offset, options } = command;
+    return { ...el, x1, y1, x2, y2, offset, options };
+  }
+  if (command.type === 'text' && el.type === 'text') {
+    const { text, x, y, options } = command;
+    return { ...el, text, x, y, options };
+  }
+  return el;
+};
+
+// Elements are drawn in array order, which is also the animation order
+export const sceneToCommands = (scene: SketchScene): DrawCommand[] => {
+  return scene.elements.map(el => ({ ...elementToCommand(el), source: { elementId: el.id } }));
+};
+
+const missingNumbers = (el: Record<string, any>, fields: string[]) => fields.filter(f => !isNumber(el[f]));
+
+// Returns human readable problems; an empty array means the scene is safe to interpret
+export const validateScene = (scene: unknown): string[] => {
+  const errors: string[] = [];
+  const elements = (scene as SketchScene)?.elements;
+
+  if (!Array.isArray(elements)) {
+    return ["Scene must have an 'elements' array"];
+  }
+
+  const seenIds = new Set<string>();
+
+  elements.forEach((el: any, index: number) => {
+    const label = `Element ${index}${el?.id ? ` ('${el.id}')` : ''}`;
+
+    if (!el || typeof el !== 'object') {
+      errors.push(`${label} is not an object`);
+      return;
+    }
+
+    if (typeof el.id !== 'string' || !el.id) {
+      errors.push(`${label} is missing an id`);
+    } else if (seenIds.has(el.id)) {
+      errors.push(`${label} reuses a duplicate id`);
+    } else {
+      seenIds.add(el.id);
+    }
+
+    let missing: string[] = [];
+    switch (el.type) {
+      case 'shape':
+        if (!SHAPE_KINDS.includes(el.shape)) {
+          errors.push(`${label} has unknown shape '${el.shape}'`);
+          return;
+        }
+        if (el.shape === 'path') {
+          if (typeof el.d !== 'string' || !el.d) errors.push(`${label} is a path without 'd'`);
+        } else if (el.shape === 'line') {
+          missing = missingNumbers(el, ['x', 'y', 'x2', 'y2']);
+        } else if (el.shape === 'circle') {
+          missing = missingNumbers(el, ['x', 'y', 'width']);
+        } else {
+          missing = missingNumbers(el, ['x', 'y', 'width', 'height']);
+        }
+        break;
+      case 'arrow':
+      case 'curve':
+        missing = missingNumbers(el, ['x1', 'y1', 'x2', 'y2']);
+        break;
+      case 'text':
+        missing = missingNumbers(el, ['x', 'y']);
+        if (el.text === undefined || el.text === null) missing.push('text');
+        break;
+      default:
+        errors.push(`${label} has unknown type '${el.type}'`);
+        return;
+    }
+
+    if (missing.length > 0) {
+      errors.push(`${label} is missing ${missing.join(', ')}`);
+    }
+  });
+
+  return errors;
+};
+
+const codeString = (text: string) => '`' + text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${') + '`';
+
+// The inverse direction: emits step code that records exactly the same commands as the scene
+export const sceneToCode = (scene: SketchScene): string => {
+  return sceneToCommands(scene).map(command => {
+    switch (command.type) {
+      case 'rough':
+        return `rc.${command.method}(${command.args.map(arg => JSON.stringify(arg)).join(', ')});`;
+      case 'arrow':
+        return `drawArrow(${command.x1}, ${command.y1}, ${command.x2}, ${command.y2}, ${JSON.stringify(command.options)});`;
+      case 'curve':
+        return `drawCurve(${command.x1}, ${command.y1}, ${command.x2}, ${command.y2}, ${command.offset}, ${JSON.stringify(command.options)});`;
+      case 'text':
+        return `drawText(${codeString(command.text)}, ${command.x}, ${command.y}, ${JSON.stringify(command.options)});`;
+    }
+  }).join('\n');
+};
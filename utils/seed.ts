@@ -0,0 +1,26 @@
+import { SketchStep } from '../types';
+
+// rough.js treats seed 0 as "random", so every seed we hand out is a positive 31-bit integer
+const MAX_SEED = 0x7fffffff;
+
+export const createSeed = () => 1 + Math.floor(Math.random() * (MAX_SEED - 1));
+
+// FNV-1a over the parts; small, fast and stable across browsers
+export const hashSeed = (...parts: Array<string | number>): number => {
+  let hash = 0x811c9dc5;
+  const text = parts.join('|');
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return 1 + ((hash >>> 0) % (MAX_SEED - 1));
+};
+
+// Steps saved before seeds existed get one derived from their content, so they still render the same every time
+export const getStepSeed = (step: SketchStep): number => {
+  if (step.seed) return step.seed;
+  const drawing = step.kind === 'scene' ? JSON.stringify(step.scene) : step.code;
+  return hashSeed(step.title, step.description, drawing);
+};
+
+export const withSeed = <T extends SketchStep>(step: T): T => step.seed ? step : { ...step, seed: getStepSeed(step) };
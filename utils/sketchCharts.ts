@@ -0,0 +1,242 @@
+import type { SketchPen } from './sketchSandbox';
+import { estimateTextWidth } from './textMetrics';
+
+// --- Tables and Charts ---
+// drawTable, drawBarChart and drawLineChart for step code. They only use rc and drawText,
+// so they look like the rest of the sketch and record like hand-written calls.
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TableOptions {
+  // Fixed column widths; by default columns fit their content (or share `width` when it is set)
+  columnWidths?: number[];
+  width?: number;
+  rowHeight?: number;
+  size?: number;
+  // The first row is a header unless this is false
+  header?: boolean;
+  headerFill?: string;
+  color?: string;
+  // [row, column] pairs to mark with a transparent highlight
+  highlight?: [number, number][];
+}
+
+export interface TableLayout extends Rect {
+  columns: { x: number; width: number }[];
+  rows: { y: number; height: number }[];
+}
+
+export interface ChartDatum {
+  label: string;
+  value: number;
+  color?: string;
+}
+
+export interface ChartSeries {
+  name?: string;
+  values: number[];
+  color?: string;
+}
+
+export interface ChartOptions {
+  title?: string;
+  xLabel?: string;
+  yLabel?: string;
+  // Category labels along the x axis (line charts)
+  labels?: string[];
+  // Fixed y range; by default it spans zero and the data
+  min?: number;
+  max?: number;
+  color?: string;
+  fill?: string;
+  fillStyle?: string;
+  showValues?: boolean;
+}
+
+const CELL_PADDING = 12;
+const TABLE_SIZE = 18;
+// Color names, resolved by the storyboard's theme
+const HEADER_FILL = 'primary';
+const HIGHLIGHT_FILL = 'highlight';
+const TICK_SIZE = 14;
+const LABEL_SIZE = 16;
+const TITLE_SIZE = 22;
+const BAR_FILL = 'primary';
+const SERIES_COLORS = ['primary', 'danger', 'success', 'warning', 'neutral'];
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const toNumber = (value: unknown) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+// Ticks and labels print short numbers: integers as they are, fractions with at most two decimals
+const formatNumber = (value: number) => Number.isInteger(value) ? String(value) : String(Number(value.toFixed(2)));
+
+// 1, 2 or 5 times a power of ten, so axis ticks land on round numbers
+const niceStep = (range: number, count: number) => {
+  const raw = range / Math.max(1, count);
+  const power = Math.pow(10, Math.floor(Math.log10(raw || 1)));
+  const fraction = raw / power;
+  return (fraction <= 1 ? 1 : fraction <= 2 ? 2 : fraction <= 5 ? 5 : 10) * power;
+};
+
+const getScale = (values: number[], options: ChartOptions) => {
+  const dataMin = Math.min(0, ...values);
+  const dataMax = Math.max(0, ...values);
+  const step = niceStep((options.max ?? dataMax) - (options.min ?? dataMin) || 1, 4);
+  const min = options.min ?? Math.floor(dataMin / step) * step;
+  const max = options.max ?? (Math.ceil(dataMax / step) * step || step);
+  const ticks: number[] = [];
+  for (let tick = min; tick <= max + step / 1000; tick += step) ticks.push(Number(tick.toFixed(10)));
+  return { min, max, ticks };
+};
+
+// --- Tables ---
+
+export const createDrawTable = (pen: SketchPen) =>
+  (rows: unknown[][], x: number, y: number, rawOptions?: TableOptions | null): TableLayout => {
+    const options = rawOptions ?? {};
+    const cells = (Array.isArray(rows) ? rows : []).map(row => (Array.isArray(row) ? row : [row]).map(cell => String(cell ?? '')));
+    if (cells.length === 0) return { x, y, width: 0, height: 0, columns: [], rows: [] };
+    const columnCount = Math.max(1, ...cells.map(row => row.length));
+    const size = options.size || TABLE_SIZE;
+    const rowHeight = options.rowHeight || Math.round(size * 2.2);
+    const header = options.header !== false && cells.length > 1;
+    const text = options.color ? { color: options.color } : {};
+
+    const natural = Array.from({ length: columnCount }, (_, c) =>
+      Math.max(...cells.map(row => estimateTextWidth(row[c] ?? '', size))) + CELL_PADDING * 2);
+    const naturalTotal = natural.reduce((a, b) => a + b, 0);
+    const widths = Array.isArray(options.columnWidths) && options.columnWidths.length === columnCount
+      ? options.columnWidths.map(toNumber)
+      : options.width ? natural.map(w => w * options.width! / naturalTotal) : natural;
+
+    const columns = widths.reduce<{ x: number; width: number }[]>((acc, width) => {
+      const last = acc[acc.length - 1];
+      return [...acc, { x: round(last ? last.x + last.width : x), width: round(width) }];
+    }, []);
+    const tableRows = cells.map((_, r) => ({ y: round(y + r * rowHeight), height: rowHeight }));
+    const width = round(widths.reduce((a, b) => a + b, 0));
+    const height = cells.length * rowHeight;
+
+    if (header) pen.rc.rectangle(x, y, width, rowHeight, { fill: options.headerFill || HEADER_FILL, fillStyle: 'solid' });
+    (Array.isArray(options.highlight) ? options.highlight : []).forEach(([r, c]) => {
+      if (!tableRows[r] || !columns[c]) return;
+      pen.rc.rectangle(columns[c].x, tableRows[r].y, columns[c].width, rowHeight, { fill: HIGHLIGHT_FILL, fillStyle: 'solid', stroke: 'none' });
+    });
+
+    pen.rc.rectangle(x, y, width, height);
+    tableRows.slice(1).forEach(row => pen.rc.line(x, row.y, x + width, row.y));
+    columns.slice(1).forEach(column => pen.rc.line(column.x, y, column.x, y + height));
+
+    cells.forEach((row, r) => row.forEach((cell, c) => {
+      if (!cell || !columns[c]) return;
+      pen.drawText(cell, round(columns[c].x + columns[c].width / 2), round(tableRows[r].y + rowHeight / 2), { size, ...text });
+    }));
+
+    return { x, y, width, height, columns, rows: tableRows };
+  };
+
+// --- Charts ---
+
+// Axes, ticks and titles shared by both charts; returns the plotting area inside them
+const drawAxes = (pen: SketchPen, box: Rect, scale: ReturnType<typeof getScale>, options: ChartOptions) => {
+  const text = options.color ? { color: options.color } : {};
+  const top = box.y + (options.title ? TITLE_SIZE * 1.6 : 10);
+  const bottom = box.y + box.height - LABEL_SIZE * 1.6 - (options.xLabel ? LABEL_SIZE * 1.4 : 0);
+  const tickWidth = Math.max(...scale.ticks.map(tick => estimateTextWidth(formatNumber(tick), TICK_SIZE)));
+  const left = box.x + tickWidth + 14 + (options.yLabel ? LABEL_SIZE * 1.4 : 0);
+  const right = box.x + box.width - 10;
+  const plot: Rect = { x: round(left), y: round(top), width: round(right - left), height: round(bottom - top) };
+  const toY = (value: number) => round(plot.y + plot.height - ((value - scale.min) / (scale.max - scale.min || 1)) * plot.height);
+
+  if (options.title) pen.drawText(options.title, round(box.x + box.width / 2), round(box.y + TITLE_SIZE * 0.6), { size: TITLE_SIZE, ...text });
+  pen.rc.line(plot.x, plot.y, plot.x, plot.y + plot.height);
+  pen.rc.line(plot.x, toY(Math.max(scale.min, 0)), plot.x + plot.width, toY(Math.max(scale.min, 0)));
+  scale.ticks.forEach(tick => {
+    pen.rc.line(plot.x - 5, toY(tick), plot.x, toY(tick));
+    pen.drawText(formatNumber(tick), round(plot.x - 8 - estimateTextWidth(formatNumber(tick), TICK_SIZE) / 2), toY(tick), { size: TICK_SIZE, ...text });
+  });
+  if (options.xLabel) pen.drawText(options.xLabel, round(plot.x + plot.width / 2), round(box.y + box.height - LABEL_SIZE * 0.7), { size: LABEL_SIZE, ...text });
+  if (options.yLabel) pen.drawText(options.yLabel, round(box.x + LABEL_SIZE * 0.6), round(plot.y + plot.height / 2), { size: LABEL_SIZE, ...text });
+
+  return { plot, toY };
+};
+
+const toData = (data: unknown[]): ChartDatum[] => (Array.isArray(data) ? data : []).map((d: any, i) =>
+  typeof d === 'object' && d !== null
+    ? { label: String(d.label ?? i + 1), value: toNumber(d.value), color: d.color }
+    : { label: String(i + 1), value: toNumber(d) });
+
+// Bars for [{ label, value }] (or plain numbers) inside the box at x, y
+export const createDrawBarChart = (pen: SketchPen) =>
+  (data: unknown[], x: number, y: number, width: number, height: number, rawOptions?: ChartOptions | null): Rect => {
+    const options = rawOptions ?? {};
+    const bars = toData(data);
+    const scale = getScale(bars.map(bar => bar.value), options);
+    const { plot, toY } = drawAxes(pen, { x, y, width, height }, scale, options);
+    const text = options.color ? { color: options.color } : {};
+    const slot = plot.width / Math.max(1, bars.length);
+    const zero = toY(Math.max(scale.min, 0));
+
+    bars.forEach((bar, i) => {
+      const barX = round(plot.x + slot * i + slot * 0.15);
+      const barY = Math.min(zero, toY(bar.value));
+      pen.rc.rectangle(barX, barY, round(slot * 0.7), round(Math.abs(zero - toY(bar.value))), {
+        fill: bar.color || options.fill || BAR_FILL,
+        fillStyle: options.fillStyle || 'solid'
+      });
+      pen.drawText(bar.label, round(barX + slot * 0.35), round(plot.y + plot.height + LABEL_SIZE * 0.9), { size: LABEL_SIZE, ...text });
+      if (options.showValues !== false) {
+        pen.drawText(formatNumber(bar.value), round(barX + slot * 0.35), round(barY - TICK_SIZE * 0.8), { size: TICK_SIZE, ...text });
+      }
+    });
+    return plot;
+  };
+
+// One line per series ([{ name, values, color }] or a single array of numbers), with a legend for several
+export const createDrawLineChart = (pen: SketchPen) =>
+  (series: unknown[], x: number, y: number, width: number, height: number, rawOptions?: ChartOptions | null): Rect => {
+    const options = rawOptions ?? {};
+    const lines: ChartSeries[] = Array.isArray(series) && series.every(v => typeof v !== 'object' || v === null)
+      ? [{ values: series.map(toNumber) }]
+      : (Array.isArray(series) ? series : []).map((s: any) => ({ name: s?.name, values: (Array.isArray(s?.values) ? s.values : []).map(toNumber), color: s?.color }));
+    const scale = getScale(lines.flatMap(line => line.values), options);
+    const { plot, toY } = drawAxes(pen, { x, y, width, height }, scale, options);
+    const text = options.color ? { color: options.color } : {};
+
+    const count = Math.max(1, ...lines.map(line => line.values.length));
+    const toX = (i: number) => round(count === 1 ? plot.x + plot.width / 2 : plot.x + 16 + (i * (plot.width - 32)) / (count - 1));
+    const labels = Array.isArray(options.labels) ? options.labels : [];
+    labels.slice(0, count).forEach((label, i) => {
+      pen.drawText(String(label), toX(i), round(plot.y + plot.height + LABEL_SIZE * 0.9), { size: LABEL_SIZE, ...text });
+    });
+
+    lines.forEach((line, n) => {
+      const color = line.color || SERIES_COLORS[n % SERIES_COLORS.length];
+      const points = line.values.map((value, i) => [toX(i), toY(value)]);
+      if (points.length > 1) pen.rc.linearPath(points, { stroke: color, strokeWidth: 2 });
+      points.forEach(([px, py]) => pen.rc.circle(px, py, 8, { fill: color, fillStyle: 'solid', stroke: color }));
+    });
+
+    // Legend in the top-right corner of the plot when there is more than one named series
+    const named = lines.filter(line => line.name);
+    if (named.length > 1) {
+      named.forEach((line, n) => {
+        const ly = plot.y + 12 + n * (LABEL_SIZE + 6);
+        const color = line.color || SERIES_COLORS[lines.indexOf(line) % SERIES_COLORS.length];
+        const label = String(line.name);
+        const lx = plot.x + plot.width - estimateTextWidth(label, LABEL_SIZE) / 2 - 8;
+        pen.rc.line(round(lx - estimateTextWidth(label, LABEL_SIZE) / 2 - 28), ly, round(lx - estimateTextWidth(label, LABEL_SIZE) / 2 - 8), ly, { stroke: color, strokeWidth: 2 });
+        pen.drawText(label, round(lx), ly, { size: LABEL_SIZE, color });
+      });
+    }
+    return plot;
+  };
@@ -0,0 +1,248 @@
+import type { SketchPen } from './sketchSandbox';
+import type { Rect } from './sketchCharts';
+import { estimateTextWidth } from './textMetrics';
+
+// --- Formulas ---
+// drawFormula renders a small subset of LaTeX with drawText and rc: fractions, super- and subscripts,
+// square roots, Greek letters and common operators. Anything else is written out as plain text.
+
+export interface FormulaOptions {
+  size?: number;
+  color?: string;
+}
+
+type FormulaNode =
+  | { type: 'text'; text: string; large?: boolean }
+  | { type: 'row'; items: FormulaNode[] }
+  | { type: 'frac'; num: FormulaNode; den: FormulaNode }
+  | { type: 'sqrt'; body: FormulaNode }
+  | { type: 'scripts'; base: FormulaNode; sup?: FormulaNode; sub?: FormulaNode };
+
+// Laid out around the math axis: `up` above it, `down` below it, drawn from its left edge
+interface FormulaBox {
+  width: number;
+  up: number;
+  down: number;
+  draw: (x: number, y: number) => void;
+}
+
+const FORMULA_SIZE = 28;
+const SCRIPT_SCALE = 0.65;
+const MIN_SIZE = 10;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const SYMBOLS: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+  theta: 'θ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π', rho: 'ρ',
+  sigma: 'σ', tau: 'τ', phi: 'φ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+  cdot: '·', times: '×', div: '÷', pm: '±', mp: '∓', le: '≤', leq: '≤', ge: '≥', geq: '≥', neq: '≠', ne: '≠',
+  approx: '≈', equiv: '≡', sim: '∼', propto: '∝', infty: '∞', partial: '∂', nabla: '∇', degree: '°',
+  to: '→', rightarrow: '→', leftarrow: '←', Rightarrow: '⇒', Leftarrow: '⇐', leftrightarrow: '↔', iff: '⇔',
+  in: '∈', notin: '∉', subset: '⊂', subseteq: '⊆', cup: '∪', cap: '∩', forall: '∀', exists: '∃',
+  cdots: '⋯', ldots: '…', dots: '…', prime: '′', angle: '∠', perp: '⊥', circ: '∘',
+  lbrace: '{', rbrace: '}', '{': '{', '}': '}', '%': '%', '$': '$', '&': '&', '#': '#', '_': '_',
+  ',': ' ', ';': ' ', ':': ' ', ' ': ' ', quad: '  ', qquad: '    '
+};
+
+// Drawn larger than the surrounding text
+const LARGE_OPERATORS: Record<string, string> = { sum: 'Σ', prod: 'Π', int: '∫', oint: '∮' };
+
+// Commands that only affect spacing or sizing in LaTeX
+const IGNORED = new Set(['left', 'right', 'big', 'Big', 'bigg', 'Bigg', 'displaystyle', 'limits', '!']);
+
+const TEXT_COMMANDS = new Set(['text', 'mathrm', 'mathbf', 'mathit', 'textbf', 'operatorname']);
+
+// --- Parsing ---
+
+const parseFormula = (source: string): FormulaNode => {
+  let pos = 0;
+
+  const readCommand = () => {
+    pos++; // backslash
+    const match = /^[a-zA-Z]+/.exec(source.slice(pos));
+    const name = match ? match[0] : source.charAt(pos);
+    pos += name.length || 1;
+    return name;
+  };
+
+  // Text inside \text{...} is taken literally up to the matching brace
+  const readLiteral = () => {
+    while (source[pos] === ' ') pos++;
+    if (source[pos] !== '{') return '';
+    let depth = 0;
+    const start = pos + 1;
+    for (; pos < source.length; pos++) {
+      if (source[pos] === '{') depth++;
+      if (source[pos] === '}' && --depth === 0) break;
+    }
+    return source.slice(start, pos++);
+  };
+
+  const parseArgument = (): FormulaNode => {
+    while (source[pos] === ' ') pos++;
+    if (source[pos] === '{') {
+      pos++;
+      const row = parseRow();
+      pos++; // closing brace
+      return row;
+    }
+    return parseBase() ?? { type: 'text', text: '' };
+  };
+
+  const parseBase = (): FormulaNode | null => {
+    const char = source[pos];
+    if (char === undefined || char === '}') return null;
+    if (char === '{') return parseArgument();
+    if (char !== '\\') {
+      pos++;
+      return { type: 'text', text: char };
+    }
+    const name = readCommand();
+    if (name === 'frac' || name === 'dfrac' || name === 'tfrac') return { type: 'frac', num: parseArgument(), den: parseArgument() };
+    if (name === 'sqrt') return { type: 'sqrt', body: parseArgument() };
+    if (TEXT_COMMANDS.has(name)) return { type: 'text', text: readLiteral() };
+    if (LARGE_OPERATORS[name]) return { type: 'text', text: LARGE_OPERATORS[name], large: true };
+    if (IGNORED.has(name)) return { type: 'text', text: '' };
+    return { type: 'text', text: SYMBOLS[name] ?? name };
+  };
+
+  const parseRow = (): FormulaNode => {
+    const items: FormulaNode[] = [];
+    while (pos < source.length && source[pos] !== '}') {
+      let node = parseBase();
+      if (!node) break;
+      // Scripts bind to the atom right before them, in either order
+      let sup: FormulaNode | undefined;
+      let sub: FormulaNode | undefined;
+      while (source[pos] === '^' || source[pos] === '_') {
+        const mark = source[pos++];
+        if (mark === '^') sup = parseArgument();
+        else sub = parseArgument();
+      }
+      if (sup || sub) node = { type: 'scripts', base: node, sup, sub };
+      // Plain characters are merged into runs so a formula is a handful of text commands, not one per glyph
+      const last = items[items.length - 1];
+      if (node.type === 'text' && !node.large && last?.type === 'text' && !last.large) {
+        items[items.length - 1] = { type: 'text', text: last.text + node.text };
+      } else {
+        items.push(node);
+      }
+    }
+    return items.length === 1 ? items[0] : { type: 'row', items };
+  };
+
+  const root = parseRow();
+  // Stray closing braces are skipped rather than ending the formula early
+  if (pos < source.length) {
+    pos++;
+    const rest = parseFormula(source.slice(pos));
+    return { type: 'row', items: [root, rest] };
+  }
+  return root;
+};
+
+// --- Layout ---
+
+const layoutFormula = (pen: SketchPen, node: FormulaNode, size: number, color?: string): FormulaBox => {
+  const stroke = color ? { stroke: color } : {};
+  const text = color ? { color } : {};
+
+  switch (node.type) {
+    case 'text': {
+      const textSize = node.large ? Math.round(size * 1.4) : size;
+      const width = estimateTextWidth(node.text, textSize);
+      return {
+        width,
+        up: textSize * 0.6,
+        down: textSize * 0.6,
+        draw: (x, y) => {
+          if (node.text.trim()) pen.drawText(node.text, round(x + width / 2), round(y), { size: textSize, ...text });
+        }
+      };
+    }
+    case 'row': {
+      const boxes = node.items.map(item => layoutFormula(pen, item, size, color));
+      return {
+        width: boxes.reduce((sum, box) => sum + box.width, 0),
+        up: Math.max(0, ...boxes.map(box => box.up)),
+        down: Math.max(0, ...boxes.map(box => box.down)),
+        draw: (x, y) => boxes.reduce((left, box) => {
+          box.draw(left, y);
+          return left + box.width;
+        }, x)
+      };
+    }
+    case 'frac': {
+      // Nested fractions shrink a little so towers stay readable
+      const inner = Math.max(MIN_SIZE, size * 0.9);
+      const num = layoutFormula(pen, node.num, inner, color);
+      const den = layoutFormula(pen, node.den, inner, color);
+      const gap = size * 0.2;
+      const pad = size * 0.2;
+      const width = Math.max(num.width, den.width) + pad * 2;
+      return {
+        width,
+        up: gap + num.up + num.down,
+        down: gap + den.up + den.down,
+        draw: (x, y) => {
+          num.draw(x + (width - num.width) / 2, y - gap - num.down);
+          pen.rc.line(round(x + pad / 2), round(y), round(x + width - pad / 2), round(y), stroke);
+          den.draw(x + (width - den.width) / 2, y + gap + den.up);
+        }
+      };
+    }
+    case 'sqrt': {
+      const body = layoutFormula(pen, node.body, size, color);
+      const hook = size * 0.55;
+      const width = hook + body.width + size * 0.15;
+      const up = body.up + size * 0.2;
+      const down = body.down + size * 0.05;
+      return {
+        width,
+        up,
+        down,
+        draw: (x, y) => {
+          pen.rc.linearPath([
+            [round(x), round(y)],
+            [round(x + hook * 0.25), round(y - size * 0.1)],
+            [round(x + hook * 0.5), round(y + down)],
+            [round(x + hook * 0.9), round(y - up)],
+            [round(x + width), round(y - up)]
+          ], stroke);
+          body.draw(x + hook, y);
+        }
+      };
+    }
+    case 'scripts': {
+      const base = layoutFormula(pen, node.base, size, color);
+      const scriptSize = Math.max(MIN_SIZE, size * SCRIPT_SCALE);
+      const sup = node.sup ? layoutFormula(pen, node.sup, scriptSize, color) : null;
+      const sub = node.sub ? layoutFormula(pen, node.sub, scriptSize, color) : null;
+      const supShift = base.up * 0.8;
+      const subShift = base.down * 0.8;
+      const gap = size * 0.05;
+      return {
+        width: base.width + gap + Math.max(sup?.width ?? 0, sub?.width ?? 0),
+        up: Math.max(base.up, sup ? supShift + sup.up : 0),
+        down: Math.max(base.down, sub ? subShift + sub.down : 0),
+        draw: (x, y) => {
+          base.draw(x, y);
+          sup?.draw(x + base.width + gap, y - supShift);
+          sub?.draw(x + base.width + gap, y + subShift);
+        }
+      };
+    }
+  }
+};
+
+// Centered on x, y like drawText; returns the bounds of the whole formula
+export const createDrawFormula = (pen: SketchPen) =>
+  (tex: string, x: number, y: number, rawOptions?: FormulaOptions | null): Rect => {
+    const options = rawOptions ?? {};
+    const box = layoutFormula(pen, parseFormula(String(tex ?? '')), options.size || FORMULA_SIZE, options.color);
+    const left = x - box.width / 2;
+    box.draw(left, y);
+    return { x: round(left), y: round(y - box.up), width: round(box.width), height: round(box.up + box.down) };
+  };
@@ -0,0 +1,198 @@
+import type { SketchPen } from './sketchSandbox';
+import type { Rect } from './sketchCharts';
+import { estimateTextWidth } from './textMetrics';
+
+// --- Icons ---
+// Hand-drawn icons for step code, drawn through rc.path so rough.js sketches them like any other shape.
+// Each icon is designed in a 100x100 box; `p` and `s` map that box onto the requested position and size.
+
+export interface IconOptions {
+  color?: string;
+  fill?: string;
+  fillStyle?: string;
+  strokeWidth?: number;
+  // Written under the icon
+  label?: string;
+  labelSize?: number;
+}
+
+interface IconPen {
+  // A point in icon space as "x y" on the canvas
+  p: (x: number, y: number) => string;
+  // A length in icon space on the canvas
+  s: (length: number) => string;
+}
+
+interface IconShape {
+  // Outlines that take the fill
+  body: string[];
+  // Details drawn on top, never filled
+  details: string[];
+}
+
+const ICON_SIZE = 64;
+const LABEL_SIZE = 18;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const circle = ({ p, s }: IconPen, cx: number, cy: number, r: number) =>
+  `M ${p(cx - r, cy)} A ${s(r)} ${s(r)} 0 1 0 ${p(cx + r, cy)} A ${s(r)} ${s(r)} 0 1 0 ${p(cx - r, cy)}`;
+
+const box = ({ p }: IconPen, x1: number, y1: number, x2: number, y2: number) =>
+  `M ${p(x1, y1)} L ${p(x2, y1)} L ${p(x2, y2)} L ${p(x1, y2)} Z`;
+
+const ICONS: Record<string, (pen: IconPen) => IconShape> = {
+  database: pen => {
+    const { p, s } = pen;
+    return {
+      body: [`M ${p(20, 25)} L ${p(20, 75)} A ${s(30)} ${s(10)} 0 0 0 ${p(80, 75)} L ${p(80, 25)} A ${s(30)} ${s(10)} 0 0 0 ${p(20, 25)} Z`],
+      details: [
+        `M ${p(20, 25)} A ${s(30)} ${s(10)} 0 0 0 ${p(80, 25)}`,
+        `M ${p(20, 50)} A ${s(30)} ${s(10)} 0 0 0 ${p(80, 50)}`
+      ]
+    };
+  },
+  server: pen => ({
+    body: [box(pen, 15, 12, 85, 44), box(pen, 15, 56, 85, 88)],
+    details: [
+      `M ${pen.p(25, 28)} L ${pen.p(55, 28)}`,
+      `M ${pen.p(25, 72)} L ${pen.p(55, 72)}`,
+      circle(pen, 72, 28, 4),
+      circle(pen, 72, 72, 4)
+    ]
+  }),
+  user: pen => {
+    const { p } = pen;
+    return {
+      body: [circle(pen, 50, 30, 17), `M ${p(16, 90)} C ${p(16, 56)} ${p(84, 56)} ${p(84, 90)} Z`],
+      details: []
+    };
+  },
+  cloud: ({ p }) => ({
+    body: [`M ${p(28, 76)} C ${p(8, 76)} ${p(8, 50)} ${p(27, 50)} C ${p(26, 28)} ${p(54, 22)} ${p(62, 40)} C ${p(72, 28)} ${p(92, 38)} ${p(85, 55)} C ${p(98, 58)} ${p(96, 76)} ${p(80, 76)} Z`],
+    details: []
+  }),
+  lock: pen => {
+    const { p } = pen;
+    return {
+      body: [box(pen, 22, 46, 78, 90)],
+      details: [
+        `M ${p(34, 46)} L ${p(34, 32)} C ${p(34, 10)} ${p(66, 10)} ${p(66, 32)} L ${p(66, 46)}`,
+        circle(pen, 50, 63, 6),
+        `M ${p(50, 69)} L ${p(50, 79)}`
+      ]
+    };
+  },
+  document: ({ p }) => ({
+    body: [`M ${p(24, 8)} L ${p(62, 8)} L ${p(78, 24)} L ${p(78, 92)} L ${p(24, 92)} Z`],
+    details: [
+      `M ${p(62, 8)} L ${p(62, 24)} L ${p(78, 24)}`,
+      `M ${p(34, 44)} L ${p(68, 44)}`,
+      `M ${p(34, 58)} L ${p(68, 58)}`,
+      `M ${p(34, 72)} L ${p(56, 72)}`
+    ]
+  }),
+  phone: pen => {
+    const { p } = pen;
+    return {
+      body: [`M ${p(32, 6)} L ${p(68, 6)} Q ${p(76, 6)} ${p(76, 14)} L ${p(76, 86)} Q ${p(76, 94)} ${p(68, 94)} L ${p(32, 94)} Q ${p(24, 94)} ${p(24, 86)} L ${p(24, 14)} Q ${p(24, 6)} ${p(32, 6)} Z`],
+      details: [box(pen, 30, 16, 70, 76), circle(pen, 50, 85, 4)]
+    };
+  },
+  gpu: pen => {
+    const { p } = pen;
+    return {
+      body: [box(pen, 12, 28, 92, 72)],
+      details: [
+        circle(pen, 34, 50, 13),
+        circle(pen, 70, 50, 13),
+        `M ${p(22, 72)} L ${p(22, 82)} L ${p(62, 82)} L ${p(62, 72)}`,
+        `M ${p(8, 22)} L ${p(8, 86)}`
+      ]
+    };
+  },
+  cpu: pen => {
+    const { p } = pen;
+    const pins = [35, 50, 65].flatMap(t => [
+      `M ${p(t, 12)} L ${p(t, 24)}`, `M ${p(t, 76)} L ${p(t, 88)}`,
+      `M ${p(12, t)} L ${p(24, t)}`, `M ${p(76, t)} L ${p(88, t)}`
+    ]);
+    return { body: [box(pen, 24, 24, 76, 76)], details: [box(pen, 38, 38, 62, 62), ...pins] };
+  },
+  queue: pen => {
+    const { p } = pen;
+    return {
+      body: [box(pen, 8, 36, 28, 64), box(pen, 34, 36, 54, 64), box(pen, 60, 36, 80, 64)],
+      details: [`M ${p(84, 50)} L ${p(97, 50)}`, `M ${p(91, 44)} L ${p(97, 50)} L ${p(91, 56)}`]
+    };
+  },
+  browser: pen => {
+    const { p } = pen;
+    return {
+      body: [box(pen, 8, 14, 92, 86)],
+      details: [`M ${p(8, 30)} L ${p(92, 30)}`, circle(pen, 17, 22, 3), circle(pen, 27, 22, 3), circle(pen, 37, 22, 3)]
+    };
+  }
+};
+
+// Names the model reaches for that mean one of the icons above
+const ALIASES: Record<string, string> = {
+  db: 'database', sql: 'database', storage: 'database',
+  person: 'user', customer: 'user', human: 'user',
+  file: 'document', doc: 'document', page: 'document',
+  mobile: 'phone', smartphone: 'phone',
+  graphicscard: 'gpu', processor: 'cpu', chip: 'cpu',
+  messagequeue: 'queue', mq: 'queue', kafka: 'queue',
+  security: 'lock', padlock: 'lock',
+  web: 'browser', website: 'browser', frontend: 'browser', client: 'browser',
+  machine: 'server', host: 'server'
+};
+
+export const ICON_NAMES = Object.keys(ICONS);
+
+const findIcon = (name: string) => {
+  const key = name.toLowerCase().replace(/[^a-z]/g, '');
+  return ICONS[key] ?? ICONS[ALIASES[key]];
+};
+
+// Centered on x, y; unknown names draw a labeled box instead. Returns the bounds including the label.
+export const createDrawIcon = (pen: SketchPen) =>
+  (name: string, x: number, y: number, size: number = ICON_SIZE, rawOptions?: IconOptions | null): Rect => {
+    // The model sometimes passes null for "no options", which a default parameter doesn't cover
+    const options = rawOptions ?? {};
+    const iconSize = Number(size) > 0 ? Number(size) : ICON_SIZE;
+    const scale = iconSize / 100;
+    const left = x - iconSize / 2;
+    const top = y - iconSize / 2;
+    const stroke = {
+      ...(options.color ? { stroke: options.color } : {}),
+      ...(options.strokeWidth ? { strokeWidth: options.strokeWidth } : {})
+    };
+    const fill = options.fill ? { fill: options.fill, fillStyle: options.fillStyle || 'hachure' } : {};
+    const text = options.color ? { color: options.color } : {};
+    const labelSize = options.labelSize || LABEL_SIZE;
+
+    const icon = findIcon(String(name ?? ''));
+    if (icon) {
+      const shape = icon({
+        p: (px, py) => `${round(left + px * scale)} ${round(top + py * scale)}`,
+        s: length => String(round(length * scale))
+      });
+      shape.body.forEach(d => pen.rc.path(d, { ...stroke, ...fill }));
+      shape.details.forEach(d => pen.rc.path(d, stroke));
+    } else {
+      // The label (or the unknown name) goes inside the box, so nothing is written under it
+      const label = String(options.label || name || '');
+      const textSize = Math.min(labelSize, Math.round(iconSize / 3));
+      const boxWidth = Math.max(iconSize, estimateTextWidth(label, textSize) + 16);
+      const boxHeight = iconSize * 0.7;
+      const boxLeft = x - boxWidth / 2;
+      pen.rc.rectangle(round(boxLeft), round(y - boxHeight / 2), round(boxWidth), round(boxHeight), { ...stroke, ...fill });
+      pen.drawText(label, round(x), round(y), { size: textSize, ...text });
+      return { x: round(boxLeft), y: round(y - boxHeight / 2), width: round(boxWidth), height: round(boxHeight) };
+    }
+
+    if (!options.label) return { x: round(left), y: round(top), width: round(iconSize), height: round(iconSize) };
+    pen.drawText(options.label, round(x), round(y + iconSize / 2 + labelSize * 0.8), { size: labelSize, ...text });
+    return { x: round(left), y: round(top), width: round(iconSize), height: round(iconSize + labelSize * 1.4) };
+  };
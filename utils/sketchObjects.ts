@@ -0,0 +1,284 @@
+import { DrawCommand, RoughMethod } from '../types';
+import { getTextBounds, getTextSize, layoutText, TextMeasurer } from './textLayout';
+
+// --- Object Model ---
+// What each recorded command drew, in sketch coordinates: enough to select an element on the canvas,
+// drag or resize it, and hand the edited command back to be written into the step.
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SketchObject {
+  // Position in the command queue, which is also the drawing order
+  index: number;
+  command: DrawCommand;
+  bounds: Bounds;
+}
+
+export type ObjectEdit =
+  | { kind: 'move'; dx: number; dy: number }
+  | { kind: 'resize'; from: Bounds; to: Bounds }
+  | { kind: 'color'; color: string }
+  | { kind: 'text'; text: string };
+
+// Where each rough method takes its options, and which option holds the ink colour
+export const ROUGH_OPTIONS_INDEX: Record<RoughMethod, number> = {
+  rectangle: 4,
+  circle: 3,
+  ellipse: 4,
+  line: 4,
+  linearPath: 1,
+  polygon: 1,
+  arc: 7,
+  curve: 1,
+  path: 1
+};
+
+export const getColorKey = (command: DrawCommand) => command.type === 'rough' ? 'stroke' : 'color';
+
+const fromPoints = (points: number[][]): Bounds | null => {
+  const valid = points.filter(p => Array.isArray(p) && Number.isFinite(p[0]) && Number.isFinite(p[1]));
+  if (valid.length === 0) return null;
+  const xs = valid.map(p => p[0]);
+  const ys = valid.map(p => p[1]);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+const PATH_ARG_COUNTS: Record<string, number> = { M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0 };
+
+// End and control points of SVG path data; control points make the box a little generous, which is fine for picking
+const getPathPoints = (d: string): number[][] => {
+  const points: number[][] = [];
+  let cx = 0, cy = 0, startX = 0, startY = 0;
+
+  for (const [, letter, body] of d.matchAll(/([MLHVCSQTAZ])([^MLHVCSQTAZ]*)/gi)) {
+    const upper = letter.toUpperCase();
+    const relative = letter !== upper;
+    const nums = (body.match(/-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) || []).map(Number);
+    const count = PATH_ARG_COUNTS[upper];
+
+    if (upper === 'Z') {
+      cx = startX;
+      cy = startY;
+      continue;
+    }
+    for (let i = 0; i + count <= nums.length; i += count) {
+      const args = nums.slice(i, i + count);
+      const ox = relative ? cx : 0;
+      const oy = relative ? cy : 0;
+      if (upper === 'H') {
+        cx = args[0] + ox;
+      } else if (upper === 'V') {
+        cy = args[0] + oy;
+      } else if (upper === 'A') {
+        cx = args[5] + ox;
+        cy = args[6] + oy;
+      } else {
+        for (let j = 0; j < count - 2; j += 2) points.push([args[j] + ox, args[j + 1] + oy]);
+        cx = args[count - 2] + ox;
+        cy = args[count - 1] + oy;
+      }
+      points.push([cx, cy]);
+      if (upper === 'M' && i === 0) {
+        startX = cx;
+        startY = cy;
+      }
+    }
+  }
+  return points;
+};
+
+export const curveControlPoint = (x1: number, y1: number, x2: number, y2: number, offset: number) => {
+  const len = Math.hypot(x2 - x1, y2 - y1) || 1;
+  return [(x1 + x2) / 2 - ((y2 - y1) / len) * offset, (y1 + y2) / 2 + ((x2 - x1) / len) * offset];
+};
+
+export const getCommandBounds = (command: DrawCommand, measureText: TextMeasurer): Bounds | null => {
+  switch (command.type) {
+    case 'rough': {
+      const [a, b, c, d] = command.args;
+      switch (command.method) {
+        case 'rectangle':
+          return fromPoints([[a, b], [a + c, b + d]]);
+        case 'circle':
+          return fromPoints([[a - c / 2, b - c / 2], [a + c / 2, b + c / 2]]);
+        case 'ellipse':
+        case 'arc':
+          return fromPoints([[a - c / 2, b - d / 2], [a + c / 2, b + d / 2]]);
+        case 'line':
+          return fromPoints([[a, b], [c, d]]);
+        case 'linearPath':
+        case 'polygon':
+        case 'curve':
+          return Array.isArray(a) ? fromPoints(a) : null;
+        case 'path':
+          return typeof a === 'string' ? fromPoints(getPathPoints(a)) : null;
+      }
+      return null;
+    }
+    case 'arrow':
+      return fromPoints([[command.x1, command.y1], [command.x2, command.y2]]);
+    case 'curve': {
+      const { x1, y1, x2, y2, offset } = command;
+      return fromPoints([[x1, y1], [x2, y2], curveControlPoint(x1, y1, x2, y2, offset)]);
+    }
+    case 'text':
+      return getTextBounds(command.x, command.y, layoutText(command.text, command.options, measureText));
+  }
+};
+
+export const buildObjectModel = (commands: DrawCommand[], measureText: TextMeasurer): SketchObject[] => {
+  const objects: SketchObject[] = [];
+  commands.forEach((command, index) => {
+    const bounds = getCommandBounds(command, measureText);
+    if (bounds) objects.push({ index, command, bounds });
+  });
+  return objects;
+};
+
+// --- Hit Testing ---
+
+const distanceToSegment = (px: number, py: number, x1: number, y1: number, x2: number, y2: number) => {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSq));
+  return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+};
+
+const isInside = ({ x, y, width, height }: Bounds, px: number, py: number, tolerance: number) =>
+  px >= x - tolerance && px <= x + width + tolerance && py >= y - tolerance && py <= y + height + tolerance;
+
+// Straight strokes are picked by distance to the stroke, so a diagonal arrow doesn't claim its whole bounding box
+const isOnObject = ({ command, bounds }: SketchObject, px: number, py: number, tolerance: number) => {
+  if (command.type === 'arrow') {
+    return distanceToSegment(px, py, command.x1, command.y1, command.x2, command.y2) <= tolerance;
+  }
+  if (command.type === 'rough' && command.method === 'line') {
+    const [x1, y1, x2, y2] = command.args;
+    return distanceToSegment(px, py, x1, y1, x2, y2) <= tolerance;
+  }
+  return isInside(bounds, px, py, tolerance);
+};
+
+const area = ({ width, height }: Bounds) => width * height;
+
+// The element under a point. Later commands paint on top, but a small element wins over a big one
+// that contains it, so a label inside a box stays selectable.
+export const hitTest = (objects: SketchObject[], x: number, y: number, tolerance = 6): SketchObject | null => {
+  let best: SketchObject | null = null;
+  for (let i = objects.length - 1; i >= 0; i--) {
+    const candidate = objects[i];
+    if (!isOnObject(candidate, x, y, tolerance)) continue;
+    if (!best || area(candidate.bounds) < area(best.bounds)) best = candidate;
+  }
+  return best;
+};
+
+// --- Edits ---
+
+// Paths are free-form SVG data, so they can be recoloured but not moved or resized
+export const canTransform = (command: DrawCommand) => !(command.type === 'rough' && command.method === 'path');
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const mapper = (from: Bounds, to: Bounds) => {
+  const sx = from.width > 0 ? to.width / from.width : 1;
+  const sy = from.height > 0 ? to.height / from.height : 1;
+  return {
+    sx,
+    sy,
+    x: (value: number) => round(to.x + (value - from.x) * sx),
+    y: (value: number) => round(to.y + (value - from.y) * sy)
+  };
+};
+
+const transformCommand = (command: DrawCommand, from: Bounds, to: Bounds): DrawCommand => {
+  const m = mapper(from, to);
+  const scale = (m.sx + m.sy) / 2;
+
+  switch (command.type) {
+    case 'rough': {
+      const args = [...command.args];
+      switch (command.method) {
+        case 'rectangle':
+          args[0] = m.x(args[0]);
+          args[1] = m.y(args[1]);
+          args[2] = round(args[2] * m.sx);
+          args[3] = round(args[3] * m.sy);
+          break;
+        case 'circle':
+          args[0] = m.x(args[0]);
+          args[1] = m.y(args[1]);
+          args[2] = round(args[2] * scale);
+          break;
+        case 'ellipse':
+        case 'arc':
+          args[0] = m.x(args[0]);
+          args[1] = m.y(args[1]);
+          args[2] = round(args[2] * m.sx);
+          args[3] = round(args[3] * m.sy);
+          break;
+        case 'line':
+          args[0] = m.x(args[0]);
+          args[1] = m.y(args[1]);
+          args[2] = m.x(args[2]);
+          args[3] = m.y(args[3]);
+          break;
+        case 'linearPath':
+        case 'polygon':
+        case 'curve':
+          args[0] = args[0].map(([x, y]: number[]) => [m.x(x), m.y(y)]);
+          break;
+      }
+      return { ...command, args };
+    }
+    case 'arrow':
+      return { ...command, x1: m.x(command.x1), y1: m.y(command.y1), x2: m.x(command.x2), y2: m.y(command.y2) };
+    case 'curve':
+      return {
+        ...command,
+        x1: m.x(command.x1), y1: m.y(command.y1), x2: m.x(command.x2), y2: m.y(command.y2),
+        offset: round(command.offset * scale)
+      };
+    case 'text': {
+      const sizeKey = command.options.size === undefined && command.options.fontSize !== undefined ? 'fontSize' : 'size';
+      const size = round(getTextSize(command.options) * m.sy);
+      const options = { ...command.options, [sizeKey]: size };
+      // A wrapping box grows with the text, so the lines break in the same places
+      if (command.options.maxWidth) options.maxWidth = round(command.options.maxWidth * m.sx);
+      if (command.options.maxHeight) options.maxHeight = round(command.options.maxHeight * m.sy);
+      return { ...command, x: m.x(command.x), y: m.y(command.y), options };
+    }
+  }
+};
+
+const withOption = (command: DrawCommand, key: string, value: unknown): DrawCommand => {
+  if (command.type !== 'rough') {
+    return { ...command, options: { ...command.options, [key]: value } } as DrawCommand;
+  }
+  const args = [...command.args];
+  const index = ROUGH_OPTIONS_INDEX[command.method];
+  args[index] = { ...(args[index] || {}), [key]: value };
+  return { ...command, args };
+};
+
+// The command as it would be recorded after the edit; the caller writes it back into the step
+export const applyEdit = (command: DrawCommand, bounds: Bounds, edit: ObjectEdit): DrawCommand => {
+  switch (edit.kind) {
+    case 'move':
+      return transformCommand(command, bounds, { ...bounds, x: bounds.x + edit.dx, y: bounds.y + edit.dy });
+    case 'resize':
+      return transformCommand(command, edit.from, edit.to);
+    case 'color':
+      return withOption(command, getColorKey(command), edit.color);
+    case 'text':
+      return command.type === 'text' ? { ...command, text: edit.text } : command;
+  }
+};
@@ -0,0 +1,448 @@
+import rough from 'roughjs';
+import type { RoughGenerator } from 'roughjs/bin/generator';
+import type { Drawable, Op, OpSet } from 'roughjs/bin/core';
+import { DrawCommand, RoughMethod, Theme } from '../types';
+import { hashSeed } from './seed';
+import { LINE_HEIGHT, layoutText, TextAlign, TextMeasurer } from './textLayout';
+import { estimateTextWidth } from './textMetrics';
+import { DEFAULT_THEME, resolveColor } from './themes';
+
+// Arrows and curves are sketched rougher than shapes, relative to the theme's roughness
+const ARROW_ROUGHNESS = 2;
+
+// --- Draw-on Pacing ---
+// A command's duration follows how much "ink" it puts down, so a long arrow takes longer than a tick mark.
+const INK_SPEED_PX_PER_MS = 2.5;
+const FILL_SKETCH_WEIGHT = 0.05; // Hachure covers the whole area, so its scribbles go down much faster than outlines
+const FILL_PATH_WEIGHT = 80; // Solid fills fade in, counted as a fixed amount of ink
+const TEXT_CHAR_WEIGHT = 60; // Roughly one handwritten glyph
+const MIN_COMMAND_MS = 120;
+const MAX_COMMAND_MS = 1500;
+
+// --- Prepared Commands ---
+// rough.js randomises every call, so drawables are generated once up front and then painted at any
+// progress as often as needed. That keeps animation frames and seeks from "wobbling".
+
+export interface PreparedSet {
+  set: OpSet;
+  opLengths: number[];
+  length: number;
+}
+
+export interface DrawablePart {
+  type: 'drawable';
+  drawable: Drawable;
+  sets: PreparedSet[];
+}
+
+export interface TextPart {
+  type: 'text';
+  lines: string[];
+  x: number;
+  y: number;
+  fontSize: number;
+  fontFamily: string;
+  align: TextAlign;
+  color: string;
+  // Soft glow behind the glyphs that keeps text readable over lines, in the background color
+  halo: string;
+  charCount: number;
+}
+
+export type PreparedPart = DrawablePart | TextPart;
+
+export interface PreparedCommand {
+  command: DrawCommand;
+  parts: PreparedPart[];
+  duration: number;
+}
+
+type Point = [number, number];
+
+// Frames are painted both on the visible canvas and on offscreen canvases during export
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const distance = (a: Point, b: Point) => Math.hypot(b[0] - a[0], b[1] - a[1]);
+
+const cubicAt = (p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point => {
+  const mt = 1 - t;
+  const a = mt * mt * mt, b = 3 * mt * mt * t, c = 3 * mt * t * t, d = t * t * t;
+  return [a * p0[0] + b * p1[0] + c * p2[0] + d * p3[0], a * p0[1] + b * p1[1] + c * p2[1] + d * p3[1]];
+};
+
+const lerp = (a: Point, b: Point, t: number): Point => [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+
+// Lengths of every op in a set, tracking the pen position like the canvas would
+const measureSet = (set: OpSet): PreparedSet => {
+  let pen: Point = [0, 0];
+  const opLengths = set.ops.map(({ op, data }) => {
+    switch (op) {
+      case 'move':
+        pen = [data[0], data[1]];
+        return 0;
+      case 'lineTo': {
+        const next: Point = [data[0], data[1]];
+        const len = distance(pen, next);
+        pen = next;
+        return len;
+      }
+      case 'bcurveTo': {
+        const c1: Point = [data[0], data[1]], c2: Point = [data[2], data[3]], end: Point = [data[4], data[5]];
+        let len = 0;
+        let prev = pen;
+        for (let i = 1; i <= 8; i++) {
+          const p = cubicAt(pen, c1, c2, end, i / 8);
+          len += distance(prev, p);
+          prev = p;
+        }
+        pen = end;
+        return len;
+      }
+    }
+  });
+  return { set, opLengths, length: opLengths.reduce((sum, len) => sum + len, 0) };
+};
+
+const drawablePart = (drawable: Drawable): DrawablePart => ({
+  type: 'drawable',
+  drawable,
+  sets: drawable.sets.map(measureSet)
+});
+
+// --- Text Measurement ---
+
+let measureContext: Canvas2D | null | undefined;
+
+const getMeasureContext = (): Canvas2D | null => {
+  if (measureContext === undefined) {
+    measureContext = typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(1, 1).getContext('2d')
+      : typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+  }
+  return measureContext;
+};
+
+// Measured with the font text is painted in, so wrapping matches what ends up on screen
+export const createTextMeasurer = (fontFamily: string): TextMeasurer => (line, fontSize) => {
+  const ctx = getMeasureContext();
+  if (!ctx) return estimateTextWidth(line, fontSize);
+  ctx.font = `bold ${fontSize}px ${fontFamily}`;
+  return ctx.measureText(line).width;
+};
+
+// Where each rough.js method takes its options object
+const OPTIONS_ARG_INDEX: Record<RoughMethod, number> = {
+  rectangle: 4, circle: 3, ellipse: 4, line: 4, linearPath: 1, polygon: 1, arc: 7, curve: 1, path: 1
+};
+
+// Seeds the options of a recorded rough.js call (unless the step code pinned its own seed) and applies the theme:
+// color names are resolved, and unstyled shapes get the theme's ink and roughness
+const prepareRoughArgs = (method: RoughMethod, args: any[], seed: number, theme: Theme) => {
+  const index = OPTIONS_ARG_INDEX[method];
+  const prepared = [...args];
+  const options = prepared[index] || {};
+  prepared[index] = {
+    roughness: theme.roughness,
+    ...options,
+    stroke: resolveColor(options.stroke ?? 'ink', theme, 'stroke'),
+    ...(options.fill !== undefined ? { fill: resolveColor(options.fill, theme, 'fill') } : {}),
+    seed: options.seed || seed
+  };
+  return prepared;
+};
+
+const arrowHeadParts = (gen: RoughGenerator, x2: number, y2: number, angle: number, color: string, strokeWidth: number, roughness: number, arrowSize: number, seed: number): DrawablePart[] => {
+  const x3 = x2 - arrowSize * Math.cos(angle - Math.PI / 6);
+  const y3 = y2 - arrowSize * Math.sin(angle - Math.PI / 6);
+  const x4 = x2 - arrowSize * Math.cos(angle + Math.PI / 6);
+  const y4 = y2 - arrowSize * Math.sin(angle + Math.PI / 6);
+
+  return [
+    drawablePart(gen.line(x2, y2, x3, y3, { stroke: color, strokeWidth, roughness, seed: hashSeed(seed, 'head', 1) })),
+    drawablePart(gen.line(x2, y2, x4, y4, { stroke: color, strokeWidth, roughness, seed: hashSeed(seed, 'head', 2) }))
+  ];
+};
+
+// `seed` is specific to this command, so inserting a command only changes the look of that command
+const prepareParts = (command: DrawCommand, gen: RoughGenerator, seed: number, theme: Theme): PreparedPart[] => {
+  const inkColor = (color: unknown) => String(resolveColor(color || 'ink', theme, 'stroke'));
+  const roughness = theme.roughness * ARROW_ROUGHNESS;
+
+  switch (command.type) {
+    case 'rough': {
+      // Only whitelisted method names ever reach the generator, see RoughMethod
+      const method = gen[command.method] as (...args: any[]) => Drawable;
+      return [drawablePart(method.apply(gen, prepareRoughArgs(command.method, command.args, seed, theme)))];
+    }
+
+    case 'arrow': {
+      const { x1, y1, x2, y2 } = command;
+      const { strokeWidth = 2, arrowSize = 20 } = command.options;
+      const color = inkColor(command.options.color);
+      return [
+        drawablePart(gen.line(x1, y1, x2, y2, { stroke: color, strokeWidth, roughness, seed })),
+        ...arrowHeadParts(gen, x2, y2, Math.atan2(y2 - y1, x2 - x1), color, strokeWidth, roughness, arrowSize, seed)
+      ];
+    }
+
+    case 'curve': {
+      const { x1, y1, x2, y2, offset } = command;
+      const { strokeWidth = 2, arrow = false, arrowSize = 20 } = command.options;
+      const color = inkColor(command.options.color);
+
+      const midX = (x1 + x2) / 2;
+      const midY = (y1 + y2) / 2;
+      const dx = x2 - x1;
+      const dy = y2 - y1;
+      const len = Math.sqrt(dx * dx + dy * dy);
+      const udx = -dy / len;
+      const udy = dx / len;
+      const cx = midX + udx * offset;
+      const cy = midY + udy * offset;
+      const path = `M${x1} ${y1} Q${cx} ${cy} ${x2} ${y2}`;
+
+      const parts = [drawablePart(gen.path(path, { stroke: color, strokeWidth, roughness, seed }))];
+      if (arrow) {
+        parts.push(...arrowHeadParts(gen, x2, y2, Math.atan2(y2 - cy, x2 - cx), color, strokeWidth, roughness, arrowSize, seed));
+      }
+      return parts;
+    }
+
+    case 'text': {
+      const { text, x, y, options } = command;
+      const { lines, size, align } = layoutText(text, options, createTextMeasurer(theme.fontFamily));
+      return [{
+        type: 'text',
+        lines,
+        x,
+        y,
+        fontSize: size,
+        fontFamily: theme.fontFamily,
+        align,
+        color: inkColor(options.color),
+        halo: theme.background,
+        charCount: lines.reduce((sum, line) => sum + line.length, 0)
+      }];
+    }
+  }
+};
+
+// --- Reveal Schedule ---
+// Outlines are drawn before their fills, like a person sketching, even though fills are painted underneath.
+
+const setWeight = ({ set, length }: PreparedSet) => {
+  if (set.type === 'fillPath') return FILL_PATH_WEIGHT;
+  if (set.type === 'fillSketch') return length * FILL_SKETCH_WEIGHT;
+  return length;
+};
+
+const scheduleOrder = (part: DrawablePart) => [
+  ...part.sets.filter(s => s.set.type === 'path'),
+  ...part.sets.filter(s => s.set.type !== 'path')
+];
+
+const partWeight = (part: PreparedPart) => part.type === 'text'
+  ? part.charCount * TEXT_CHAR_WEIGHT
+  : part.sets.reduce((sum, s) => sum + setWeight(s), 0);
+
+// Portion of the command's progress, in [0, 1], during which one set or text part is revealed
+export interface RevealWindow {
+  from: number;
+  to: number;
+}
+
+// Lays the parts out back to back in schedule order, each taking a share of the command proportional to its weight
+export const getRevealWindows = (parts: PreparedPart[]): Map<PreparedSet | TextPart, RevealWindow> => {
+  const entries: Array<[PreparedSet | TextPart, number]> = [];
+
+  parts.forEach(part => {
+    if (part.type === 'text') {
+      entries.push([part, partWeight(part)]);
+    } else {
+      scheduleOrder(part).forEach(s => entries.push([s, setWeight(s)]));
+    }
+  });
+
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  const windows = new Map<PreparedSet | TextPart, RevealWindow>();
+  let cursor = 0;
+
+  entries.forEach(([entry, weight]) => {
+    const from = total > 0 ? cursor / total : 0;
+    cursor += weight;
+    windows.set(entry, { from, to: total > 0 ? cursor / total : 0 });
+  });
+
+  return windows;
+};
+
+// Splits the command's progress into a per-set / per-text fraction following the schedule above
+const revealFractions = (parts: PreparedPart[], progress: number): Map<PreparedSet | TextPart, number> => {
+  const fractions = new Map<PreparedSet | TextPart, number>();
+
+  getRevealWindows(parts).forEach(({ from, to }, entry) => {
+    const fraction = to > from
+      ? Math.max(0, Math.min(1, (progress - from) / (to - from)))
+      : (progress > from || progress >= 1 ? 1 : 0);
+    fractions.set(entry, fraction);
+  });
+
+  return fractions;
+};
+
+// With the same seed and theme, a command always produces identical drawables. Each command of a step
+// gets its own seed from the step's, see buildTimeline. A command rough.js rejects (rc.path(42), say)
+// is reported and drawn as nothing, so one bad call doesn't take the rest of the step with it.
+export const prepareCommand = (command: DrawCommand, seed: number, theme: Theme = DEFAULT_THEME, gen: RoughGenerator = rough.generator()): PreparedCommand => {
+  let parts: PreparedPart[];
+  try {
+    parts = prepareParts(command, gen, seed, theme);
+  } catch (e) {
+    console.error("Skipping a command that could not be drawn", command, e);
+    return { command, parts: [], duration: 0 };
+  }
+  const weight = parts.reduce((sum, part) => sum + partWeight(part), 0);
+  // Non-numeric coordinates give NaN lengths, which would push every later command off the clock
+  const duration = Number.isFinite(weight) ? Math.max(MIN_COMMAND_MS, Math.min(MAX_COMMAND_MS, weight / INK_SPEED_PX_PER_MS)) : MIN_COMMAND_MS;
+  return { command, parts, duration };
+};
+
+
+// --- Painting ---
+
+const tracePartialOps = (ctx: Canvas2D, ops: Op[], opLengths: number[], budget: number) => {
+  let pen: Point = [0, 0];
+  ctx.beginPath();
+
+  for (let i = 0; i < ops.length; i++) {
+    const { op, data } = ops[i];
+    const len = opLengths[i];
+    const t = len > 0 ? Math.min(1, budget / len) : 1;
+    if (op !== 'move' && t <= 0) break;
+
+    switch (op) {
+      case 'move':
+        pen = [data[0], data[1]];
+        ctx.moveTo(pen[0], pen[1]);
+        break;
+      case 'lineTo': {
+        const end = lerp(pen, [data[0], data[1]], t);
+        ctx.lineTo(end[0], end[1]);
+        pen = [data[0], data[1]];
+        break;
+      }
+      case 'bcurveTo': {
+        const c1: Point = [data[0], data[1]], c2: Point = [data[2], data[3]], end: Point = [data[4], data[5]];
+        if (t >= 1) {
+          ctx.bezierCurveTo(c1[0], c1[1], c2[0], c2[1], end[0], end[1]);
+        } else {
+          // de Casteljau: the first piece of the curve split at t
+          const p01 = lerp(pen, c1, t), p12 = lerp(c1, c2, t), p23 = lerp(c2, end, t);
+          const p012 = lerp(p01, p12, t), p123 = lerp(p12, p23, t);
+          const split = lerp(p012, p123, t);
+          ctx.bezierCurveTo(p01[0], p01[1], p012[0], p012[1], split[0], split[1]);
+        }
+        pen = end;
+        break;
+      }
+    }
+    budget -= len;
+  }
+};
+
+// Mirrors RoughCanvas.draw for a single op set, but can stop part way along the path
+const paintSet = (ctx: Canvas2D, drawable: Drawable, prepared: PreparedSet, fraction: number) => {
+  if (fraction <= 0) return;
+  const o = drawable.options;
+  const { set } = prepared;
+
+  ctx.save();
+  switch (set.type) {
+    case 'path':
+      ctx.strokeStyle = o.stroke === 'none' ? 'transparent' : o.stroke;
+      ctx.lineWidth = o.strokeWidth;
+      if (o.strokeLineDash) ctx.setLineDash(o.strokeLineDash);
+      if (o.strokeLineDashOffset) ctx.lineDashOffset = o.strokeLineDashOffset;
+      tracePartialOps(ctx, set.ops, prepared.opLengths, fraction * prepared.length);
+      ctx.stroke();
+      break;
+
+    case 'fillSketch':
+      ctx.strokeStyle = o.fill || '';
+      ctx.lineWidth = o.fillWeight < 0 ? o.strokeWidth / 2 : o.fillWeight;
+      if (o.fillLineDash) ctx.setLineDash(o.fillLineDash);
+      if (o.fillLineDashOffset) ctx.lineDashOffset = o.fillLineDashOffset;
+      tracePartialOps(ctx, set.ops, prepared.opLengths, fraction * prepared.length);
+      ctx.stroke();
+      break;
+
+    case 'fillPath': {
+      // Solid fills can't be traced, so they fade in instead
+      ctx.globalAlpha *= fraction;
+      ctx.fillStyle = o.fill || '';
+      const fillRule = (drawable.shape === 'curve' || drawable.shape === 'polygon' || drawable.shape === 'path') ? 'evenodd' : 'nonzero';
+      tracePartialOps(ctx, set.ops, prepared.opLengths, Infinity);
+      ctx.fill(fillRule);
+      break;
+    }
+  }
+  ctx.restore();
+};
+
+// Vertical center of each line, with the whole block centered on the text's y
+export const getTextLineYs = (part: TextPart): number[] => {
+  const lineHeight = part.fontSize * LINE_HEIGHT;
+  const startY = part.y - ((part.lines.length - 1) * lineHeight) / 2;
+  return part.lines.map((_, i) => startY + (i * lineHeight));
+};
+
+// Written glyph by glyph. Partially written lines are anchored where the complete, aligned line will sit.
+const paintText = (ctx: Canvas2D, part: TextPart, fraction: number) => {
+  let visibleChars = fraction >= 1 ? part.charCount : Math.floor(fraction * part.charCount);
+  if (visibleChars <= 0) return;
+
+  ctx.save();
+  ctx.font = `bold ${part.fontSize}px ${part.fontFamily}`;
+  ctx.fillStyle = part.color;
+  ctx.textBaseline = "middle";
+  ctx.shadowColor = part.halo;
+  ctx.shadowBlur = 4;
+  ctx.shadowOffsetX = 0;
+  ctx.shadowOffsetY = 0;
+
+  const lineYs = getTextLineYs(part);
+
+  part.lines.forEach((line, i) => {
+    if (visibleChars <= 0) return;
+    const lineY = lineYs[i];
+
+    if (visibleChars >= line.length) {
+      ctx.textAlign = part.align;
+      ctx.fillText(line, part.x, lineY);
+      ctx.fillText(line, part.x, lineY);
+    } else {
+      const lineWidth = ctx.measureText(line).width;
+      const left = part.align === 'left' ? part.x : part.align === 'right' ? part.x - lineWidth : part.x - lineWidth / 2;
+      const written = line.slice(0, visibleChars);
+      ctx.textAlign = "left";
+      ctx.fillText(written, left, lineY);
+      ctx.fillText(written, left, lineY);
+    }
+    visibleChars -= line.length;
+  });
+  ctx.restore();
+};
+
+// Paints a prepared command with `progress` in [0, 1] of it drawn
+export const drawPreparedCommand = (ctx: Canvas2D, prepared: PreparedCommand, progress: number = 1) => {
+  const fractions = revealFractions(prepared.parts, Math.max(0, Math.min(1, progress)));
+
+  prepared.parts.forEach(part => {
+    if (part.type === 'text') {
+      paintText(ctx, part, fractions.get(part) || 0);
+    } else {
+      // Painted in rough.js' own order (fills under outlines), whatever order they are revealed in
+      part.sets.forEach(s => paintSet(ctx, part.drawable, s, fractions.get(s) || 0));
+    }
+  });
+};
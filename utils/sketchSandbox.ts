@@ -0,0 +1,164 @@
+import { parse } from 'acorn';
+import { STRICT_PROLOGUE } from './sandboxPrologue';
+import { DrawCommand, ElementTransition, RoughMethod, StepDrawing } from '../types';
+
+// --- Sandbox Limits ---
+// Step code is model output, so we treat it as untrusted: it runs in a throwaway worker realm
+// and only gets to *record* drawing commands, which are replayed on the visible canvas afterwards.
+export const SANDBOX_TIME_BUDGET_MS = 2000;
+export const SANDBOX_COMMAND_BUDGET = 5000;
+
+export interface SandboxRequest {
+  code: string;
+  width: number;
+  height: number;
+  maxCommands: number;
+}
+
+// The drawing API step code gets. Higher-level helpers (graphs, ...) are built on it,
+// so what they draw is recorded exactly like hand-written calls.
+export interface SketchPen {
+  rc: Record<RoughMethod, (...args: any[]) => void>;
+  drawArrow: (x1: number, y1: number, x2: number, y2: number, options?: any) => void;
+  drawCurve: (x1: number, y1: number, x2: number, y2: number, offset?: number, options?: any) => void;
+  drawText: (text: string, x: number, y: number, options?: any) => void;
+  // Everything drawn inside `draw` becomes part of the persistent element `id`
+  element: <T>(id: string, draw: () => T) => T;
+}
+
+export type SandboxResponse =
+  | { status: 'ok'; commands: DrawCommand[]; transitions: ElementTransition[] }
+  | { status: 'error'; kind: 'syntax' | 'runtime' | 'budget'; message: string; commands: DrawCommand[]; line?: number; column?: number };
+
+export type SandboxErrorKind = 'syntax' | 'runtime' | 'budget' | 'timeout';
+
+export class SandboxError extends Error {
+  kind: SandboxErrorKind;
+  // Whatever was recorded before the failure, useful for showing a partial drawing
+  commands: DrawCommand[];
+  // 1-based position in the step code, when the engine tells us
+  line?: number;
+  column?: number;
+
+  constructor(kind: SandboxErrorKind, message: string, commands: DrawCommand[] = [], line?: number, column?: number) {
+    super(message);
+    this.name = 'SandboxError';
+    this.kind = kind;
+    this.commands = commands;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+// `new Function` syntax errors carry no position in most engines, so the code is re-parsed here to find it
+const locateSyntaxError = (code: string): { line?: number; column?: number } => {
+  try {
+    parse(STRICT_PROLOGUE + code, { ecmaVersion: 'latest', allowReturnOutsideFunction: true });
+  } catch (err: any) {
+    if (err?.loc && err.loc.line > 1) return { line: err.loc.line - 1, column: err.loc.column + 1 };
+  }
+  return {};
+};
+
+// --- Module Access ---
+// A module worker lets any code call import(), which fetches from the network, and it can't be deleted like
+// a global. Step code is parsed before it runs and refused if it imports anything. Code built from strings at
+// run time (Function, eval, string timers) is cut off inside the worker instead.
+
+interface ModuleAccess {
+  message: string;
+  line: number;
+  column: number;
+}
+
+const findModuleAccessNode = (node: any): any => {
+  if (!node || typeof node !== 'object') return null;
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      const found = findModuleAccessNode(child);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (node.type === 'ImportExpression' || (node.type === 'MetaProperty' && node.meta?.name === 'import')) return node;
+  for (const key of Object.keys(node)) {
+    if (key === 'loc') continue;
+    const found = findModuleAccessNode(node[key]);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Parsed as a module, the only kind of code where import.meta parses at all. Code that doesn't parse is
+// left to the worker, which reports the syntax error as usual.
+export const findModuleAccess = (code: string): ModuleAccess | null => {
+  let program;
+  try {
+    program = parse(STRICT_PROLOGUE + code, { ecmaVersion: 'latest', sourceType: 'module', allowReturnOutsideFunction: true, locations: true });
+  } catch {
+    return null;
+  }
+  const node = findModuleAccessNode(program);
+  if (!node) return null;
+  const what = node.type === 'ImportExpression' ? 'import()' : 'import.meta';
+  return { message: `Step code can't use ${what}: it runs without network or module access`, line: node.loc.start.line - 1, column: node.loc.start.column + 1 };
+};
+
+interface RunOptions {
+  width: number;
+  height: number;
+  timeoutMs?: number;
+  maxCommands?: number;
+}
+
+// Executes step code in a fresh worker and resolves with the recorded commands and element transitions.
+// Every run gets its own worker so nothing one step does (globals, listeners, loops) can leak into the next.
+export const runSketchCode = (code: string, options: RunOptions): Promise<StepDrawing> => {
+  const {
+    width,
+    height,
+    timeoutMs = SANDBOX_TIME_BUDGET_MS,
+    maxCommands = SANDBOX_COMMAND_BUDGET
+  } = options;
+
+  const moduleAccess = findModuleAccess(code);
+  if (moduleAccess) {
+    const { message, line, column } = moduleAccess;
+    return Promise.reject(new SandboxError('syntax', message, [], line, column));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./sketchSandbox.worker.ts', import.meta.url), { type: 'module' });
+
+    // A runaway loop never yields back to the worker's event loop, so the only way out is terminate()
+    const timer = setTimeout(() => {
+      worker.terminate();
+      reject(new SandboxError('timeout', `Step code did not finish within ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    const finish = () => {
+      clearTimeout(timer);
+      worker.terminate();
+    };
+
+    worker.onmessage = (e: MessageEvent<SandboxResponse>) => {
+      finish();
+      const result = e.data;
+      if (result.status === 'ok') {
+        resolve({ commands: result.commands, transitions: result.transitions });
+      } else {
+        const { line, column } = result.kind === 'syntax' ? locateSyntaxError(code) : result;
+        reject(new SandboxError(result.kind, result.message, result.commands, line, column));
+      }
+    };
+
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      finish();
+      reject(new SandboxError('runtime', e.message || 'Sandbox worker failed'));
+    };
+
+    const request: SandboxRequest = { code, width, height, maxCommands };
+    worker.postMessage(request);
+  });
+};
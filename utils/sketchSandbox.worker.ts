@@ -0,0 +1,236 @@
+import type { DrawCommand, ElementTransition, RoughMethod, TransitionKind } from '../types';
+import { STRICT_PROLOGUE } from './sandboxPrologue';
+import type { SandboxRequest, SandboxResponse } from './sketchSandbox';
+import { createDrawGraph } from './graphLayout';
+import { createDrawBarChart, createDrawLineChart, createDrawTable } from './sketchCharts';
+import { createDrawFormula } from './sketchFormula';
+import { createDrawIcon } from './sketchIcons';
+import { ROUGH_OPTIONS_INDEX } from './sketchObjects';
+import { getTextBounds, layoutText } from './textLayout';
+import { estimateTextWidth } from './textMetrics';
+
+// Runs inside a dedicated worker: no DOM, no localStorage, no access to the app's state.
+// We additionally strip the network and messaging globals before any step code is evaluated.
+
+const scope = self as any;
+const reply: (response: SandboxResponse) => void = scope.postMessage.bind(scope);
+
+const BLOCKED_GLOBALS = [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport', 'BroadcastChannel',
+  'importScripts', 'indexedDB', 'caches', 'Worker', 'SharedWorker', 'Request', 'Response',
+  'navigator', 'location', 'postMessage', 'close', 'addEventListener', 'onmessage',
+  // Their prototypes hold the real members, e.g. WorkerGlobalScope.prototype.fetch
+  'WorkerGlobalScope', 'DedicatedWorkerGlobalScope', 'EventTarget',
+  // Code built from strings would skip the import() check the step code passed, see sketchSandbox.ts
+  'eval', 'Function', 'setTimeout', 'setInterval'
+];
+
+// Taken before the lockdown; only the worker itself compiles step code
+const createFunction: FunctionConstructor = Function;
+
+// Every kind of function leads back to a constructor that compiles strings through `fn.constructor`
+const FUNCTION_PROTOTYPES = [
+  Function.prototype,
+  Object.getPrototypeOf(async function () {}),
+  Object.getPrototypeOf(function* () {}),
+  Object.getPrototypeOf(async function* () {})
+];
+
+const ROUGH_METHODS: RoughMethod[] = ['rectangle', 'circle', 'ellipse', 'line', 'linearPath', 'polygon', 'arc', 'curve', 'path'];
+
+class BudgetExceededError extends Error {}
+
+const blockMember = (target: object, name: string) => {
+  try {
+    delete (target as any)[name];
+    Object.defineProperty(target, name, { value: undefined, writable: false, configurable: false });
+  } catch {
+    // Some globals are non-configurable in certain engines; the worker realm still has no app state to reach
+  }
+};
+
+// Most of the globals are accessors on the scope's prototypes (WorkerGlobalScope, EventTarget), which step code
+// could still call with the scope as `this`. So they go from every prototype as well, together with the way
+// back to the constructors.
+const lockDownGlobals = () => {
+  const prototypes: object[] = [];
+  for (let proto = Object.getPrototypeOf(scope); proto && proto !== Object.prototype; proto = Object.getPrototypeOf(proto)) {
+    prototypes.push(proto);
+  }
+
+  for (const target of [scope, ...prototypes]) {
+    BLOCKED_GLOBALS.forEach(name => blockMember(target, name));
+  }
+  prototypes.forEach(proto => blockMember(proto, 'constructor'));
+  FUNCTION_PROTOTYPES.forEach(proto => blockMember(proto, 'constructor'));
+};
+
+// Helpers like drawFormula call back into the pen from deep inside their own layout code; V8 keeps
+// only 10 frames by default, which can cut off the step code's frame
+(Error as any).stackTraceLimit = Math.max(Number((Error as any).stackTraceLimit) || 0, 50);
+
+// Frames from `new Function` code look like "<anonymous>:LINE:COL" (V8/WebKit) or "> Function:LINE:COL" (Firefox)
+const FUNCTION_FRAME = /(?:<anonymous>|> Function):(\d+):(\d+)/;
+
+// Engines number lines from the generated `function anonymous(...) {` wrapper, not from the step code.
+// Measuring where a probe lands, behind the same prologue as step code, gives the offset without hard-coding any engine's wrapper.
+const measureLineOffset = (): number => {
+  try {
+    const stack = String(createFunction(STRICT_PROLOGUE + 'return new Error().stack')());
+    const match = stack.match(FUNCTION_FRAME);
+    return match ? Number(match[1]) - 1 : 0;
+  } catch {
+    return 0;
+  }
+};
+
+// The innermost frame in step code: where it failed, or where it called one of the drawing helpers
+const locateInStepCode = (stack: unknown, lineOffset: number): { line?: number; column?: number } => {
+  const match = typeof stack === 'string' ? stack.match(FUNCTION_FRAME) : null;
+  if (!match) return {};
+  const line = Number(match[1]) - lineOffset;
+  return line >= 1 ? { line, column: Number(match[2]) } : {};
+};
+
+// Arguments must survive postMessage; JSON also drops functions and getters the code might smuggle in
+const plain = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+const isElementId = (id: unknown): id is string | number =>
+  (typeof id === 'string' && id.trim() !== '') || (typeof id === 'number' && Number.isFinite(id));
+
+const toElementId = (id: unknown, usage: string): string => {
+  if (!isElementId(id)) throw new Error(`${usage} needs the id of an element`);
+  return String(id);
+};
+
+const toNumber = (value: unknown, usage: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`${usage} needs numbers`);
+  return value;
+};
+
+// The `id` option any drawing call can take to name the element it draws
+const optionsElement = (command: DrawCommand): string | undefined => {
+  const options = command.type === 'rough' ? command.args[ROUGH_OPTIONS_INDEX[command.method]] : command.options;
+  return isElementId(options?.id) ? String(options.id) : undefined;
+};
+
+// Where each helper takes its options, so an `id` there makes the whole helper drawing one element
+const HELPER_OPTIONS_INDEX = { drawGraph: 1, drawTable: 3, drawBarChart: 5, drawLineChart: 5, drawFormula: 3, drawIcon: 4 };
+
+const execute = ({ code, width, height, maxCommands }: SandboxRequest): SandboxResponse => {
+  const commands: DrawCommand[] = [];
+  const transitions: ElementTransition[] = [];
+  const lineOffset = measureLineOffset();
+  // The element being drawn by drawElement; the outermost one wins when they are nested
+  let currentElement: string | undefined;
+
+  const checkBudget = () => {
+    if (commands.length + transitions.length >= maxCommands) {
+      throw new BudgetExceededError(`Step exceeded the limit of ${maxCommands} drawing commands`);
+    }
+  };
+
+  // Every command remembers its call site, so canvas edits can patch the right call
+  const record = (command: DrawCommand) => {
+    checkBudget();
+    const element = currentElement ?? optionsElement(command);
+    commands.push({ ...plain(command), source: locateInStepCode(new Error().stack, lineOffset), ...(element ? { element } : {}) });
+  };
+
+  const element = <T>(id: string, draw: () => T): T => {
+    if (currentElement !== undefined) return draw();
+    currentElement = id;
+    try {
+      return draw();
+    } finally {
+      currentElement = undefined;
+    }
+  };
+
+  const drawElement = (id: unknown, draw: unknown) => {
+    const elementId = toElementId(id, 'drawElement(id, draw)');
+    if (typeof draw !== 'function') throw new Error('drawElement(id, draw) needs a function that draws the element');
+    return element(elementId, () => draw());
+  };
+
+  const transition = (kind: TransitionKind, id: unknown, usage: string, values: Partial<ElementTransition> = {}) => {
+    checkBudget();
+    transitions.push({ kind, element: toElementId(id, usage), ...values, at: commands.length });
+  };
+
+  const moveElement = (id: unknown, dx: unknown, dy: unknown) => {
+    const usage = 'moveElement(id, dx, dy)';
+    transition('move', id, usage, { dx: toNumber(dx, usage), dy: toNumber(dy, usage) });
+  };
+
+  const fadeElement = (id: unknown, opacity: unknown = 0) => {
+    const usage = 'fadeElement(id, opacity)';
+    transition('fade', id, usage, { opacity: Math.max(0, Math.min(1, toNumber(opacity, usage))) });
+  };
+
+  const highlightElement = (id: unknown) => transition('highlight', id, 'highlightElement(id)');
+  const eraseElement = (id: unknown) => transition('erase', id, 'eraseElement(id)');
+
+  // Helpers called with an `id` option draw that one element, whatever they draw inside
+  const withElementOption = <F extends (...args: any[]) => any>(helper: F, optionsIndex: number) =>
+    ((...args: any[]) => {
+      const id = args[optionsIndex]?.id;
+      return isElementId(id) ? element(String(id), () => helper(...args)) : helper(...args);
+    }) as F;
+
+  const rc = Object.freeze(Object.fromEntries(
+    ROUGH_METHODS.map(method => [method, (...args: any[]) => record({ type: 'rough', method, args })])
+  ) as Record<RoughMethod, (...args: any[]) => void>);
+
+  const drawArrow = (x1: number, y1: number, x2: number, y2: number, options: any = {}) =>
+    record({ type: 'arrow', x1, y1, x2, y2, options });
+
+  const drawCurve = (x1: number, y1: number, x2: number, y2: number, offset: number = 0, options: any = {}) =>
+    record({ type: 'curve', x1, y1, x2, y2, offset, options });
+
+  // The worker has no fonts, so the bounds handed back come from the width estimate. The renderer
+  // lays the text out again with real measurements, which can come out slightly different.
+  const drawText = (text: string, x: number, y: number, options: any = {}) => {
+    record({ type: 'text', text: String(text), x, y, options });
+    const bounds = getTextBounds(x, y, layoutText(String(text), options || {}, estimateTextWidth));
+    return Object.fromEntries(Object.entries(bounds).map(([key, value]) => [key, Math.round(value * 10) / 10]));
+  };
+
+  const pen = { rc, drawArrow, drawCurve, drawText, element };
+  const drawGraph = withElementOption(createDrawGraph(pen, width, height), HELPER_OPTIONS_INDEX.drawGraph);
+  const drawTable = withElementOption(createDrawTable(pen), HELPER_OPTIONS_INDEX.drawTable);
+  const drawBarChart = withElementOption(createDrawBarChart(pen), HELPER_OPTIONS_INDEX.drawBarChart);
+  const drawLineChart = withElementOption(createDrawLineChart(pen), HELPER_OPTIONS_INDEX.drawLineChart);
+  const drawFormula = withElementOption(createDrawFormula(pen), HELPER_OPTIONS_INDEX.drawFormula);
+  const drawIcon = withElementOption(createDrawIcon(pen), HELPER_OPTIONS_INDEX.drawIcon);
+
+  let drawFunction: Function;
+  try {
+    // Shadow the usual escape hatches by name as well, so plain references resolve to undefined
+    // eslint-disable-next-line no-new-func
+    drawFunction = createFunction(
+      'rc', 'width', 'height', 'drawArrow', 'drawCurve', 'drawText', 'drawGraph',
+      'drawTable', 'drawBarChart', 'drawLineChart', 'drawFormula', 'drawIcon',
+      'drawElement', 'moveElement', 'fadeElement', 'highlightElement', 'eraseElement', 'self', 'globalThis', STRICT_PROLOGUE + code
+    );
+  } catch (err: any) {
+    return { status: 'error', kind: 'syntax', message: String(err?.message ?? err), commands };
+  }
+
+  try {
+    drawFunction(
+      rc, width, height, drawArrow, drawCurve, drawText, drawGraph,
+      drawTable, drawBarChart, drawLineChart, drawFormula, drawIcon,
+      drawElement, moveElement, fadeElement, highlightElement, eraseElement, undefined, undefined
+    );
+    return { status: 'ok', commands, transitions };
+  } catch (err: any) {
+    const kind = err instanceof BudgetExceededError ? 'budget' : 'runtime';
+    return { status: 'error', kind, message: String(err?.message ?? err), commands, ...locateInStepCode(err?.stack, lineOffset) };
+  }
+};
+
+scope.addEventListener('message', (e: MessageEvent<SandboxRequest>) => {
+  lockDownGlobals();
+  reply(execute(e.data));
+});
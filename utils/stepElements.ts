@@ -0,0 +1,121 @@
+import { DrawCommand, ElementTransition } from '../types';
+import { hashSeed } from './seed';
+
+// --- Persistent Elements ---
+// A step starts with the elements the steps before it left on the canvas. Walking its commands and
+// transitions in order says which of them it draws, what each transition acts on, and what it leaves
+// for the next step.
+
+// A command keeps the seed of the step that drew it, so an element looks the same in every later step
+export interface ElementCommand {
+  command: DrawCommand;
+  seed: number;
+}
+
+export interface ElementState {
+  commands: ElementCommand[];
+  dx: number;
+  dy: number;
+  opacity: number;
+}
+
+// Elements on the canvas between two steps, in painting order
+export type ElementStates = ReadonlyMap<string, ElementState>;
+
+export const NO_ELEMENTS: ElementStates = new Map();
+
+// One version of an element during a step. Carried elements come first, in painting order; an element
+// drawn again by the step gets a new track, which replaces the old one when it starts drawing.
+export interface PlannedTrack {
+  element: string;
+  carried?: ElementState;
+}
+
+export type PlanEvent =
+  | { type: 'command'; index: number; track?: number; replaces?: number }
+  | { type: 'transition'; transition: ElementTransition; track?: number };
+
+export interface StepPlan {
+  tracks: PlannedTrack[];
+  // Playing order. Commands that redraw an element exactly as it already is are left out.
+  events: PlanEvent[];
+  elements: ElementStates;
+}
+
+// Same drawing, wherever in the step code it was called from
+const commandKey = ({ source, ...command }: DrawCommand) => JSON.stringify(command);
+
+const isUnchanged = (state: ElementState, commands: DrawCommand[]) =>
+  state.dx === 0 && state.dy === 0 && state.opacity === 1
+  && state.commands.length === commands.length
+  && state.commands.every(({ command }, i) => commandKey(command) === commandKey(commands[i]));
+
+// Transitions on ids that are not on the canvas are skipped; the step might just have been reordered
+export const planStep = (carried: ElementStates, commands: DrawCommand[], transitions: ElementTransition[], stepSeed: number): StepPlan => {
+  const elements = new Map([...carried].map(([id, state]) => [id, { ...state, commands: [...state.commands] }]));
+  const tracks: PlannedTrack[] = [...carried].map(([element, state]) => ({ element, carried: state }));
+  const current = new Map(tracks.map(({ element }, track) => [element, track]));
+  const events: PlanEvent[] = [];
+
+  const drawnBy = new Map<string, DrawCommand[]>();
+  commands.forEach(command => {
+    if (command.element) drawnBy.set(command.element, [...(drawnBy.get(command.element) ?? []), command]);
+  });
+  // Redrawing an element unchanged (a graph declared again in every step, say) keeps the one on the canvas
+  const unchanged = new Set([...drawnBy].filter(([id, drawn]) => carried.has(id) && isUnchanged(carried.get(id)!, drawn)).map(([id]) => id));
+  const started = new Set<string>();
+
+  const remove = (id: string) => {
+    elements.delete(id);
+    current.delete(id);
+  };
+
+  const applyTransition = (transition: ElementTransition) => {
+    const state = elements.get(transition.element);
+    events.push({ type: 'transition', transition, track: state ? current.get(transition.element) : undefined });
+    if (!state) return;
+
+    switch (transition.kind) {
+      case 'move':
+        state.dx += transition.dx ?? 0;
+        state.dy += transition.dy ?? 0;
+        break;
+      case 'fade':
+        state.opacity = transition.opacity ?? 0;
+        if (state.opacity <= 0) remove(transition.element);
+        break;
+      case 'erase':
+        remove(transition.element);
+        break;
+    }
+  };
+
+  for (let index = 0; index <= commands.length; index++) {
+    transitions.filter(t => t.at === index).forEach(applyTransition);
+    if (index === commands.length) break;
+
+    const command = commands[index];
+    const id = command.element;
+    if (!id) {
+      events.push({ type: 'command', index });
+      continue;
+    }
+    if (unchanged.has(id)) continue;
+
+    if (!started.has(id) || !elements.has(id)) {
+      started.add(id);
+      const replaces = current.get(id);
+      const track = tracks.push({ element: id }) - 1;
+      current.set(id, track);
+      // Deleted first so the new version paints above everything that was already there
+      elements.delete(id);
+      elements.set(id, { commands: [], dx: 0, dy: 0, opacity: 1 });
+      events.push({ type: 'command', index, track, replaces });
+    } else {
+      events.push({ type: 'command', index, track: current.get(id) });
+    }
+    elements.get(id)!.commands.push({ command, seed: hashSeed(stepSeed, index) });
+  }
+
+  return { tracks, events, elements };
+};
@@ -0,0 +1,242 @@
+import { parse } from 'acorn';
+import { DrawCommand, SketchStep } from '../types';
+import { commandToElement } from './sceneInterpreter';
+import { ROUGH_OPTIONS_INDEX } from './sketchObjects';
+
+// --- Writing Canvas Edits Back ---
+// An element edited on the canvas is saved into the step itself: scene steps get the element's fields
+// rewritten, code steps get the arguments of the call that drew it patched in place.
+
+export class StepPatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StepPatchError';
+  }
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Only what the patcher reads from acorn's ESTree output
+interface Node {
+  type: string;
+  start: number;
+  end: number;
+  [key: string]: any;
+}
+
+const isNode = (value: unknown): value is Node =>
+  typeof value === 'object' && value !== null && typeof (value as Node).type === 'string';
+
+const walk = (node: Node, visit: (node: Node) => void) => {
+  visit(node);
+  Object.values(node).forEach(child => {
+    if (Array.isArray(child)) child.filter(isNode).forEach(n => walk(n, visit));
+    else if (isNode(child)) walk(child, visit);
+  });
+};
+
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+// Step code conventionally uses single quotes; a replaced literal keeps whichever quotes it had
+const quote = (text: string, like?: Node) => {
+  if (like?.type === 'Literal' && like.raw?.startsWith('"')) return JSON.stringify(text);
+  return `'${JSON.stringify(text).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+};
+
+const formatValue = (value: unknown, like?: Node) =>
+  typeof value === 'number' ? formatNumber(value) : typeof value === 'string' ? quote(value, like) : JSON.stringify(value);
+
+// Positional arguments (everything but the options object) in call order
+const getPositionalArgs = (command: DrawCommand): unknown[] => {
+  switch (command.type) {
+    case 'rough':
+      return command.args.slice(0, ROUGH_OPTIONS_INDEX[command.method]);
+    case 'arrow':
+      return [command.x1, command.y1, command.x2, command.y2];
+    case 'curve':
+      return [command.x1, command.y1, command.x2, command.y2, command.offset];
+    case 'text':
+      return [command.text, command.x, command.y];
+  }
+};
+
+const getOptions = (command: DrawCommand): Record<string, unknown> =>
+  (command.type === 'rough' ? command.args[ROUGH_OPTIONS_INDEX[command.method]] : command.options) || {};
+
+const getOptionsIndex = (command: DrawCommand) => {
+  switch (command.type) {
+    case 'rough': return ROUGH_OPTIONS_INDEX[command.method];
+    case 'arrow': return 4;
+    case 'curve': return 5;
+    case 'text': return 3;
+  }
+};
+
+const getCalleeName = (command: DrawCommand) => {
+  switch (command.type) {
+    case 'rough': return command.method;
+    case 'arrow': return 'drawArrow';
+    case 'curve': return 'drawCurve';
+    case 'text': return 'drawText';
+  }
+};
+
+const callsFunction = (call: Node, name: string) => {
+  const { callee } = call;
+  if (callee.type === 'Identifier') return callee.name === name;
+  return callee.type === 'MemberExpression' && !callee.computed && callee.property.name === name;
+};
+
+// Expressions that need parentheses before something is added to them
+const LOOSE_EXPRESSIONS = ['BinaryExpression', 'LogicalExpression', 'ConditionalExpression', 'AssignmentExpression', 'SequenceExpression', 'ArrowFunctionExpression'];
+
+const createPatcher = (code: string, call: Node) => {
+  const edits: TextEdit[] = [];
+  const source = (node: Node) => code.slice(node.start, node.end);
+  const replace = (node: Node, text: string) => edits.push({ start: node.start, end: node.end, text });
+
+  const patchNumber = (node: Node, from: number, to: number) => {
+    const isLiteral = node.type === 'Literal'
+      || (node.type === 'UnaryExpression' && node.operator === '-' && node.argument.type === 'Literal');
+    if (isLiteral) {
+      replace(node, formatNumber(to));
+      return;
+    }
+    // Computed positions keep their expression and get an offset, so `cx + 40` becomes `cx + 40 + 12`
+    const delta = to - from;
+    const base = LOOSE_EXPRESSIONS.includes(node.type) ? `(${source(node)})` : source(node);
+    replace(node, `${base} ${delta < 0 ? '-' : '+'} ${formatNumber(Math.abs(delta))}`);
+  };
+
+  const patchValue = (node: Node | undefined, from: unknown, to: unknown, label: string) => {
+    if (JSON.stringify(from) === JSON.stringify(to)) return;
+    if (!node || node.type === 'SpreadElement') {
+      throw new StepPatchError(`The ${label} is not written out in the code, so it can't be changed from the canvas`);
+    }
+    if (typeof from === 'number' && typeof to === 'number') {
+      patchNumber(node, from, to);
+    } else if (typeof to === 'string') {
+      const isPlainString = (node.type === 'Literal' && typeof node.value === 'string')
+        || (node.type === 'TemplateLiteral' && node.expressions.length === 0);
+      if (!isPlainString) throw new StepPatchError(`The ${label} is computed in the code; edit it there instead`);
+      replace(node, quote(to, node));
+    } else if (Array.isArray(from) && Array.isArray(to)) {
+      if (node.type !== 'ArrayExpression' || node.elements.length !== from.length) {
+        throw new StepPatchError(`The ${label} is computed in the code; edit it there instead`);
+      }
+      from.forEach((item, i) => patchValue(node.elements[i], item, to[i], label));
+    } else {
+      throw new StepPatchError(`The ${label} can't be changed from the canvas`);
+    }
+  };
+
+  const patchOption = (optionsIndex: number, key: string, value: unknown) => {
+    const entry = `${key}: ${formatValue(value)}`;
+    const node: Node | undefined = call.arguments[optionsIndex];
+
+    if (!node) {
+      const last: Node | undefined = call.arguments[call.arguments.length - 1];
+      if (!last || call.arguments.length !== optionsIndex) {
+        throw new StepPatchError("The drawing call has too few arguments to add options to");
+      }
+      edits.push({ start: last.end, end: last.end, text: `, { ${entry} }` });
+      return;
+    }
+    if (node.type !== 'ObjectExpression') {
+      // Options built elsewhere (a shared style variable, say) are extended for this call only
+      replace(node, `{ ...${source(node)}, ${entry} }`);
+      return;
+    }
+    const property = node.properties.find((p: Node) =>
+      p.type === 'Property' && !p.computed && (p.key.name === key || p.key.value === key));
+    if (property) {
+      replace(property.value, formatValue(value, property.value));
+    } else if (node.properties.length === 0) {
+      replace(node, `{ ${entry} }`);
+    } else {
+      const last = node.properties[node.properties.length - 1];
+      edits.push({ start: last.end, end: last.end, text: `, ${entry}` });
+    }
+  };
+
+  const apply = () => [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, { start, end, text: insert }) => text.slice(0, start) + insert + text.slice(end), code);
+
+  return { patchValue, patchOption, apply };
+};
+
+// Finds the call that recorded `original` and rewrites its arguments to record `edited` instead
+export const patchCodeCall = (code: string, original: DrawCommand, edited: DrawCommand): string => {
+  const { line, column } = original.source || {};
+  if (line === undefined || column === undefined) {
+    throw new StepPatchError("Couldn't tell which line of the code drew this element");
+  }
+
+  let program: Node;
+  try {
+    program = parse(code, { ecmaVersion: 'latest', allowReturnOutsideFunction: true }) as unknown as Node;
+  } catch {
+    throw new StepPatchError("The step code doesn't parse, so it can't be patched");
+  }
+
+  const lineStarts = [0];
+  for (let i = 0; i < code.length; i++) if (code[i] === '\n') lineStarts.push(i + 1);
+  const offset = (lineStarts[line - 1] ?? code.length) + column - 1;
+
+  // The engine reports a position somewhere inside the call; the innermost matching call is the one
+  const name = getCalleeName(original);
+  let call: Node | null = null;
+  walk(program, node => {
+    if (node.type !== 'CallExpression' || node.start > offset || node.end < offset || !callsFunction(node, name)) return;
+    if (!call || node.end - node.start < call.end - call.start) call = node;
+  });
+  if (!call) throw new StepPatchError(`Couldn't find the ${name}(...) call for this element in the code`);
+
+  const patcher = createPatcher(code, call);
+  const callArgs: Node[] = (call as Node).arguments;
+
+  const before = getPositionalArgs(original);
+  const after = getPositionalArgs(edited);
+  before.forEach((value, i) => {
+    const label = typeof value === 'string' ? 'text' : Array.isArray(value) ? 'list of points' : `argument ${i + 1}`;
+    patcher.patchValue(callArgs[i], value, after[i], label);
+  });
+
+  const oldOptions = getOptions(original);
+  const newOptions = getOptions(edited);
+  Object.keys(newOptions).forEach(key => {
+    if (newOptions[key] !== oldOptions[key]) patcher.patchOption(getOptionsIndex(original), key, newOptions[key]);
+  });
+
+  return patcher.apply();
+};
+
+const isSameSite = (a: DrawCommand, b: DrawCommand) =>
+  a.source?.line === b.source?.line && a.source?.column === b.source?.column;
+
+// Writes `edited` over the command at `index` of the step's recorded `commands`
+export const patchStep = (step: SketchStep, commands: DrawCommand[], index: number, edited: DrawCommand): SketchStep => {
+  const original = commands[index];
+  if (!original) throw new StepPatchError("That element is no longer part of the drawing");
+
+  if (step.kind === 'scene') {
+    const id = original.source?.elementId;
+    const elements = step.scene.elements.map(el => el.id === id ? commandToElement(edited, el) : el);
+    if (!step.scene.elements.some(el => el.id === id)) {
+      throw new StepPatchError("Couldn't find this element in the scene");
+    }
+    return { ...step, scene: { ...step.scene, elements } };
+  }
+
+  // One call drawing several elements (a loop, or a helper function) can't be edited for just one of them
+  const shared = commands.filter(command => isSameSite(command, original)).length;
+  if (shared > 1) {
+    throw new StepPatchError(`This element is drawn by a line of code that also draws ${shared - 1} other element${shared > 2 ? 's' : ''} (a loop or helper); edit it in the code instead`);
+  }
+  return { ...step, code: patchCodeCall(step.code, original, edited) };
+};
@@ -0,0 +1,62 @@
+import { CanvasSize, DrawCommand, SketchStep, StepDrawing } from '../types';
+import { runSketchCode } from './sketchSandbox';
+import { sceneToCommands, validateScene } from './sceneInterpreter';
+import { getStepSeed } from './seed';
+import { ElementStates, NO_ELEMENTS, planStep } from './stepElements';
+
+// The storyboard's canvas; step code sees it as width/height
+type StepRunOptions = CanvasSize;
+
+// Produces what a step draws regardless of its format.
+// Scenes are plain data and are interpreted directly; code always goes through the sandbox.
+export const loadStepDrawing = async (step: SketchStep, options: StepRunOptions): Promise<StepDrawing> => {
+  if (step.kind === 'scene') {
+    const errors = validateScene(step.scene);
+    if (errors.length > 0) {
+      throw new Error(`Invalid scene: ${errors.join('; ')}`);
+    }
+    return { commands: sceneToCommands(step.scene), transitions: [] };
+  }
+
+  return runSketchCode(step.code, options);
+};
+
+export const loadStepCommands = async (step: SketchStep, options: StepRunOptions): Promise<DrawCommand[]> =>
+  (await loadStepDrawing(step, options)).commands;
+
+// --- Carried Elements ---
+
+// What a list of steps draws, as a string. Saving the storyboard replaces step objects (a streamed step
+// arriving, a dry-run repair), so views that replay earlier steps compare this instead of the array.
+export const getDrawingKey = (steps: SketchStep[]): string =>
+  JSON.stringify(steps.map(step => [getStepSeed(step), step.kind === 'scene' ? step.scene : step.code]));
+
+// Earlier steps are replayed for every step after them, so their drawings are kept per canvas size.
+// Editing a step replaces the step object, which drops its entries.
+const drawingCache = new WeakMap<SketchStep, Map<string, Promise<StepDrawing>>>();
+
+const loadCachedDrawing = (step: SketchStep, options: StepRunOptions): Promise<StepDrawing> => {
+  const key = `${options.width}x${options.height}`;
+  const byCanvas = drawingCache.get(step) ?? new Map<string, Promise<StepDrawing>>();
+  drawingCache.set(step, byCanvas);
+
+  const cached = byCanvas.get(key);
+  if (cached) return cached;
+  const drawing = loadStepDrawing(step, options);
+  byCanvas.set(key, drawing);
+  drawing.catch(() => byCanvas.delete(key));
+  return drawing;
+};
+
+// The persistent elements on the canvas when the step after `previousSteps` begins.
+// A step that fails to run leaves nothing behind rather than breaking every step after it.
+export const loadCarriedElements = async (previousSteps: SketchStep[], options: StepRunOptions): Promise<ElementStates> => {
+  const drawings = await Promise.all(previousSteps.map(step => loadCachedDrawing(step, options).catch(err => {
+    console.warn("Could not replay an earlier step's elements", err);
+    return null;
+  })));
+
+  return drawings.reduce<ElementStates>((carried, drawing, i) => drawing
+    ? planStep(carried, drawing.commands, drawing.transitions, getStepSeed(previousSteps[i])).elements
+    : carried, NO_ELEMENTS);
+};
@@ -0,0 +1,48 @@
+import { CanvasSize, SketchStep, Theme } from '../types';
+import { loadCarriedElements, loadStepDrawing } from './stepRunner';
+import { getStepSeed, hashSeed } from './seed';
+import { ElementStates } from './stepElements';
+import { buildTimeline, renderFittedFrame } from './timeline';
+import { loadThemeFont } from './themes';
+
+// Every thumbnail has the same 4:3 frame so filmstrips line up; other aspect ratios are letterboxed into it
+export const THUMBNAIL_WIDTH = 240;
+export const THUMBNAIL_HEIGHT = 180;
+
+// Steps are replaced rather than mutated, so the step object itself is a safe cache key.
+// The same step drawn on another canvas or in another theme is a different drawing, so each step keeps one per look.
+const thumbnails = new WeakMap<SketchStep, Map<string, Promise<string>>>();
+
+const renderThumbnail = async (step: SketchStep, size: CanvasSize, theme: Theme, carried: ElementStates): Promise<string> => {
+  const [{ commands, transitions }] = await Promise.all([loadStepDrawing(step, size), loadThemeFont(theme)]);
+  const timeline = buildTimeline(commands, getStepSeed(step), theme, transitions, carried);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D is not available");
+
+  renderFittedFrame(ctx, timeline, timeline.duration, size, { width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT });
+  return canvas.toDataURL('image/png');
+};
+
+// The finished drawing of a step as a small PNG data URL, with the elements the steps before it left on the canvas
+export const getStepThumbnail = async (step: SketchStep, size: CanvasSize, theme: Theme, previousSteps: SketchStep[] = []): Promise<string> => {
+  const carried = await loadCarriedElements(previousSteps, size);
+  let byLook = thumbnails.get(step);
+  if (!byLook) {
+    byLook = new Map();
+    thumbnails.set(step, byLook);
+  }
+  // Custom themes share an id, so the whole theme is part of the key
+  // and so is what the earlier steps leave behind
+  const elementsKey = carried.size > 0 ? ` ${hashSeed(JSON.stringify([...carried]))}` : '';
+  const key = `${size.width}x${size.height} ${JSON.stringify(theme)}${elementsKey}`;
+  let thumbnail = byLook.get(key);
+  if (!thumbnail) {
+    thumbnail = renderThumbnail(step, size, theme, carried);
+    byLook.set(key, thumbnail);
+  }
+  return thumbnail;
+};
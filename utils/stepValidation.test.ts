@@ -0,0 +1,25 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SketchStep, StepDrawing } from '../types';
+import { runSketchCode } from './sketchSandbox';
+import { findStepProblem } from './stepValidation';
+
+vi.mock('./sketchSandbox', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./sketchSandbox')>(),
+  runSketchCode: vi.fn()
+}));
+
+const canvas = { width: 800, height: 600 };
+const codeStep = (code: string): SketchStep => ({ kind: 'code', title: 'Step', description: '', code });
+const drawing = (value: StepDrawing) => vi.mocked(runSketchCode).mockResolvedValueOnce(value);
+
+describe('findStepProblem', () => {
+  it('flags a step that records nothing', async () => {
+    drawing({ commands: [], transitions: [] });
+    expect(await findStepProblem(codeStep('const x = 1;'), canvas)).toBe("The drawing is empty: nothing gets drawn");
+  });
+
+  it('accepts a step that only animates elements from earlier steps', async () => {
+    drawing({ commands: [], transitions: [{ kind: 'move', element: 'db', dx: 100, dy: 0, at: 0 }, { kind: 'erase', element: 'api', at: 0 }] });
+    expect(await findStepProblem(codeStep("moveElement('db', 100, 0);\neraseElement('api');"), canvas)).toBeNull();
+  });
+});
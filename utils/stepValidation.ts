@@ -0,0 +1,74 @@
+import { CanvasSize, ModelProvider, RegenerateContext, SketchStep } from '../types';
+import { SandboxError } from './sketchSandbox';
+import { loadStepDrawing } from './stepRunner';
+
+// --- Step Validation ---
+// Generated steps are dry-run in the sandbox before they are shown, so broken drawings can be sent back
+// to the model with the error instead of surfacing as "Oops! Drawing Error." on the canvas.
+
+// Re-prompts per step before giving up and keeping the broken drawing
+export const MAX_STEP_REPAIRS = 2;
+
+export interface StepRepair {
+  status: 'repairing' | 'repaired' | 'failed';
+  // What was wrong with the step as generated
+  problem: string;
+  attempts: number;
+}
+
+const HELPERS = 'rc.rectangle, rc.circle, rc.ellipse, rc.line, rc.linearPath, rc.polygon, rc.arc, rc.curve, rc.path, drawArrow, drawCurve, drawText, drawGraph, drawTable, drawBarChart, drawLineChart, drawFormula, drawIcon, drawElement, moveElement, fadeElement, highlightElement and eraseElement';
+
+// Unknown helpers fail as "x is not defined" or "rc.x is not a function"; the model needs the list of real ones
+const isUnknownName = (message: string) => / is not defined$| is not a function$/.test(message);
+
+const describeFailure = (err: unknown): string => {
+  if (!(err instanceof SandboxError)) return err instanceof Error ? err.message : String(err);
+  const where = err.line ? ` on line ${err.line}` : '';
+  switch (err.kind) {
+    case 'syntax':
+      return `Syntax error${where}: ${err.message}`;
+    case 'runtime':
+      return `Runtime error${where}: ${err.message}${isUnknownName(err.message) ? `. Only ${HELPERS} are available` : ''}`;
+    default:
+      return err.message;
+  }
+};
+
+// Why the step can't be drawn, or null when it dry-runs cleanly
+export const findStepProblem = async (step: SketchStep, canvas: CanvasSize): Promise<string | null> => {
+  if (step.kind === 'code' && !step.code.trim()) return "The step has no drawing code";
+  try {
+    // A step that only moves, fades or erases elements from earlier steps draws nothing itself
+    const { commands, transitions } = await loadStepDrawing(step, canvas);
+    return commands.length === 0 && transitions.length === 0 ? "The drawing is empty: nothing gets drawn" : null;
+  } catch (err) {
+    return describeFailure(err);
+  }
+};
+
+// Re-prompts the step with its error until it runs or the attempts run out. Never rejects:
+// a provider failure counts as a failed attempt, and the original step comes back if nothing worked.
+export const repairStep = async (
+  provider: ModelProvider,
+  step: SketchStep,
+  problem: string,
+  canvas: CanvasSize,
+  context: RegenerateContext = {}
+): Promise<{ step: SketchStep; repair: StepRepair }> => {
+  // Each attempt is shown the latest broken drawing and its error
+  let broken = step;
+  let current = problem;
+  for (let attempt = 1; attempt <= MAX_STEP_REPAIRS; attempt++) {
+    try {
+      const feedback = `The drawing fails to run. ${current}\nReturn a complete drawing that runs without errors.`;
+      const candidate = await provider.regenerateStep(broken, { ...context, feedback });
+      const remaining = await findStepProblem(candidate, canvas);
+      if (!remaining) return { step: candidate, repair: { status: 'repaired', problem, attempts: attempt } };
+      broken = candidate;
+      current = remaining;
+    } catch (e) {
+      console.error("Step repair failed", e);
+    }
+  }
+  return { step, repair: { status: 'failed', problem, attempts: MAX_STEP_REPAIRS } };
+};
@@ -0,0 +1,50 @@
+import { SketchStep, StepFormat } from '../types';
+import { createSeed } from './seed';
+
+// --- Storyboard Structure ---
+// Pure edits on the step list. Each returns the new list plus the index that should be shown afterwards.
+// Narration is keyed by a step's voice and text, not its position, so moving steps around never
+// strands or mixes up cached audio.
+
+export interface StoryboardEdit {
+  steps: SketchStep[];
+  index: number;
+}
+
+export const createBlankStep = (kind: StepFormat): SketchStep => kind === 'scene'
+  ? { kind: 'scene', title: 'New Step', description: '', scene: { elements: [] }, seed: createSeed() }
+  : { kind: 'code', title: 'New Step', description: '', code: '', seed: createSeed() };
+
+export const moveStep = (steps: SketchStep[], from: number, to: number, current: number): StoryboardEdit => {
+  const next = [...steps];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  // The step on screen stays on screen, wherever it ended up
+  return { steps: next, index: next.indexOf(steps[current]) };
+};
+
+export const deleteStep = (steps: SketchStep[], index: number, current: number): StoryboardEdit => {
+  const next = steps.filter((_, i) => i !== index);
+  const shown = current > index ? current - 1 : current;
+  return { steps: next, index: Math.min(shown, next.length - 1) };
+};
+
+export const duplicateStep = (steps: SketchStep[], index: number): StoryboardEdit => {
+  const next = [...steps];
+  next.splice(index + 1, 0, { ...steps[index] });
+  return { steps: next, index: index + 1 };
+};
+
+// Inserted after `index`; -1 inserts at the start
+export const insertStep = (steps: SketchStep[], index: number, step: SketchStep): StoryboardEdit => {
+  const next = [...steps];
+  next.splice(index + 1, 0, step);
+  return { steps: next, index: index + 1 };
+};
+
+// Swaps `count` steps starting at `index` for `replacement`, showing the first replacement step
+export const replaceSteps = (steps: SketchStep[], index: number, count: number, replacement: SketchStep[]): StoryboardEdit => {
+  const next = [...steps];
+  next.splice(index, count, ...replacement);
+  return { steps: next, index };
+};
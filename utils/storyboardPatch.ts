@@ -0,0 +1,156 @@
+import { SketchStep, StoryboardChange, StoryboardPatch } from '../types';
+import { validateScene } from './sceneInterpreter';
+import { createSeed } from './seed';
+
+// --- Applying Refinement Patches ---
+// Patches come from the model, so they are checked against the storyboard before anything is previewed.
+
+export class StoryboardPatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StoryboardPatchError';
+  }
+}
+
+export type StepField = 'title' | 'description' | 'drawing';
+
+export interface PatchRow {
+  kind: 'unchanged' | 'modified' | 'added' | 'removed';
+  before?: SketchStep;
+  after?: SketchStep;
+  // Position in the current storyboard (unset for added steps)
+  beforeIndex?: number;
+  // Position in the patched storyboard (unset for removed steps)
+  afterIndex?: number;
+  fields: StepField[];
+}
+
+export interface PatchPreview {
+  steps: SketchStep[];
+  rows: PatchRow[];
+}
+
+const getDrawing = (step: SketchStep) => step.kind === 'scene' ? JSON.stringify(step.scene) : step.code;
+
+const modifyStep = (step: SketchStep, change: Extract<StoryboardChange, { action: 'modify' }>): SketchStep => {
+  const base = {
+    title: change.title ?? step.title,
+    description: change.description ?? step.description,
+    seed: step.seed ?? createSeed()
+  };
+  if (change.scene !== undefined) {
+    const errors = validateScene(change.scene);
+    if (errors.length > 0) throw new StoryboardPatchError(`The new scene for step ${change.step + 1} is invalid: ${errors[0]}`);
+    return { ...base, kind: 'scene', scene: change.scene };
+  }
+  if (change.code !== undefined) return { ...base, kind: 'code', code: change.code };
+  return { ...step, ...base };
+};
+
+const changedFields = (before: SketchStep, after: SketchStep): StepField[] => {
+  const fields: StepField[] = [];
+  if (before.title !== after.title) fields.push('title');
+  if (before.description !== after.description) fields.push('description');
+  if (before.kind !== after.kind || getDrawing(before) !== getDrawing(after)) fields.push('drawing');
+  return fields;
+};
+
+// The patched storyboard plus one row per step for the review diff, in the new order (removed steps stay in place)
+export const previewStoryboardPatch = (steps: SketchStep[], patch: StoryboardPatch): PatchPreview => {
+  const modified = new Map<number, Extract<StoryboardChange, { action: 'modify' }>>();
+  const removed = new Set<number>();
+  const added = new Map<number, SketchStep[]>();
+
+  const checkIndex = (index: number, min = 0) => {
+    if (!Number.isInteger(index) || index < min || index >= steps.length) {
+      throw new StoryboardPatchError(`The change refers to step ${index + 1}, but the storyboard has ${steps.length} steps`);
+    }
+  };
+
+  patch.changes.forEach(change => {
+    if (change.action === 'add') {
+      checkIndex(change.after, -1);
+      if (change.step.kind === 'scene' && validateScene(change.step.scene).length > 0) {
+        throw new StoryboardPatchError(`The new step "${change.step.title}" has an invalid scene`);
+      }
+      added.set(change.after, [...(added.get(change.after) || []), change.step]);
+      return;
+    }
+    checkIndex(change.step);
+    if (modified.has(change.step) || removed.has(change.step)) {
+      throw new StoryboardPatchError(`Step ${change.step + 1} is changed more than once`);
+    }
+    if (change.action === 'remove') removed.add(change.step);
+    else modified.set(change.step, change);
+  });
+
+  if (removed.size === steps.length && added.size === 0) {
+    throw new StoryboardPatchError("The change would remove every step");
+  }
+
+  const result: SketchStep[] = [];
+  const rows: PatchRow[] = [];
+
+  const pushAdded = (after: number) => {
+    (added.get(after) || []).forEach(step => {
+      rows.push({ kind: 'added', after: step, afterIndex: result.length, fields: ['title', 'description', 'drawing'] });
+      result.push(step);
+    });
+  };
+
+  pushAdded(-1);
+  steps.forEach((step, i) => {
+    if (removed.has(i)) {
+      rows.push({ kind: 'removed', before: step, beforeIndex: i, fields: [] });
+    } else {
+      const change = modified.get(i);
+      const next = change ? modifyStep(step, change) : step;
+      const fields = changedFields(step, next);
+      rows.push({ kind: fields.length > 0 ? 'modified' : 'unchanged', before: step, after: next, beforeIndex: i, afterIndex: result.length, fields });
+      result.push(fields.length > 0 ? next : step);
+    }
+    pushAdded(i);
+  });
+
+  return { steps: result, rows };
+};
+
+// --- Line Diff ---
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Longest-common-subsequence diff; step drawings are a few hundred lines at most
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+};
+
+// What the diff view compares for a step's drawing: code as written, scenes as formatted JSON
+export const getDrawingSource = (step: SketchStep) => step.kind === 'scene' ? JSON.stringify(step.scene, null, 2) : step.code;
@@ -0,0 +1,65 @@
+// Incremental parser for a streamed `{ "steps": [ {...}, {...} ] }` response.
+// Feed it raw text chunks as they arrive; it hands back each step object as soon as its closing brace is seen,
+// without waiting for the rest of the document to be valid JSON.
+
+export interface StepsStreamParser {
+  push: (chunk: string) => any[];
+  // True once the closing bracket of the steps array has been seen
+  isDone: () => boolean;
+}
+
+const ARRAY_START = /"steps"\s*:\s*\[/;
+
+export const createStepsStreamParser = (): StepsStreamParser => {
+  let buffer = '';
+  let pos = -1; // Scan position inside buffer; -1 until the steps array has been found
+  let depth = 0;
+  let objectStart = -1;
+  let inString = false;
+  let escaped = false;
+  let done = false;
+
+  const push = (chunk: string): any[] => {
+    buffer += chunk;
+    const completed: any[] = [];
+    if (done) return completed;
+
+    if (pos === -1) {
+      const match = ARRAY_START.exec(buffer);
+      if (!match) return completed;
+      pos = match.index + match[0].length;
+    }
+
+    for (; pos < buffer.length; pos++) {
+      const char = buffer[pos];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        if (depth === 0) objectStart = pos;
+        depth++;
+      } else if (char === '}') {
+        depth--;
+        if (depth === 0 && objectStart !== -1) {
+          completed.push(JSON.parse(buffer.slice(objectStart, pos + 1)));
+          objectStart = -1;
+        }
+      } else if (char === ']' && depth === 0) {
+        done = true;
+        pos++;
+        break;
+      }
+    }
+
+    return completed;
+  };
+
+  return { push, isDone: () => done };
+};
@@ -0,0 +1,232 @@
+import rough from 'roughjs';
+import type { Drawable } from 'roughjs/bin/core';
+import { ElementTrack, getElementLook, Timeline } from './timeline';
+import { getRevealWindows, getTextLineYs, PreparedSet, RevealWindow, TextPart } from './sketchRenderer';
+import { getThemeFont } from './themes';
+
+// --- SVG Rendering ---
+// The vector twin of renderTimelineFrame: the same prepared drawables go through rough.svg instead of
+// rough.canvas, so a step exported as SVG looks exactly like it does on screen.
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Lets the exported file pick up the theme's hand-drawn font when opened on its own
+const fontImport = (googleFont: string) => `@import url('https://fonts.googleapis.com/css2?family=${googleFont}&display=swap');`;
+
+interface SvgOptions {
+  width: number;
+  height: number;
+  background?: string;
+  // Reveals every command on the timeline's own schedule using SMIL animations
+  animated?: boolean;
+}
+
+const createElement = (doc: Document, name: string, attributes: Record<string, string | number> = {}) => {
+  const el = doc.createElementNS(SVG_NS, name);
+  Object.entries(attributes).forEach(([key, value]) => el.setAttribute(key, String(value)));
+  return el;
+};
+
+const ms = (value: number) => `${Math.round(value)}ms`;
+
+const addAnimation = (doc: Document, el: Element, attributeName: string, from: string, to: string, begin: number, duration: number) => {
+  el.appendChild(createElement(doc, 'animate', {
+    attributeName, from, to, begin: ms(begin), dur: ms(Math.max(1, duration)), fill: 'freeze'
+  }));
+};
+
+const addSet = (doc: Document, el: Element, attributeName: string, to: string, begin: number) => {
+  el.appendChild(createElement(doc, 'set', { attributeName, to, begin: ms(begin), fill: 'freeze' }));
+};
+
+// Ink lengths of each subpath ("M ..." run) in a set, in the order rough.js writes them to `d`
+const subpathLengths = ({ set, opLengths }: PreparedSet): number[] => {
+  const lengths: number[] = [];
+  set.ops.forEach(({ op }, i) => {
+    if (op === 'move') lengths.push(0);
+    else if (lengths.length > 0) lengths[lengths.length - 1] += opLengths[i];
+  });
+  return lengths;
+};
+
+// Strokes are drawn on with a dash offset, one subpath after another, as the canvas does.
+// Dashed strokes and solid fills can't be traced that way and fade in instead.
+const animateSetPath = (doc: Document, path: Element, prepared: PreparedSet, begin: number, duration: number) => {
+  const traceable = prepared.set.type !== 'fillPath' && !path.hasAttribute('stroke-dasharray') && prepared.length > 0;
+  if (!traceable) {
+    path.setAttribute('opacity', '0');
+    addAnimation(doc, path, 'opacity', '0', '1', begin, duration);
+    return [path];
+  }
+
+  const lengths = subpathLengths(prepared);
+  const subpaths = (path.getAttribute('d') || '').split(/(?=M)/).filter(d => d.trim());
+  let cursor = begin;
+
+  return subpaths.map((d, i) => {
+    const piece = path.cloneNode(false) as Element;
+    const pieceDuration = duration * ((lengths[i] || 0) / prepared.length);
+    piece.setAttribute('d', d);
+    piece.setAttribute('pathLength', '1');
+    piece.setAttribute('stroke-dasharray', '1 1');
+    piece.setAttribute('stroke-dashoffset', '1');
+    addAnimation(doc, piece, 'stroke-dashoffset', '1', '0', cursor, pieceDuration);
+    cursor += pieceDuration;
+    return piece;
+  });
+};
+
+const drawableElement = (doc: Document, svg: SVGSVGElement, drawable: Drawable, sets: PreparedSet[], timing?: (s: PreparedSet) => [number, number]) => {
+  // rough.svg emits exactly one <path> per op set, in order
+  const g = rough.svg(svg).draw(drawable);
+  if (!timing) return g;
+
+  Array.from(g.children).forEach((path, i) => {
+    const [begin, duration] = timing(sets[i]);
+    const pieces = animateSetPath(doc, path, sets[i], begin, duration);
+    path.replaceWith(...pieces);
+  });
+  return g;
+};
+
+const TEXT_ANCHORS: Record<TextPart['align'], string> = { center: 'middle', left: 'start', right: 'end' };
+
+// Mirrors paintText: the theme's font in bold, aligned lines, with a soft background-colored halo instead of a canvas shadow
+const textElement = (doc: Document, part: TextPart, timing?: [number, number]) => {
+  const g = createElement(doc, 'g', {
+    'font-family': part.fontFamily,
+    'font-weight': 'bold',
+    'font-size': part.fontSize,
+    fill: part.color,
+    'text-anchor': TEXT_ANCHORS[part.align],
+    'dominant-baseline': 'middle',
+    stroke: part.halo,
+    'stroke-opacity': 0.8,
+    'stroke-width': 4,
+    'stroke-linejoin': 'round',
+    'paint-order': 'stroke'
+  });
+  const lineYs = getTextLineYs(part);
+  const charDuration = timing ? timing[1] / Math.max(1, part.charCount) : 0;
+  let written = 0;
+
+  part.lines.forEach((line, i) => {
+    const text = createElement(doc, 'text', { x: part.x, y: lineYs[i] });
+    if (!timing) {
+      text.textContent = line;
+    } else {
+      // Hidden glyphs still take up space, so the line sits where the finished line will be
+      Array.from(line).forEach(char => {
+        const glyph = createElement(doc, 'tspan', { visibility: 'hidden' });
+        glyph.textContent = char;
+        addSet(doc, glyph, 'visibility', 'visible', timing[0] + written * charDuration);
+        text.appendChild(glyph);
+        written++;
+      });
+    }
+    g.appendChild(text);
+  });
+  return g;
+};
+
+// --- Persistent Elements ---
+
+const HALO_PADDING = 10;
+// Matches the ease-in-out of the canvas transitions closely enough
+const EASE_SPLINE = '0.65 0 0.35 1';
+
+// The canvas version of a highlight also swells the element a little; the SVG only glows
+const haloElement = (doc: Document, track: ElementTrack, color: string) => {
+  const { x, y, width, height } = track.bounds!;
+  const halo = createElement(doc, 'rect', {
+    x: x - HALO_PADDING, y: y - HALO_PADDING, width: width + HALO_PADDING * 2, height: height + HALO_PADDING * 2,
+    rx: HALO_PADDING, fill: color, opacity: 0
+  });
+  track.transitions.filter(({ transition }) => transition.kind === 'highlight').forEach(({ start, duration }) => {
+    halo.appendChild(createElement(doc, 'animate', { attributeName: 'opacity', values: '0;1;0', begin: ms(start), dur: ms(duration) }));
+  });
+  return halo;
+};
+
+// Wraps one command of an element: where the element starts the step, then its moves and fades over
+// time. Erasing fades it out, since a finished drawing can't be traced backwards.
+const animatedElementGroup = (doc: Document, track: ElementTrack) => {
+  const g = createElement(doc, 'g', { transform: `translate(${track.dx} ${track.dy})`, opacity: track.opacity });
+  track.transitions.forEach(({ transition, start, duration }) => {
+    if (transition.kind === 'move') {
+      g.appendChild(createElement(doc, 'animateTransform', {
+        attributeName: 'transform', type: 'translate', from: '0 0', to: `${transition.dx ?? 0} ${transition.dy ?? 0}`,
+        begin: ms(start), dur: ms(duration), additive: 'sum', accumulate: 'none', fill: 'freeze',
+        calcMode: 'spline', keyTimes: '0;1', keySplines: EASE_SPLINE
+      }));
+    } else if (transition.kind === 'fade' || transition.kind === 'erase') {
+      const from = getElementLook(track, start).opacity;
+      addAnimation(doc, g, 'opacity', String(from), String(transition.kind === 'fade' ? transition.opacity ?? 0 : 0), start, duration);
+    }
+  });
+  if (track.hiddenAt !== Infinity) addSet(doc, g, 'visibility', 'hidden', track.hiddenAt);
+  return g;
+};
+
+// A still image shows each element as the step leaves it; erased ones are left out
+const staticElementGroup = (doc: Document, track: ElementTrack, time: number) => {
+  const look = getElementLook(track, time);
+  if (look.opacity <= 0 || look.reveal <= 0) return null;
+  return createElement(doc, 'g', { transform: `translate(${look.dx} ${look.dy})`, opacity: look.opacity });
+};
+
+export const renderTimelineSvg = (timeline: Timeline, options: SvgOptions): string => {
+  const { width, height, background = timeline.theme.background, animated = false } = options;
+  const doc = document;
+
+  // XMLSerializer adds the xmlns declaration itself, since the element is created in the SVG namespace
+  const svg = createElement(doc, 'svg', { width, height, viewBox: `0 0 ${width} ${height}` }) as SVGSVGElement;
+  const style = createElement(doc, 'style');
+  style.textContent = fontImport(getThemeFont(timeline.theme).googleFont);
+  svg.appendChild(style);
+  svg.appendChild(createElement(doc, 'rect', { width, height, fill: background }));
+
+  const haloed = new Set<number>();
+  const elementGroup = (track: number) => {
+    const element = timeline.tracks[track];
+    if (!animated) return staticElementGroup(doc, element, timeline.duration);
+
+    const g = animatedElementGroup(doc, element);
+    // The glow sits under the element, so it goes in before the element's first command
+    if (!haloed.has(track) && element.bounds && element.transitions.some(({ transition }) => transition.kind === 'highlight')) {
+      g.appendChild(haloElement(doc, element, timeline.theme.highlight));
+    }
+    haloed.add(track);
+    return g;
+  };
+
+  // Carried elements are already drawn when the step starts
+  timeline.carried.forEach(({ prepared, track }) => {
+    const group = elementGroup(track!);
+    if (!group) return;
+    prepared.parts.forEach(part => {
+      group.appendChild(part.type === 'text' ? textElement(doc, part) : drawableElement(doc, svg, part.drawable, part.sets));
+    });
+    svg.appendChild(group);
+  });
+
+  timeline.items.forEach(({ prepared, start, duration, track }) => {
+    const windows = animated ? getRevealWindows(prepared.parts) : null;
+    const timing = (entry: PreparedSet | TextPart): [number, number] => {
+      const { from, to } = windows!.get(entry) as RevealWindow;
+      return [start + from * duration, (to - from) * duration];
+    };
+
+    // One group per command keeps the stacking order of the canvas, where later commands paint on top
+    const group = track === undefined ? createElement(doc, 'g') : elementGroup(track);
+    if (!group) return;
+    prepared.parts.forEach(part => {
+      group.appendChild(part.type === 'text'
+        ? textElement(doc, part, windows ? timing(part) : undefined)
+        : drawableElement(doc, svg, part.drawable, part.sets, windows ? timing : undefined));
+    });
+    svg.appendChild(group);
+  });
+
+  return new XMLSerializer().serializeToString(svg);
+};
@@ -0,0 +1,99 @@
+import type { TextOptions } from '../types';
+import { splitLines } from './textMetrics';
+
+// --- Text Layout ---
+// Where drawText's lines break and what size they end up at. Every render path (canvas, SVG, video)
+// and the object model lay text out through here, so a label wraps the same way wherever it is drawn.
+
+// Width of one line of text at a font size
+export type TextMeasurer = (line: string, fontSize: number) => number;
+
+export type TextAlign = 'center' | 'left' | 'right';
+
+export interface TextLayout {
+  lines: string[];
+  size: number;
+  align: TextAlign;
+  // Of the widest line and of all lines together
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_TEXT_SIZE = 24;
+// Shrink-to-fit stops here unless the options ask for a smaller minimum
+export const MIN_TEXT_SIZE = 12;
+export const LINE_HEIGHT = 1.2;
+
+export const getTextSize = (options: { size?: number; fontSize?: number }) => options.size || options.fontSize || DEFAULT_TEXT_SIZE;
+
+export const getTextAlign = (options: { align?: unknown }): TextAlign =>
+  options.align === 'left' || options.align === 'right' ? options.align : 'center';
+
+const positive = (value: unknown) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+// Words that are wider than the line on their own are split between characters, but only at the minimum size
+const breakWord = (word: string, maxWidth: number, size: number, measure: TextMeasurer) => {
+  const pieces: string[] = [];
+  let piece = '';
+  for (const char of word) {
+    if (piece && measure(piece + char, size) > maxWidth) {
+      pieces.push(piece);
+      piece = char;
+    } else {
+      piece += char;
+    }
+  }
+  return piece ? [...pieces, piece] : pieces;
+};
+
+// Greedy word wrap of one paragraph
+const wrapParagraph = (paragraph: string, maxWidth: number, size: number, measure: TextMeasurer, breakWords: boolean) => {
+  const words = paragraph.split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [''];
+  const lines: string[] = [];
+  let line = '';
+  words.forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (!line || measure(candidate, size) <= maxWidth) {
+      line = candidate;
+      return;
+    }
+    lines.push(line);
+    line = word;
+  });
+  lines.push(line);
+  return breakWords ? lines.flatMap(l => measure(l, size) > maxWidth ? breakWord(l, maxWidth, size, measure) : [l]) : lines;
+};
+
+// Explicit newlines always break. With maxWidth, paragraphs wrap between words; with maxWidth or maxHeight,
+// the size shrinks one pixel at a time until the block fits or reaches the minimum size.
+export const layoutText = (text: string, options: TextOptions, measure: TextMeasurer): TextLayout => {
+  const requested = getTextSize(options);
+  const maxWidth = positive(options.maxWidth);
+  const maxHeight = positive(options.maxHeight);
+  const minSize = Math.min(requested, positive(options.minSize) ?? MIN_TEXT_SIZE);
+  const paragraphs = splitLines(text);
+  const align = getTextAlign(options);
+
+  let size = requested;
+  for (;;) {
+    const atMinimum = size <= minSize;
+    const lines = maxWidth
+      ? paragraphs.flatMap(p => wrapParagraph(p, maxWidth, size, measure, atMinimum))
+      : paragraphs;
+    const width = Math.max(0, ...lines.map(line => measure(line, size)));
+    const height = lines.length * size * LINE_HEIGHT;
+    const fits = (!maxWidth || width <= maxWidth) && (!maxHeight || height <= maxHeight);
+    if (fits || atMinimum) return { lines, size, align, width, height };
+    size = Math.max(minSize, size - 1);
+  }
+};
+
+// The block's box: x is its center, left edge or right edge depending on the alignment; y is always its middle
+export const getTextBounds = (x: number, y: number, layout: TextLayout) => {
+  const left = layout.align === 'left' ? x : layout.align === 'right' ? x - layout.width : x - layout.width / 2;
+  return { x: left, y: y - layout.height / 2, width: layout.width, height: layout.height };
+};
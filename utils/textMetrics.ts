@@ -0,0 +1,11 @@
+// --- Text Estimates ---
+// Step helpers run in the sandbox worker, which has no fonts to measure with. These estimates for the
+// bold hand-written font are close enough to size boxes and space labels.
+
+// Average glyph width relative to the font size
+export const CHAR_WIDTH = 0.55;
+
+export const splitLines = (text: string) => String(text).split(/\r?\n|\\n/);
+
+export const estimateTextWidth = (text: string, size: number) =>
+  Math.max(...splitLines(text).map(line => line.length)) * size * CHAR_WIDTH;
@@ -0,0 +1,148 @@
+import { Theme, ThemeRole } from '../types';
+
+// --- Themes ---
+// Step code names colors by what they are for ('ink', 'primary', 'highlight', ...) and the storyboard's theme
+// turns them into real colors when it is rendered. Literal colors are passed through untouched.
+
+export const THEME_ROLES: ThemeRole[] = ['primary', 'success', 'warning', 'danger', 'neutral'];
+
+// Every name step code can use in place of a color
+export const SEMANTIC_COLORS = ['ink', 'muted', 'background', 'highlight', ...THEME_ROLES];
+
+export interface ThemeFont {
+  label: string;
+  family: string;
+  // Google Fonts family spec, for the SVG export's @import
+  googleFont: string;
+}
+
+export const THEME_FONTS: ThemeFont[] = [
+  { label: 'Patrick Hand', family: "'Patrick Hand', cursive", googleFont: 'Patrick+Hand' },
+  { label: 'Caveat', family: "'Caveat', cursive", googleFont: 'Caveat:wght@700' },
+  { label: 'Architects Daughter', family: "'Architects Daughter', cursive", googleFont: 'Architects+Daughter' }
+];
+
+// The original look: dark ink on white with pastel fills
+export const WHITEBOARD_THEME: Theme = {
+  id: 'whiteboard',
+  name: 'Whiteboard',
+  background: '#ffffff',
+  ink: '#1c1917',
+  muted: '#64748b',
+  highlight: 'rgba(255, 200, 0, 0.3)',
+  fills: { primary: '#e0f2fe', success: '#dcfce7', warning: '#fef3c7', danger: '#fee2e2', neutral: '#f1f5f9' },
+  accents: { primary: '#2563eb', success: '#16a34a', warning: '#d97706', danger: '#dc2626', neutral: '#475569' },
+  fontFamily: THEME_FONTS[0].family,
+  roughness: 1
+};
+
+export const THEMES: Theme[] = [
+  WHITEBOARD_THEME,
+  {
+    id: 'chalkboard',
+    name: 'Chalkboard',
+    background: '#2f3e36',
+    ink: '#f8fafc',
+    muted: '#cbd5e1',
+    highlight: 'rgba(250, 204, 21, 0.25)',
+    fills: { primary: '#35566b', success: '#3c6650', warning: '#6b5f35', danger: '#6b3c3c', neutral: '#46524c' },
+    accents: { primary: '#93c5fd', success: '#86efac', warning: '#fde68a', danger: '#fca5a5', neutral: '#e2e8f0' },
+    fontFamily: THEME_FONTS[1].family,
+    roughness: 1.6
+  },
+  {
+    id: 'blueprint',
+    name: 'Blueprint',
+    background: '#1d4e89',
+    ink: '#e0f2fe',
+    muted: '#93c5fd',
+    highlight: 'rgba(255, 255, 255, 0.18)',
+    fills: { primary: '#2563a8', success: '#1f6f78', warning: '#6d6a3a', danger: '#7f3b5a', neutral: '#2a5b94' },
+    accents: { primary: '#bae6fd', success: '#a7f3d0', warning: '#fde68a', danger: '#fecaca', neutral: '#dbeafe' },
+    fontFamily: THEME_FONTS[2].family,
+    roughness: 0.6
+  }
+];
+
+export const DEFAULT_THEME = WHITEBOARD_THEME;
+
+export const CUSTOM_THEME_ID = 'custom';
+
+// A custom theme starts out as a copy of the one it is based on
+export const createCustomTheme = (base: Theme): Theme => ({
+  ...base,
+  id: CUSTOM_THEME_ID,
+  name: 'Custom',
+  fills: { ...base.fills },
+  accents: { ...base.accents }
+});
+
+// --- Color Resolution ---
+
+// Fills and strokes read role names differently: a 'primary' box gets a soft tint, a 'primary' arrow a strong color
+export type ColorSlot = 'fill' | 'stroke';
+
+const isRole = (name: string): name is ThemeRole => (THEME_ROLES as string[]).includes(name);
+
+// Whiteboard colors written out literally (everything generated before themes existed) count as their names
+const LEGACY_COLORS: Record<ColorSlot, Record<string, string>> = {
+  fill: {
+    ...Object.fromEntries(THEME_ROLES.map(role => [WHITEBOARD_THEME.fills[role], role])),
+    'rgba(255, 200, 0, 0.3)': 'highlight',
+    'rgba(255, 215, 0, 0.3)': 'highlight',
+    'rgba(255, 255, 0, 0.3)': 'highlight',
+    'rgba(0, 200, 255, 0.2)': 'highlight',
+    'rgba(100, 149, 237, 0.3)': 'highlight'
+  },
+  stroke: {
+    ...Object.fromEntries(THEME_ROLES.map(role => [WHITEBOARD_THEME.accents[role], role])),
+    [WHITEBOARD_THEME.ink]: 'ink',
+    black: 'ink',
+    '#000': 'ink',
+    '#000000': 'ink'
+  }
+};
+
+export const resolveColor = (value: unknown, theme: Theme, slot: ColorSlot): unknown => {
+  if (typeof value !== 'string') return value;
+  const key = value.trim().toLowerCase();
+  const name = LEGACY_COLORS[slot][key] ?? key;
+  if (name === 'ink') return theme.ink;
+  if (name === 'muted') return theme.muted;
+  if (name === 'background') return theme.background;
+  if (name === 'highlight') return theme.highlight;
+  if (isRole(name)) return slot === 'fill' ? theme.fills[name] : theme.accents[name];
+  return value;
+};
+
+// --- Validation ---
+
+const isColor = (value: unknown) => typeof value === 'string' && value.trim().length > 0 && value.length <= 64;
+
+const isRoleColors = (value: unknown) =>
+  typeof value === 'object' && value !== null && THEME_ROLES.every(role => isColor((value as Record<string, unknown>)[role]));
+
+// Themes come back from storage and project files, so every field is checked before one is rendered
+export const isTheme = (value: unknown): value is Theme => {
+  if (typeof value !== 'object' || value === null) return false;
+  const t = value as Record<string, unknown>;
+  return typeof t.id === 'string' && typeof t.name === 'string'
+    && isColor(t.background) && isColor(t.ink) && isColor(t.muted) && isColor(t.highlight)
+    && isRoleColors(t.fills) && isRoleColors(t.accents)
+    && THEME_FONTS.some(font => font.family === t.fontFamily)
+    && typeof t.roughness === 'number' && t.roughness >= 0 && t.roughness <= 5;
+};
+
+export const getStoryboardTheme = (item: { theme?: unknown }): Theme => isTheme(item.theme) ? item.theme : DEFAULT_THEME;
+
+export const getThemeFont = (theme: Theme) => THEME_FONTS.find(font => font.family === theme.fontFamily) ?? THEME_FONTS[0];
+
+// Text is measured for wrapping, so the theme's font has to be loaded before a storyboard is laid out
+export const loadThemeFont = async (theme: Theme): Promise<void> => {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  try {
+    await document.fonts.load(`bold 24px ${theme.fontFamily}`);
+  } catch (e) {
+    console.warn("Could not load the theme font, text will use a fallback", e);
+  }
+};
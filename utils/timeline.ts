@@ -0,0 +1,349 @@
+import rough from 'roughjs';
+import { CanvasSize, DrawCommand, ElementTransition, Theme, TransitionKind } from '../types';
+import { fitCanvas } from './canvasSize';
+import { DEFAULT_THEME } from './themes';
+import { hashSeed } from './seed';
+import { Bounds, getCommandBounds } from './sketchObjects';
+import { ElementStates, NO_ELEMENTS, planStep } from './stepElements';
+import { Canvas2D, createTextMeasurer, drawPreparedCommand, prepareCommand, PreparedCommand } from './sketchRenderer';
+
+// --- Timeline Model ---
+// Every recorded command gets a slot on a clock, sized by how much it draws. Rendering "the frame at
+// time t" only depends on the commands and t, so seeking backwards just re-runs everything up to t.
+
+// Breathing room between one command finishing and the next one starting
+export const COMMAND_GAP_MS = 60;
+
+export const TRANSITION_MS: Record<TransitionKind, number> = { move: 900, fade: 600, highlight: 1000, erase: 700 };
+
+export interface TimedCommand {
+  prepared: PreparedCommand;
+  start: number;
+  duration: number;
+  // Index into the timeline's tracks when the command is part of a persistent element
+  track?: number;
+}
+
+export interface TimedTransition {
+  transition: ElementTransition;
+  start: number;
+  duration: number;
+}
+
+// One version of a persistent element on this step's clock, and everything that happens to it
+export interface ElementTrack {
+  element: string;
+  // Where a carried element starts the step
+  dx: number;
+  dy: number;
+  opacity: number;
+  transitions: TimedTransition[];
+  // When a new version of the element starts drawing over this one
+  hiddenAt: number;
+  bounds: Bounds | null;
+}
+
+export interface Timeline {
+  // Elements carried over from earlier steps, fully drawn from the first frame
+  carried: TimedCommand[];
+  items: TimedCommand[];
+  tracks: ElementTrack[];
+  duration: number;
+  // Colors, font and roughness are baked into the prepared commands; the background is painted per frame
+  theme: Theme;
+  // What the step leaves on the canvas for the next one
+  elements: ElementStates;
+}
+
+const unionBounds = (a: Bounds | null, b: Bounds | null): Bounds | null => {
+  if (!a || !b) return a ?? b;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return { x, y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: Math.max(a.y + a.height, b.y + b.height) - y };
+};
+
+export const buildTimeline = (
+  commands: DrawCommand[],
+  seed: number,
+  theme: Theme = DEFAULT_THEME,
+  transitions: ElementTransition[] = [],
+  carriedElements: ElementStates = NO_ELEMENTS
+): Timeline => {
+  const plan = planStep(carriedElements, commands, transitions, seed);
+  const gen = rough.generator();
+  const measureText = createTextMeasurer(theme.fontFamily);
+
+  const tracks: ElementTrack[] = plan.tracks.map(({ element, carried }) => ({
+    element,
+    dx: carried?.dx ?? 0,
+    dy: carried?.dy ?? 0,
+    opacity: carried?.opacity ?? 1,
+    transitions: [],
+    hiddenAt: Infinity,
+    bounds: null
+  }));
+  const addToTrack = (track: number | undefined, command: DrawCommand) => {
+    if (track !== undefined) tracks[track].bounds = unionBounds(tracks[track].bounds, getCommandBounds(command, measureText));
+  };
+
+  const carried = plan.tracks.flatMap(({ carried: state }, track) => (state?.commands ?? []).map(({ command, seed: commandSeed }) => {
+    addToTrack(track, command);
+    return { prepared: prepareCommand(command, commandSeed, theme, gen), start: 0, duration: 0, track };
+  }));
+
+  let cursor = 0;
+  let duration = 0;
+  const items: TimedCommand[] = [];
+  plan.events.forEach(event => {
+    if (event.type === 'command') {
+      const prepared = prepareCommand(commands[event.index], hashSeed(seed, event.index), theme, gen);
+      items.push({ prepared, start: cursor, duration: prepared.duration, track: event.track });
+      addToTrack(event.track, prepared.command);
+      if (event.replaces !== undefined) tracks[event.replaces].hiddenAt = cursor;
+      duration = cursor + prepared.duration;
+      cursor = duration + COMMAND_GAP_MS;
+    } else if (event.track !== undefined) {
+      const timed = { transition: event.transition, start: cursor, duration: TRANSITION_MS[event.transition.kind] };
+      tracks[event.track].transitions.push(timed);
+      duration = cursor + timed.duration;
+      cursor = duration + COMMAND_GAP_MS;
+    }
+  });
+
+  return { carried, items, tracks, duration, theme, elements: plan.elements };
+};
+
+// --- Element Transitions ---
+
+// How an element looks at one moment of the step
+export interface ElementLook {
+  dx: number;
+  dy: number;
+  opacity: number;
+  // How much of it is still drawn while it is being erased
+  reveal: number;
+  // 0..1..0 over a highlight
+  pulse: number;
+}
+
+const easeInOut = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+export const getElementLook = (track: ElementTrack, time: number): ElementLook => {
+  const look = { dx: track.dx, dy: track.dy, opacity: track.opacity, reveal: 1, pulse: 0 };
+
+  for (const { transition, start, duration } of track.transitions) {
+    if (start > time) break;
+    const progress = duration > 0 ? Math.min(1, (time - start) / duration) : 1;
+    const eased = easeInOut(progress);
+    switch (transition.kind) {
+      case 'move':
+        look.dx += (transition.dx ?? 0) * eased;
+        look.dy += (transition.dy ?? 0) * eased;
+        break;
+      case 'fade':
+        look.opacity += ((transition.opacity ?? 0) - look.opacity) * eased;
+        break;
+      case 'erase':
+        look.reveal = 1 - progress;
+        break;
+      case 'highlight':
+        look.pulse = progress < 1 ? Math.sin(Math.PI * progress) : 0;
+        break;
+    }
+  }
+  if (time >= track.hiddenAt) look.opacity = 0;
+  return look;
+};
+
+const PULSE_SCALE = 0.08;
+const HALO_PADDING = 10;
+
+// The highlight's glow, painted once per frame under the first command of the element
+const paintHalo = (ctx: Canvas2D, { x, y, width, height }: Bounds, color: string, look: ElementLook) => {
+  ctx.save();
+  ctx.globalAlpha *= look.pulse * look.opacity;
+  ctx.fillStyle = color;
+  ctx.translate(look.dx, look.dy);
+  ctx.beginPath();
+  ctx.roundRect(x - HALO_PADDING, y - HALO_PADDING, width + HALO_PADDING * 2, height + HALO_PADDING * 2, HALO_PADDING);
+  ctx.fill();
+  ctx.restore();
+};
+
+const paintElementCommand = (ctx: Canvas2D, prepared: PreparedCommand, progress: number, track: ElementTrack, look: ElementLook) => {
+  if (look.opacity <= 0 || look.reveal <= 0) return;
+  ctx.save();
+  ctx.globalAlpha *= look.opacity;
+  ctx.translate(look.dx, look.dy);
+  if (look.pulse > 0 && track.bounds) {
+    // Swells a little around its own center
+    const cx = track.bounds.x + track.bounds.width / 2;
+    const cy = track.bounds.y + track.bounds.height / 2;
+    const scale = 1 + PULSE_SCALE * look.pulse;
+    ctx.translate(cx, cy);
+    ctx.scale(scale, scale);
+    ctx.translate(-cx, -cy);
+  }
+  drawPreparedCommand(ctx, prepared, Math.min(progress, look.reveal));
+  ctx.restore();
+};
+
+interface FrameOptions {
+  width: number;
+  height: number;
+  background?: string;
+}
+
+// Draws the complete frame at `time` from scratch: finished commands in full, the active one part way
+export const renderTimelineFrame = (ctx: Canvas2D, timeline: Timeline, time: number, options: FrameOptions) => {
+  const { width, height, background = timeline.theme.background } = options;
+
+  // Fill instead of clearRect so exported video gets the theme's background, not transparent/black
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+
+  const looks = timeline.tracks.map(track => getElementLook(track, time));
+  const haloed = new Set<number>();
+
+  const paint = ({ prepared, start, duration, track }: TimedCommand, index: number) => {
+    if (start > time) return;
+    const progress = duration > 0 ? (time - start) / duration : 1;
+    try {
+      if (track === undefined) {
+        drawPreparedCommand(ctx, prepared, progress);
+        return;
+      }
+      const look = looks[track];
+      const { bounds } = timeline.tracks[track];
+      if (look.pulse > 0 && bounds && !haloed.has(track)) {
+        haloed.add(track);
+        paintHalo(ctx, bounds, timeline.theme.highlight, look);
+      }
+      paintElementCommand(ctx, prepared, progress, timeline.tracks[track], look);
+    } catch (e) {
+      console.error("Error executing command at index", index, e);
+    }
+  };
+
+  timeline.carried.forEach(paint);
+  timeline.items.forEach(paint);
+};
+
+// The same frame drawn into a target of another size or shape: scaled to fit, centered, and clipped to
+// its own area. Whatever the letterbox leaves uncovered gets the background too.
+export const renderFittedFrame = (ctx: Canvas2D, timeline: Timeline, time: number, content: CanvasSize, frame: CanvasSize, background = timeline.theme.background) => {
+  const { scale, x, y } = fitCanvas(content, frame);
+  ctx.save();
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, frame.width, frame.height);
+  ctx.translate(x, y);
+  ctx.scale(scale, scale);
+  ctx.beginPath();
+  ctx.rect(0, 0, content.width, content.height);
+  ctx.clip();
+  renderTimelineFrame(ctx, timeline, time, { ...content, background });
+  ctx.restore();
+};
+
+// --- Playback Clock ---
+
+export interface TimelinePlayer {
+  load: (duration: number) => void;
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  setRate: (rate: number) => void;
+  getTime: () => number;
+  getDuration: () => number;
+  getRate: () => number;
+  isPlaying: () => boolean;
+  // Fires on every clock change (frames, seeks, play/pause); returns an unsubscribe function
+  subscribe: (listener: () => void) => () => void;
+  dispose: () => void;
+}
+
+// The player only owns the clock. Drawing is delegated to `render`, which must produce the full frame for a time.
+export const createTimelinePlayer = (render: (time: number) => void): TimelinePlayer => {
+  let duration = 0;
+  let time = 0;
+  let rate = 1;
+  let playing = false;
+  let frameId: number | null = null;
+  let lastTimestamp: number | null = null;
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const stopClock = () => {
+    if (frameId !== null) cancelAnimationFrame(frameId);
+    frameId = null;
+    lastTimestamp = null;
+  };
+
+  const tick = (timestamp: number) => {
+    if (!playing) return;
+
+    if (lastTimestamp !== null) {
+      time = Math.min(duration, time + (timestamp - lastTimestamp) * rate);
+    }
+    lastTimestamp = timestamp;
+    render(time);
+
+    if (time >= duration) {
+      playing = false;
+      stopClock();
+    } else {
+      frameId = requestAnimationFrame(tick);
+    }
+    notify();
+  };
+
+  const pause = () => {
+    playing = false;
+    stopClock();
+    notify();
+  };
+
+  const seek = (target: number) => {
+    time = Math.max(0, Math.min(duration, target));
+    lastTimestamp = null;
+    render(time);
+    notify();
+  };
+
+  const play = () => {
+    if (playing) return;
+    if (time >= duration) seek(0);
+    playing = true;
+    frameId = requestAnimationFrame(tick);
+    notify();
+  };
+
+  const load = (newDuration: number) => {
+    playing = false;
+    stopClock();
+    duration = newDuration;
+    seek(0);
+  };
+
+  return {
+    load,
+    play,
+    pause,
+    seek,
+    setRate: (newRate: number) => { rate = newRate; notify(); },
+    getTime: () => time,
+    getDuration: () => duration,
+    getRate: () => rate,
+    isPlaying: () => playing,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    dispose: () => {
+      playing = false;
+      stopClock();
+      listeners.clear();
+    }
+  };
+};